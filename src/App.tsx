@@ -1,9 +1,115 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-
-// Interface to inject Plotly into window
-interface WindowWithPlotly extends Window {
-  Plotly?: any;
-}
+import { GoalEvent, MatchData } from './types';
+import {
+  Season,
+  SeasonSource,
+  deleteSeason,
+  inferSeasonName,
+  loadSeasons,
+  loadSelectedSeasonId,
+  saveSeason,
+  saveSelectedSeasonId,
+  seasonIdFromName,
+  sortSeasons
+} from './utils/seasonStore';
+import {
+  ColumnMapping,
+  DEFAULT_COLUMN_ALIASES,
+  getMissingFields,
+  loadCustomAliases,
+  mapRowsToMatches,
+  mergeAliases,
+  resolveColumnMapping,
+  saveCustomAliases
+} from './utils/csv';
+import { unattendedRows, validateMatches, validateWithScoreFixes } from './utils/validation';
+import { formatMinute, getStatusLabel, isLive, isPlayed } from './utils/fixtures';
+import ColumnMappingDialog from './components/ColumnMappingDialog';
+import SeasonNameDialog from './components/SeasonNameDialog';
+import ValidationReportPanel from './components/ValidationReportPanel';
+import LeagueTable from './components/LeagueTable';
+import LiveTablePanel from './components/LiveTablePanel';
+import SimulationPanel from './components/SimulationPanel';
+import SeasonComparisonPanel from './components/SeasonComparisonPanel';
+import TeamAliasManager from './components/TeamAliasManager';
+import HomeAwayCard from './components/HomeAwayCard';
+import RangeFilter from './components/RangeFilter';
+import RefereePanel from './components/RefereePanel';
+import AttendancePanel from './components/AttendancePanel';
+import SummaryCards from './components/SummaryCards';
+import GoalTimingPanel from './components/GoalTimingPanel';
+import TeamComparisonPanel from './components/TeamComparisonPanel';
+import MatchDetailDrawer from './components/MatchDetailDrawer';
+import ChartExportMenu from './components/ChartExportMenu';
+import PlotlyChart, { PlotlyFigure } from './components/PlotlyChart';
+import DataExportPanel from './components/DataExportPanel';
+import DataSourcePanel from './components/DataSourcePanel';
+import SourceIndicator from './components/SourceIndicator';
+import { parseGoalEvents } from './utils/goalEvents';
+import { ChartTable, resizeAllCharts } from './utils/chartExport';
+import {
+  DataSource,
+  HttpSourceConfig,
+  HttpSourceStatus,
+  INITIAL_HTTP_STATUS,
+  INITIAL_LIVE_STATUS,
+  LiveMatchUpdate,
+  LiveStreamStatus,
+  SourceData,
+  applyLiveUpdates,
+  createFileSource,
+  createHttpSource,
+  createLiveStreamSource,
+  liveUpdateKey,
+  recordFinalResults,
+  sameMatches,
+  saveHttpSourceConfig,
+  saveLiveStreamUrl,
+  separateLiveMatches
+} from './sources';
+import { DashboardUrlState, readUrlState, writeUrlState } from './utils/urlState';
+import {
+  UserAlias,
+  createTeamRegistry,
+  loadUserAliases,
+  normaliseGoalEventTeams,
+  normaliseMatchTeams,
+  saveUserAliases
+} from './utils/teams';
+import {
+  FULL_RANGE,
+  MatchRange,
+  PPGDataPoint,
+  DatasetContext,
+  DatasetId,
+  ROLLING_WINDOW_PRESETS,
+  RollingXgPoint,
+  VENUE_FILTER_LABELS,
+  VenueFilter,
+  buildDataset,
+  computeHomeAwaySplit,
+  computeLiveTable,
+  computeMatchOutcomes,
+  computePositionHistory,
+  computePpgSeries,
+  computeStandings,
+  computeTeamExpectedPoints,
+  computeTeamComparison,
+  computeTeamGoals,
+  computeTeamXgStats,
+  computeRollingXg,
+  computeMatchDetail,
+  computeXgTimeseries,
+  describeRange,
+  eventsForMatch,
+  filterMatchesByRange,
+  filterMatchesByReferee,
+  hasAttendance,
+  indexGoalEvents,
+  listReferees,
+  parseAttendance
+} from './analytics';
+import { defaultData } from './data/defaultData';
 
 // Interface for Plotly chart data series
 interface PlotlyDataSeries {
@@ -17,6 +123,7 @@ interface PlotlyDataSeries {
     width: number;
     color?: string;
     smoothing?: number;
+    dash?: string;
   };
   marker?: {
     size: number | number[];
@@ -40,32 +147,27 @@ interface PlotlyDataSeries {
   customdata?: any[][];
 }
 
-interface MatchData {
-  Wk: number;
-  Day: string;
-  Date: string;
-  Time: string;
-  Home: string;
-  xG: number;
-  Score: string;
-  xG_away: number;
-  Away: string;
-  Attendance: string;
-  Venue: string;
-  Referee: string;
+// CSV upload waiting on the user to complete the column mapping
+interface PendingImport {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
 }
 
-// Interface for PPG data point
-interface PPGDataPoint {
-  date: string;
-  ppg: number;
-  points: number;
-  matches: number;
-  opponent: string;
-  venue: string;
-  result: string;
-  score: string;
-  team: string;
+// Mapped upload waiting on the user to review validation issues
+interface PendingValidation {
+  id: number;
+  fileName: string;
+  matches: MatchData[];
+}
+
+// Imported matches waiting for the user to name their season
+interface PendingSeason {
+  id: number;
+  fileName: string;
+  matches: MatchData[];
+  initialName: string;
 }
 
 // Interface for PPG time series data
@@ -74,366 +176,813 @@ interface PPGTimeseriesData {
   compareTeam: PPGDataPoint[];
 }
 
-// Helper functions for the new visualizations
-const parseScore = (score: string): { homeGoals: number, awayGoals: number } => {
-  const parts = score.split('–');
-  return {
-    homeGoals: parseInt(parts[0], 10) || 0,
-    awayGoals: parseInt(parts[1], 10) || 0
-  };
-};
+// Columns the Match Data table can be sorted by
+type MatchSortKey = 'date' | 'attendance';
 
-const defaultData: MatchData[] = [
-  { Wk: 1, Day: 'Fri', Date: '2024-08-16', Time: '20:00', Home: 'Manchester Utd', xG: 2.4, Score: '1–0', xG_away: 0.4, Away: 'Fulham', Attendance: '73,297', Venue: 'Old Trafford', Referee: 'Robert Jones' },
-  { Wk: 1, Day: 'Sat', Date: '2024-08-17', Time: '12:30', Home: 'Ipswich Town', xG: 0.5, Score: '0–2', xG_away: 2.6, Away: 'Liverpool', Attendance: '30,014', Venue: 'Portman Road Stadium', Referee: 'Tim Robinson' },
-  { Wk: 1, Day: 'Sat', Date: '2024-08-17', Time: '15:00', Home: 'Newcastle Utd', xG: 0.3, Score: '1–0', xG_away: 1.8, Away: 'Southampton', Attendance: '52,196', Venue: 'St James\' Park', Referee: 'Craig Pawson' },
-  { Wk: 1, Day: 'Sat', Date: '2024-08-17', Time: '15:00', Home: 'Everton', xG: 0.5, Score: '0–3', xG_away: 1.4, Away: 'Brighton', Attendance: '39,217', Venue: 'Goodison Park', Referee: 'Simon Hooper' },
-  // Dummy data for additional weeks
-  { Wk: 2, Day: 'Sat', Date: '2024-08-24', Time: '15:00', Home: 'Manchester Utd', xG: 1.8, Score: '2–1', xG_away: 1.2, Away: 'Liverpool', Attendance: '74,000', Venue: 'Old Trafford', Referee: 'Anthony Taylor' },
-  { Wk: 2, Day: 'Sun', Date: '2024-08-25', Time: '14:00', Home: 'Fulham', xG: 1.0, Score: '1–1', xG_away: 1.5, Away: 'Newcastle Utd', Attendance: '25,000', Venue: 'Craven Cottage', Referee: 'Michael Oliver' },
-];
+// Sample season shown until the user uploads their own data
+const sampleSeason: Season = {
+  id: 'sample',
+  name: '2024/25 (sample)',
+  matches: defaultData,
+  updatedAt: 0,
+  builtIn: true
+};
 
 const App = (): JSX.Element => {
-  const [data, setData] = useState<MatchData[]>(defaultData);
+  const [seasons, setSeasons] = useState<Season[]>([sampleSeason]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string>(sampleSeason.id);
+  const [userAliases, setUserAliases] = useState<UserAlias[]>(loadUserAliases);
+  const [showAliasManager, setShowAliasManager] = useState<boolean>(false);
+  const [showDataExport, setShowDataExport] = useState<boolean>(false);
+  const [showDataSources, setShowDataSources] = useState<boolean>(false);
+  // Endpoint being polled for match data (null when data only comes from files)
+  const [httpSource, setHttpSource] = useState<HttpSourceConfig | null>(null);
+  const [httpStatus, setHttpStatus] = useState<HttpSourceStatus>(INITIAL_HTTP_STATUS);
+  // WebSocket or SSE stream of in-progress scores (null when not connected)
+  const [liveStreamUrl, setLiveStreamUrl] = useState<string | null>(null);
+  const [liveStreamStatus, setLiveStreamStatus] = useState<LiveStreamStatus>(INITIAL_LIVE_STATUS);
+  // Latest state of each match in progress, keyed by liveUpdateKey. Kept apart from
+  // the season so ticking scores only re-render the tables, not every chart.
+  const [liveUpdates, setLiveUpdates] = useState<Record<string, LiveMatchUpdate>>({});
   const [error, setError] = useState<string>('');
-  const [selectedTeam, setSelectedTeam] = useState<string>('');
-  const [compareTeam, setCompareTeam] = useState<string>('');
-  const [activeWeek, setActiveWeek] = useState<number>(1);
+  // Selections below start from the URL, so links and reloads restore the same view
+  const [initialUrlState] = useState<DashboardUrlState>(readUrlState);
+  const [selectedTeam, setSelectedTeam] = useState<string>(initialUrlState.team);
+  const [compareTeam, setCompareTeam] = useState<string>(initialUrlState.compareTeam);
+  // Restricts the team charts to home or away matches
+  const [venue, setVenue] = useState<VenueFilter>(initialUrlState.venue);
+  // Window of the season (gameweeks or dates) every view below is scoped to
+  const [range, setRange] = useState<MatchRange>(initialUrlState.range);
+  // Referee every view below is scoped to ('' = all)
+  const [referee, setReferee] = useState<string>(initialUrlState.referee);
+  // Matches averaged over in the xG trend lines, and whether raw per-match values are drawn too
+  const [rollingWindow, setRollingWindow] = useState<number>(initialUrlState.rollingWindow ?? ROLLING_WINDOW_PRESETS[0]);
+  const [showMatchMarkers, setShowMatchMarkers] = useState<boolean>(initialUrlState.showMatchMarkers);
+  const [activeWeek, setActiveWeek] = useState<number>(initialUrlState.activeWeek ?? 1);
+  // Gameweek the league table is shown as of (null = latest results)
+  const [tableWeek, setTableWeek] = useState<number | null>(initialUrlState.tableWeek);
+  // Sort order of the Match Data table (kick-off order by default)
+  const [matchSortKey, setMatchSortKey] = useState<MatchSortKey>('date');
+  const [matchSortDescending, setMatchSortDescending] = useState<boolean>(false);
+  // Match shown in the detail drawer
+  const [openMatch, setOpenMatch] = useState<DashboardUrlState['match']>(initialUrlState.match);
+  // Saved seasons have been loaded, so the URL can be checked against real data
+  const [seasonsRestored, setSeasonsRestored] = useState<boolean>(false);
+  // Selections from a link (or kept across a season switch) that the data can't satisfy
+  const [selectionWarnings, setSelectionWarnings] = useState<string[]>([]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [pendingValidation, setPendingValidation] = useState<PendingValidation | null>(null);
+  const [pendingSeason, setPendingSeason] = useState<PendingSeason | null>(null);
   const chartRef = useRef<HTMLDivElement>(null);
   const timeseriesChartRef = useRef<HTMLDivElement>(null);
   const donutChartRef = useRef<HTMLDivElement>(null);
   const scatterChartRef = useRef<HTMLDivElement>(null);
   const ppgChartRef = useRef<HTMLDivElement>(null);
+  const bumpChartRef = useRef<HTMLDivElement>(null);
+  const xptsChartRef = useRef<HTMLDivElement>(null);
   const weekTabsRef = useRef<HTMLDivElement>(null);
+  // Season the connected endpoint feeds, once its first response has arrived
+  const endpointSeasonIdRef = useRef<string | null>(null);
+
+  // Team identity registry: built-in club aliases plus the user's own
+  const teamRegistry = useMemo(() => createTeamRegistry(userAliases), [userAliases]);
+
+  // Seasons with team names resolved to canonical identities, so every aggregate
+  // (and cross-season comparison) keys on the same club whatever the source called it
+  const normalisedSeasons = useMemo(
+    () => seasons.map(season => ({
+      ...season,
+      matches: normaliseMatchTeams(season.matches, teamRegistry),
+      goalEvents: season.goalEvents && normaliseGoalEventTeams(season.goalEvents, teamRegistry)
+    })),
+    [seasons, teamRegistry]
+  );
+
+  // The season every view works against
+  const currentSeason = useMemo(
+    () => normalisedSeasons.find(season => season.id === selectedSeasonId) || normalisedSeasons[0],
+    [normalisedSeasons, selectedSeasonId]
+  );
+  const data = currentSeason.matches;
+
+  // Canonical club name, for matching live updates to fixtures
+  const canonicalTeam = useMemo(() => (name: string) => teamRegistry.resolve(name).name, [teamRegistry]);
+
+  // The season with matches in progress at their latest score
+  const liveData = useMemo(
+    () => applyLiveUpdates(data, Object.values(liveUpdates), canonicalTeam),
+    [data, liveUpdates, canonicalTeam]
+  );
+  const liveMatchCount = useMemo(() => liveData.filter(isLive).length, [liveData]);
+
+  // Provisional table, while any match is in progress
+  const liveTable = useMemo(
+    () => (liveMatchCount > 0 ? computeLiveTable(liveData) : []),
+    [liveData, liveMatchCount]
+  );
+
+  // Goal events matched to the season's fixtures, when a goal event file has been loaded
+  const goalEventIndex = useMemo(
+    () => (currentSeason.goalEvents ? indexGoalEvents(data, currentSeason.goalEvents) : null),
+    [currentSeason, data]
+  );
+
+  // Detail for the open match, when the current season has it
+  const matchDetail = useMemo(() => {
+    if (!openMatch) return null;
+    const match = data.find(m => m.Home === openMatch.home && m.Away === openMatch.away);
+    // Head-to-head looks across every loaded season
+    return match ? computeMatchDetail(match, data, normalisedSeasons.flatMap(season => season.matches)) : null;
+  }, [openMatch, data, normalisedSeasons]);
 
   // Compute unique teams for dropdown
   const teams = useMemo(() => [...new Set(data.map(d => d.Home).concat(data.map(d => d.Away)))], [data]);
 
+  // Fixtures inside the selected range, across every referee (for the referee panel)
+  const windowMatches = useMemo(() => filterMatchesByRange(data, range), [data, range]);
+
+  // Fixtures inside the selected range and, when one is picked, officiated by the referee
+  const rangeMatches = useMemo(() => filterMatchesByReferee(windowMatches, referee), [windowMatches, referee]);
+
+  const windowPlayedMatches = useMemo(() => windowMatches.filter(isPlayed), [windowMatches]);
+
+  // Referees of the season, for the referee filter
+  const referees = useMemo(() => listReferees(data), [data]);
+
+  // Only matches with a final result feed the aggregates below
+  const playedMatches = useMemo(() => rangeMatches.filter(isPlayed), [rangeMatches]);
+
   // Calculate goal statistics by team
-  const teamGoals = useMemo(() => {
-    const statsByTeam = new Map<string, { goals: number, matches: number }>();
-    
-    data.forEach(match => {
-      const { homeGoals, awayGoals } = parseScore(match.Score);
-      
-      // Update home team stats
-      const homeStats = statsByTeam.get(match.Home) || { goals: 0, matches: 0 };
-      homeStats.goals += homeGoals;
-      homeStats.matches += 1;
-      statsByTeam.set(match.Home, homeStats);
-      
-      // Update away team stats
-      const awayStats = statsByTeam.get(match.Away) || { goals: 0, matches: 0 };
-      awayStats.goals += awayGoals;
-      awayStats.matches += 1;
-      statsByTeam.set(match.Away, awayStats);
-    });
-    
-    // Convert to array for the chart - using Array.from instead of Object.entries
-    return Array.from(statsByTeam.entries())
-      .filter(([_, stats]) => stats.matches > 0)
-      .map(([team, stats]) => ({
-        team,
-        goalsPerMatch: stats.goals / stats.matches
-      }))
-      .sort((a, b) => b.goalsPerMatch - a.goalsPerMatch);  // Sort by goals per match
-  }, [data]);
+  const teamGoals = useMemo(() => computeTeamGoals(playedMatches, venue), [playedMatches, venue]);
 
   // Get all weeks with matches
   const availableWeeks = useMemo(() => {
-    return [...new Set(data.map(match => match.Wk))].sort((a, b) => a - b);
-  }, [data]);
+    return [...new Set(rangeMatches.map(match => match.Wk))].sort((a, b) => a - b);
+  }, [rangeMatches]);
+
+  // Weeks with at least one result, used for the table-as-of selector and bump chart
+  const playedWeeks = useMemo(() => {
+    return [...new Set(playedMatches.map(match => match.Wk))].sort((a, b) => a - b);
+  }, [playedMatches]);
+
+  // League table, either from all results so far or as it stood after tableWeek
+  const standings = useMemo(
+    () => computeStandings(rangeMatches, tableWeek ?? undefined),
+    [rangeMatches, tableWeek]
+  );
+
+  // Actual vs expected points per team, best over-performers first
+  const teamExpectedPoints = useMemo(() => computeTeamExpectedPoints(playedMatches), [playedMatches]);
+
+  // League position of every team after each played gameweek
+  const positionHistory = useMemo(
+    () => computePositionHistory(rangeMatches, playedWeeks),
+    [rangeMatches, playedWeeks]
+  );
   
+  // The Match Data table's rows: the active week's fixtures in the chosen order.
+  // Matches without a crowd figure sort last either way.
+  // Matches in progress show their latest score, so this table (not the charts) ticks with them.
+  const activeWeekMatches = useMemo(() => {
+    const rows = applyLiveUpdates(rangeMatches.filter(match => match.Wk === activeWeek), Object.values(liveUpdates), canonicalTeam);
+    const kickOff = (match: MatchData) => new Date(`${match.Date} ${match.Time}`).getTime() || new Date(match.Date).getTime();
+    return [...rows].sort((a, b) => {
+      if (matchSortKey === 'attendance') {
+        const crowdA = parseAttendance(a.Attendance);
+        const crowdB = parseAttendance(b.Attendance);
+        if (!Number.isFinite(crowdA) || !Number.isFinite(crowdB)) {
+          return Number(!Number.isFinite(crowdA)) - Number(!Number.isFinite(crowdB));
+        }
+        return matchSortDescending ? crowdB - crowdA : crowdA - crowdB;
+      }
+      return matchSortDescending ? kickOff(b) - kickOff(a) : kickOff(a) - kickOff(b);
+    });
+  }, [rangeMatches, activeWeek, matchSortKey, matchSortDescending, liveUpdates, canonicalTeam]);
+
   // Find weeks containing matches with the selected team
   const weeksWithSelectedTeam = useMemo(() => {
     if (!selectedTeam) return [];
     
     return [...new Set(
-      data
+      rangeMatches
         .filter(match => match.Home === selectedTeam || match.Away === selectedTeam)
         .map(match => match.Wk)
     )].sort((a, b) => a - b);
-  }, [data, selectedTeam]);
+  }, [rangeMatches, selectedTeam]);
 
   // xG Timeseries Data
-  const timeseriesData = useMemo(() => {
-    const filtered = selectedTeam 
-      ? data.filter(d => d.Home === selectedTeam || d.Away === selectedTeam) 
-      : data;
-
-    return filtered
-      .map(d => {
-        // If we have a selected team, calculate xG and xGA from that team's perspective
-        const isHome = d.Home === selectedTeam;
-        const isAway = d.Away === selectedTeam;
-        
-        if (selectedTeam && (isHome || isAway)) {
-          // Calculate values from the perspective of the selected team
-          return {
-            date: d.Date,
-            xG: isHome ? d.xG : d.xG_away,
-            xGA: isHome ? d.xG_away : d.xG,
-            team: selectedTeam,
-            match: `${d.Home} vs ${d.Away}`,
-            opponent: isHome ? d.Away : d.Home
-          };
-        } else {
-          // If no team selected, default to showing the home team's perspective 
-          return {
-            date: d.Date,
-            xG: d.xG,
-            xGA: d.xG_away,
-            team: d.Home,
-            match: `${d.Home} vs ${d.Away}`,
-            opponent: d.Away
-          };
-        }
-      })
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-  }, [data, selectedTeam]);
-
-  // Match Outcome Data for Donut Chart
-  const matchOutcomes = useMemo(() => {
-    let homeWins = 0;
-    let awayWins = 0;
-    let draws = 0;
-    
-    data.forEach(match => {
-      const { homeGoals, awayGoals } = parseScore(match.Score);
-      
-      if (homeGoals > awayGoals) {
-        homeWins++;
-      } else if (homeGoals < awayGoals) {
-        awayWins++;
-      } else {
-        draws++;
-      }
-    });
-    
-    const total = homeWins + awayWins + draws;
-    
-    return {
-      labels: ['Home Wins', 'Away Wins', 'Draws'],
-      values: [homeWins, awayWins, draws],
-      percentages: [
-        (homeWins / total) * 100,
-        (awayWins / total) * 100,
-        (draws / total) * 100
-      ],
-      counts: [homeWins, awayWins, draws],
-      total
-    };
-  }, [data]);
+  const timeseriesData = useMemo(
+    () => computeXgTimeseries(playedMatches, selectedTeam || undefined, venue),
+    [playedMatches, selectedTeam, venue]
+  );
+
+  // Rolling averages over the xG timeseries
+  const rollingXgData = useMemo(
+    () => computeRollingXg(timeseriesData, rollingWindow),
+    [timeseriesData, rollingWindow]
+  );
+
+  // Side-by-side profiles of the selected and comparison teams. Both sides cover
+  // home and away matches (the profile carries its own home/away split)
+  const teamComparison = useMemo(
+    () => (selectedTeam && compareTeam && compareTeam !== selectedTeam
+      ? computeTeamComparison(
+          playedMatches,
+          normalisedSeasons.flatMap(season => season.matches),
+          selectedTeam,
+          compareTeam
+        )
+      : null),
+    [playedMatches, normalisedSeasons, selectedTeam, compareTeam]
+  );
+
+  // Rolling xG for both compared teams, in the same order as the comparison
+  const comparisonRollingXg = useMemo((): [RollingXgPoint[], RollingXgPoint[]] => {
+    if (!teamComparison) return [[], []];
+    const [first, second] = teamComparison.teams.map(profile =>
+      computeRollingXg(computeXgTimeseries(playedMatches, profile.team, 'all'), rollingWindow)
+    );
+    return [first, second];
+  }, [teamComparison, playedMatches, rollingWindow]);
+
+  // Match Outcome Data for Donut Chart: the league's home/away/draw split, or the
+  // selected team's results at the chosen venue
+  const matchOutcomes = useMemo(
+    () => computeMatchOutcomes(playedMatches, selectedTeam || undefined, venue),
+    [playedMatches, selectedTeam, venue]
+  );
 
   // xG vs xGA Scatter Plot Data
-  const scatterData = useMemo(() => {
-    // Calculate average xG and xGA for each team
-    const teamStats = new Map<string, { 
-      xG: number, 
-      xGA: number, 
-      matches: number, 
-      goalsFor: number, 
-      goalsAgainst: number 
-    }>();
-    
-    data.forEach(match => {
-      const { homeGoals, awayGoals } = parseScore(match.Score);
-      
-      // Update home team stats
-      const homeStats = teamStats.get(match.Home) || { 
-        xG: 0, xGA: 0, matches: 0, goalsFor: 0, goalsAgainst: 0 
-      };
-      homeStats.xG += match.xG;
-      homeStats.xGA += match.xG_away;
-      homeStats.goalsFor += homeGoals;
-      homeStats.goalsAgainst += awayGoals;
-      homeStats.matches += 1;
-      teamStats.set(match.Home, homeStats);
-      
-      // Update away team stats
-      const awayStats = teamStats.get(match.Away) || { 
-        xG: 0, xGA: 0, matches: 0, goalsFor: 0, goalsAgainst: 0 
-      };
-      awayStats.xG += match.xG_away;
-      awayStats.xGA += match.xG;
-      awayStats.goalsFor += awayGoals;
-      awayStats.goalsAgainst += homeGoals;
-      awayStats.matches += 1;
-      teamStats.set(match.Away, awayStats);
-    });
-    
-    // Convert to array for the chart
-    return Array.from(teamStats.entries())
-      .filter(([_, stats]) => stats.matches > 0)
-      .map(([team, stats]) => ({
-        team,
-        xG: stats.xG / stats.matches,
-        xGA: stats.xGA / stats.matches,
-        goalsPerMatch: stats.goalsFor / stats.matches,
-        concededPerMatch: stats.goalsAgainst / stats.matches,
-        matches: stats.matches,
-        goalDiff: (stats.goalsFor - stats.goalsAgainst) / stats.matches
-      }));
-  }, [data]);
+  const scatterData = useMemo(() => computeTeamXgStats(playedMatches, venue), [playedMatches, venue]);
+
+  // Selected team's home and away records side by side (ignores the venue filter)
+  const homeAwaySplit = useMemo(
+    () => (selectedTeam ? computeHomeAwaySplit(playedMatches, selectedTeam) : null),
+    [playedMatches, selectedTeam]
+  );
   
   // PPG Timeseries Data
   const ppgTimeseriesData = useMemo<PPGTimeseriesData>(() => {
     // Only process data for a selected team
     if (!selectedTeam) return { primaryTeam: [], compareTeam: [] };
-    
-    console.log('Calculating PPG for team:', selectedTeam);
-    
-    // Get all matches for the selected team in chronological order
-    const teamMatches = data
-      .filter(match => match.Home === selectedTeam || match.Away === selectedTeam)
-      .sort((a, b) => new Date(a.Date).getTime() - new Date(b.Date).getTime());
-    
-    console.log('Team matches found:', teamMatches.length);
-    
-    // Calculate cumulative points and PPG after each match
-    let points = 0;
-    let matchesPlayed = 0;
-    
-    const result = teamMatches.map(match => {
-      const { homeGoals, awayGoals } = parseScore(match.Score);
-      let matchPoints = 0;
-      
-      // Calculate points earned in this match
-      if (match.Home === selectedTeam) {
-        // Team played at home
-        if (homeGoals > awayGoals) matchPoints = 3; // Win
-        else if (homeGoals === awayGoals) matchPoints = 1; // Draw
-      } else {
-        // Team played away
-        if (awayGoals > homeGoals) matchPoints = 3; // Win
-        else if (homeGoals === awayGoals) matchPoints = 1; // Draw
-      }
-      
-      // Update running totals
-      points += matchPoints;
-      matchesPlayed += 1;
-      
-      // Return data point for this match
-      return {
-        date: match.Date,
-        ppg: points / matchesPlayed,
-        points: points,
-        matches: matchesPlayed,
-        opponent: match.Home === selectedTeam ? match.Away : match.Home,
-        venue: match.Home === selectedTeam ? 'Home' : 'Away',
-        result: matchPoints === 3 ? 'Win' : (matchPoints === 1 ? 'Draw' : 'Loss'),
-        score: match.Score,
-        team: selectedTeam
-      };
+
+    const primaryTeam = computePpgSeries(playedMatches, selectedTeam, venue);
+    const compareSeries = compareTeam ? computePpgSeries(playedMatches, compareTeam, venue) : [];
+    console.log('PPG data points calculated:', {
+      selectedTeam,
+      primary: primaryTeam.length,
+      compareTeam,
+      compare: compareSeries.length
     });
-    
-    console.log('PPG data points calculated:', result.length);
-    
-    // If there's a comparison team, calculate its data as well
-    if (compareTeam) {
-      console.log('Calculating PPG for comparison team:', compareTeam);
-      
-      // Get all matches for the comparison team in chronological order
-      const compareMatches = data
-        .filter(match => match.Home === compareTeam || match.Away === compareTeam)
-        .sort((a, b) => new Date(a.Date).getTime() - new Date(b.Date).getTime());
-      
-      console.log('Comparison team matches found:', compareMatches.length);
-      
-      // Calculate cumulative points and PPG after each match
-      let comparePoints = 0;
-      let compareMatchesPlayed = 0;
-      
-      const compareResult = compareMatches.map(match => {
-        const { homeGoals, awayGoals } = parseScore(match.Score);
-        let matchPoints = 0;
-        
-        // Calculate points earned in this match
-        if (match.Home === compareTeam) {
-          // Team played at home
-          if (homeGoals > awayGoals) matchPoints = 3; // Win
-          else if (homeGoals === awayGoals) matchPoints = 1; // Draw
+
+    return { primaryTeam, compareTeam: compareSeries };
+  }, [playedMatches, selectedTeam, compareTeam, venue]);
+
+  // Restore saved seasons from IndexedDB on first load, then the view in the URL
+  useEffect(() => {
+    loadSeasons()
+      .catch(err => {
+        console.error('Failed to restore seasons:', err);
+        return [] as Season[];
+      })
+      .then(saved => {
+        console.log('Seasons restored from IndexedDB:', saved.map(season => season.name));
+        const available = sortSeasons([...saved, sampleSeason]);
+        // Merge rather than replace: a season loaded while the store was still being
+        // read is newer than any saved copy of it
+        if (saved.length > 0) {
+          setSeasons(prev => sortSeasons([...saved.filter(season => !prev.some(s => s.id === season.id)), ...prev]));
+        }
+
+        // A season named in the URL takes precedence over the last season viewed
+        const { seasonId } = initialUrlState;
+        const linked = available.find(season => season.id === seasonId);
+        if (linked) {
+          applyUrlState(initialUrlState, linked);
         } else {
-          // Team played away
-          if (awayGoals > homeGoals) matchPoints = 3; // Win
-          else if (homeGoals === awayGoals) matchPoints = 1; // Draw
+          if (seasonId) {
+            setSelectionWarnings([`Season "${seasonId}" from the link isn't loaded in this browser, so another season is shown`]);
+          }
+          // The rest of the link (team, range, open match...) still applies to the season shown
+          if (saved.length > 0) {
+            const lastSelected = loadSelectedSeasonId();
+            applyUrlState(initialUrlState, saved.find(season => season.id === lastSelected) || sortSeasons(saved)[0]);
+          }
         }
-        
-        // Update running totals
-        comparePoints += matchPoints;
-        compareMatchesPlayed += 1;
-        
-        // Return data point for this match
-        return {
-          date: match.Date,
-          ppg: comparePoints / compareMatchesPlayed,
-          points: comparePoints,
-          matches: compareMatchesPlayed,
-          opponent: match.Home === compareTeam ? match.Away : match.Home,
-          venue: match.Home === compareTeam ? 'Home' : 'Away',
-          result: matchPoints === 3 ? 'Win' : (matchPoints === 1 ? 'Draw' : 'Loss'),
-          score: match.Score,
-          team: compareTeam
-        };
+        setSeasonsRestored(true);
       });
-      
-      console.log('Compare PPG data points calculated:', compareResult.length);
-      
-      // Return both datasets
-      return {
-        primaryTeam: result,
-        compareTeam: compareResult
-      };
+  }, []);
+
+  // Mirror the selections in the URL; the first write replaces the entry the page loaded with
+  const urlSynced = useRef<boolean>(false);
+  useEffect(() => {
+    if (!seasonsRestored) return;
+    writeUrlState({
+      seasonId: currentSeason.id,
+      team: selectedTeam,
+      compareTeam,
+      venue,
+      range,
+      referee,
+      rollingWindow: rollingWindow === ROLLING_WINDOW_PRESETS[0] ? undefined : rollingWindow,
+      showMatchMarkers,
+      activeWeek,
+      tableWeek,
+      match: openMatch
+    }, !urlSynced.current);
+    urlSynced.current = true;
+  }, [seasonsRestored, currentSeason.id, selectedTeam, compareTeam, venue, range, referee, rollingWindow, showMatchMarkers, activeWeek, tableWeek, openMatch]);
+
+  // Back/forward: bring the dashboard back to the view in the URL
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = readUrlState();
+      const season = seasons.find(s => s.id === state.seasonId);
+      if (state.seasonId && !season) {
+        setSelectionWarnings([`Season "${state.seasonId}" from the link isn't loaded in this browser`]);
+      }
+      applyUrlState(state, season || seasons.find(s => s.id === selectedSeasonId) || seasons[0]);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [seasons, selectedSeasonId, teamRegistry]);
+
+  // Fall back to all teams, with a warning, when a selected team isn't in the season's
+  // data (a stale link, or a season switch), instead of drawing empty charts
+  useEffect(() => {
+    if (!seasonsRestored) return;
+    const warnings: string[] = [];
+    if (selectedTeam && !teams.includes(selectedTeam)) {
+      warnings.push(`${selectedTeam} isn't in season ${currentSeason.name}, so all teams are shown`);
+      setSelectedTeam('');
     }
-    
-    // Return just the primary team data
-    return {
-      primaryTeam: result,
-      compareTeam: []
+    if (compareTeam && !teams.includes(compareTeam)) {
+      warnings.push(`${compareTeam} isn't in season ${currentSeason.name}, so there is no comparison team`);
+      setCompareTeam('');
+    }
+    if (referee && !referees.includes(referee)) {
+      warnings.push(`${referee} didn't referee in season ${currentSeason.name}, so all referees are shown`);
+      setReferee('');
+    }
+    if (openMatch && !matchDetail) {
+      warnings.push(`Season ${currentSeason.name} has no ${openMatch.home} vs ${openMatch.away} match`);
+      setOpenMatch(null);
+    }
+    if (warnings.length > 0) {
+      setSelectionWarnings(prev => [...prev, ...warnings]);
+    }
+  }, [seasonsRestored, teams, selectedTeam, compareTeam, referees, referee, openMatch, matchDetail, currentSeason.name]);
+
+  // Set every selection from a URL state. Team names go through the alias registry
+  // so links made with another spelling still work.
+  const applyUrlState = (state: DashboardUrlState, season: Season) => {
+    setSelectedSeasonId(season.id);
+    saveSelectedSeasonId(season.id);
+    setSelectedTeam(state.team && teamRegistry.resolve(state.team).name);
+    setCompareTeam(state.compareTeam && teamRegistry.resolve(state.compareTeam).name);
+    setVenue(state.venue);
+    setRange(state.range);
+    setReferee(state.referee);
+    setRollingWindow(state.rollingWindow ?? ROLLING_WINDOW_PRESETS[0]);
+    setShowMatchMarkers(state.showMatchMarkers);
+    setTableWeek(state.tableWeek);
+    setOpenMatch(state.match && {
+      home: teamRegistry.resolve(state.match.home).name,
+      away: teamRegistry.resolve(state.match.away).name
+    });
+
+    const weeks = [...new Set(season.matches.map(r => r.Wk))].sort((a, b) => a - b);
+    setActiveWeek(state.activeWeek ?? weeks[0] ?? 1);
+  };
+
+  // Switch every view to another season
+  const selectSeason = (season: Season) => {
+    setSelectedSeasonId(season.id);
+    saveSelectedSeasonId(season.id);
+    setTableWeek(null);
+    setRange(FULL_RANGE);
+    setReferee('');
+    setOpenMatch(null);
+
+    // Set active week to the first week found in the data
+    const weeks = [...new Set(season.matches.map(r => r.Wk))].sort((a, b) => a - b);
+    if (weeks.length > 0) {
+      setActiveWeek(weeks[0]);
+    }
+  };
+
+  // Scope every view to a new window, keeping the week browser and table-as-of inside it
+  const handleRangeChange = (next: MatchRange) => {
+    setRange(next);
+    setTableWeek(null);
+
+    const weeks = [...new Set(filterMatchesByReferee(filterMatchesByRange(data, next), referee).map(m => m.Wk))].sort((a, b) => a - b);
+    if (weeks.length > 0 && !weeks.includes(activeWeek)) {
+      setActiveWeek(weeks[weeks.length - 1]);
+    }
+  };
+
+  // Scope every view to one referee's matches, keeping the week browser on a week they had
+  const handleRefereeChange = (next: string) => {
+    setReferee(next);
+    setTableWeek(null);
+
+    const weeks = [...new Set(filterMatchesByReferee(windowMatches, next).map(m => m.Wk))].sort((a, b) => a - b);
+    if (weeks.length > 0 && !weeks.includes(activeWeek)) {
+      setActiveWeek(weeks[weeks.length - 1]);
+    }
+  };
+
+  // Weekly report: the print stylesheet lays out the summary cards, standings,
+  // team charts and the current week's fixtures; the browser saves it as PDF
+  const handleGenerateReport = () => {
+    console.log('Generating report:', { season: currentSeason.name, team: selectedTeam, week: activeWeek });
+    window.print();
+  };
+
+  // Charts are sized for the screen; re-fit them to the page width for printing
+  useEffect(() => {
+    window.addEventListener('beforeprint', resizeAllCharts);
+    window.addEventListener('afterprint', resizeAllCharts);
+    return () => {
+      window.removeEventListener('beforeprint', resizeAllCharts);
+      window.removeEventListener('afterprint', resizeAllCharts);
     };
-  }, [data, selectedTeam, compareTeam]);
+  }, []);
+
+  // Sort the Match Data table; crowds default to biggest first
+  const handleMatchSort = (key: MatchSortKey) => {
+    if (key === matchSortKey) {
+      setMatchSortDescending(!matchSortDescending);
+    } else {
+      setMatchSortKey(key);
+      setMatchSortDescending(key === 'attendance');
+    }
+  };
+
+  // Name for imported matches: the season their dates fall in, else the file name
+  const defaultSeasonName = (matches: MatchData[], source: SeasonSource): string =>
+    inferSeasonName(matches) || source.label.replace(/\.csv$/i, '');
+
+  // A season built from imported matches, under the name given (or the default one)
+  const buildSeason = (matches: MatchData[], source: SeasonSource, name = defaultSeasonName(matches, source)): Season =>
+    ({ id: seasonIdFromName(name), name, matches, updatedAt: Date.now(), source });
+
+  // Add a season (or replace the one with the same id) and save it for next time
+  const storeSeason = (season: Season) => {
+    setSeasons(prev => sortSeasons([...prev.filter(s => s.id !== season.id), season]));
+    saveSeason(season).catch(err => {
+      console.error('Failed to save season:', err);
+      setError(`Season ${season.name} loaded, but could not be saved for next time`);
+    });
+  };
+
+  // Store an imported set of matches as a named season and switch to it.
+  // A season stored under the same name is replaced.
+  const loadMatches = (matches: MatchData[], source: SeasonSource, name?: string): Season => {
+    const season = buildSeason(matches, source, name);
+    storeSeason(season);
+    selectSeason(season);
+    setPendingValidation(null);
+    setError('');
+    return season;
+  };
+
+  // Valid rows from a file: ask for the season's name before storing them
+  const nameImportedSeason = (fileName: string, matches: MatchData[]) => {
+    setPendingValidation(null);
+    setPendingSeason({ id: Date.now(), fileName, matches, initialName: defaultSeasonName(matches, { kind: 'file', label: fileName }) });
+    setError('');
+  };
+
+  // New data from the endpoint. Nobody reviews polled rows, so only hyphenated scores
+  // are repaired; rows that still fail validation, or name an unknown club that looks
+  // like a known one, are left out. The first response opens its season; later ones
+  // update it in place, keeping the current view.
+  const handleEndpointMatches = (matches: MatchData[], checkedAt: number, url: string) => {
+    const validRows = unattendedRows(validateWithScoreFixes(matches, teamRegistry));
+    const skippedRows = matches.length - validRows.length;
+    console.log('Endpoint update:', { url, rows: matches.length, skipped: skippedRows });
+    if (validRows.length === 0) {
+      setHttpStatus({ checkedAt, error: 'The endpoint returned no usable matches', skippedRows });
+      return;
+    }
+    setHttpStatus({ checkedAt, error: '', skippedRows });
+
+    // Live rows go to the live overlay; the season keeps them as fixtures until full time
+    const { fixtures, live } = separateLiveMatches(validRows);
+    setLiveUpdates(prev => {
+      const next = { ...prev };
+      fixtures.forEach(match => delete next[liveUpdateKey(canonicalTeam(match.Home), canonicalTeam(match.Away))]);
+      live.forEach(update => {
+        next[liveUpdateKey(canonicalTeam(update.Home), canonicalTeam(update.Away))] = update;
+      });
+      return next;
+    });
+
+    const source: SeasonSource = { kind: 'http', label: url };
+    if (endpointSeasonIdRef.current === null) {
+      endpointSeasonIdRef.current = loadMatches(fixtures, source).id;
+      return;
+    }
+    const season = buildSeason(fixtures, source);
+    const existing = seasons.find(s => s.id === season.id);
+    // Only live scores moved: leave the season (and every chart) as it is
+    if (existing && sameMatches(existing.matches, fixtures)) return;
+    storeSeason({ ...season, goalEvents: existing && existing.goalEvents });
+  };
+
+  // Connecting again to the same URL (or "Check now") restarts polling but keeps
+  // updating the season already open instead of switching to it afresh
+  const handleConnectEndpoint = (config: HttpSourceConfig) => {
+    if (!httpSource || httpSource.url !== config.url) {
+      endpointSeasonIdRef.current = null;
+      setHttpStatus(INITIAL_HTTP_STATUS);
+    }
+    saveHttpSourceConfig(config);
+    setHttpSource(config);
+    connectSource(createHttpSource(config));
+  };
+
+  const handleDisconnectEndpoint = () => {
+    disconnectSource('http');
+    setHttpSource(null);
+    endpointSeasonIdRef.current = null;
+    setHttpStatus(INITIAL_HTTP_STATUS);
+    setLiveUpdates({});
+  };
+
+  // Write final scores from the live stream into the current season and persist it.
+  // Results that fail validation are left out rather than saved. Several messages can
+  // arrive before a re-render, so each result is written into the latest seasons; the
+  // season is saved once the update has been applied.
+  const recordLiveResults = (results: LiveMatchUpdate[]) => {
+    const season = seasons.find(s => s.id === selectedSeasonId) || seasons[0];
+    // Rejection depends only on the results and their fixtures, so the current season will do
+    const { rejected } = recordFinalResults(season.matches, results, teamRegistry);
+    if (rejected.length > 0) {
+      console.warn('Rejected final scores from the live stream:', rejected);
+      const [first] = rejected;
+      const firstError = first.issues.find(issue => issue.severity === 'error');
+      const problem = firstError ? firstError.message : 'the result did not pass validation';
+      setError(`Skipped ${rejected.length} final ${rejected.length === 1 ? 'score' : 'scores'} from the live stream: ${first.match.Home} vs ${first.match.Away}: ${problem}`);
+    }
+
+    setSeasons(prev => {
+      const latest = prev.find(s => s.id === season.id);
+      if (!latest) return prev;
+      const { matches } = recordFinalResults(latest.matches, results, teamRegistry);
+      if (matches === latest.matches) return prev;
+      if (!latest.builtIn) liveResultSavesRef.current.add(latest.id);
+      return prev.map(s => (s.id === latest.id ? { ...latest, matches, updatedAt: Date.now() } : s));
+    });
+  };
+
+  // Save the seasons the live stream has just written results into
+  const liveResultSavesRef = useRef(new Set<string>());
+  useEffect(() => {
+    if (liveResultSavesRef.current.size === 0) return;
+    seasons.filter(season => liveResultSavesRef.current.has(season.id)).forEach(season => {
+      saveSeason(season).catch(err => {
+        console.error('Failed to save season:', err);
+        setError(`Final scores recorded, but ${season.name} could not be saved for next time`);
+      });
+    });
+    liveResultSavesRef.current.clear();
+  }, [seasons]);
+
+  // Scores from the live stream. Matches in progress go into the live overlay; the
+  // final whistle writes the result into the season, and from there into every chart.
+  const handleLiveStreamUpdates = (updates: LiveMatchUpdate[]) => {
+    setLiveStreamStatus({ lastMessageAt: Date.now(), error: '' });
+    setLiveUpdates(prev => {
+      const next = { ...prev };
+      updates.forEach(update => {
+        const key = liveUpdateKey(canonicalTeam(update.Home), canonicalTeam(update.Away));
+        if (update.Status === 'live') {
+          next[key] = update;
+        } else {
+          delete next[key];
+        }
+      });
+      return next;
+    });
+
+    const finished = updates.filter(update => update.Status === 'played');
+    if (finished.length > 0) recordLiveResults(finished);
+  };
+
+  // Columns read from an uploaded file: map them, asking the user for any that
+  // aren't recognised, then validate the rows
+  const handleFileRows = (fileName: string, headers: string[], rows: string[][]) => {
+    const aliases = mergeAliases(DEFAULT_COLUMN_ALIASES, loadCustomAliases());
+    const mapping = resolveColumnMapping(headers, aliases);
+    const missing = getMissingFields(mapping);
+    console.log('CSV columns resolved:', { headers, mapping, missing });
+
+    if (missing.length > 0) {
+      // Ask the user to map the remaining columns before importing
+      setPendingImport({ fileName, headers, rows, mapping });
+      setError(`Could not find columns: ${missing.join(', ')}. Please map them below.`);
+      return;
+    }
+
+    applyImport(fileName, rows, mapping);
+  };
+
+  // Everything a source delivers comes through here, whichever source sent it
+  const handleSourceData = (source: DataSource, data: SourceData) => {
+    switch (data.kind) {
+      case 'rows':
+        handleFileRows(source.label, data.headers, data.rows);
+        break;
+      case 'matches':
+        handleEndpointMatches(data.matches, data.checkedAt, source.label);
+        break;
+      case 'unchanged':
+        setHttpStatus(prev => ({ ...prev, checkedAt: data.checkedAt, error: '' }));
+        break;
+      case 'live':
+        handleLiveStreamUpdates(data.updates);
+        break;
+    }
+  };
+
+  // Failures show next to the source: polling and the stream carry on and recover by themselves
+  const handleSourceError = (source: DataSource, err: Error) => {
+    if (source.kind === 'http') {
+      console.error('Failed to load matches from endpoint:', err);
+      setHttpStatus(prev => ({ ...prev, checkedAt: Date.now(), error: err.message }));
+    } else if (source.kind === 'live') {
+      console.error('Live stream error:', err);
+      setLiveStreamStatus(prev => ({ ...prev, error: err.message }));
+    } else {
+      setError(err.message);
+    }
+  };
+
+  const handleSourceOpen = (source: DataSource) => {
+    if (source.kind === 'live') setLiveStreamStatus(prev => ({ ...prev, error: '' }));
+  };
+
+  // Running sources by kind. Their callbacks outlive renders, so they reach the
+  // latest handlers through a ref.
+  const sourcesRef = useRef<Partial<Record<DataSource['kind'], DataSource>>>({});
+  const sourceHandlersRef = useRef({ data: handleSourceData, error: handleSourceError, open: handleSourceOpen });
+  sourceHandlersRef.current = { data: handleSourceData, error: handleSourceError, open: handleSourceOpen };
+
+  const disconnectSource = (kind: DataSource['kind']) => {
+    sourcesRef.current[kind]?.stop();
+    delete sourcesRef.current[kind];
+  };
+
+  // Start a source, replacing any running source of the same kind
+  const connectSource = (source: DataSource) => {
+    disconnectSource(source.kind);
+    sourcesRef.current[source.kind] = source;
+    source.start({
+      onData: data => sourceHandlersRef.current.data(source, data),
+      onError: err => sourceHandlersRef.current.error(source, err),
+      onOpen: () => sourceHandlersRef.current.open(source)
+    });
+  };
+
+  // Stop every source when the dashboard goes away
+  useEffect(() => () => {
+    Object.values(sourcesRef.current).forEach(source => source?.stop());
+  }, []);
+
+  const handleConnectLiveStream = (url: string) => {
+    saveLiveStreamUrl(url);
+    setLiveStreamStatus(INITIAL_LIVE_STATUS);
+    setLiveStreamUrl(url);
+    connectSource(createLiveStreamSource(url));
+  };
+
+  const handleDisconnectLiveStream = () => {
+    disconnectSource('live');
+    setLiveStreamUrl(null);
+    setLiveStreamStatus(INITIAL_LIVE_STATUS);
+    setLiveUpdates({});
+  };
+
+  // Persist alias edits; the registry (and every aggregate) picks them up immediately
+  const handleAliasesChange = (aliases: UserAlias[]) => {
+    setUserAliases(aliases);
+    saveUserAliases(aliases);
+  };
+
+  const handleAddAlias = (alias: UserAlias) => {
+    handleAliasesChange([...userAliases.filter(a => a.alias.toLowerCase() !== alias.alias.toLowerCase()), alias]);
+  };
+
+  // Remove an uploaded season from the store
+  const handleDeleteSeason = (season: Season) => {
+    const remaining = seasons.filter(s => s.id !== season.id);
+    setSeasons(remaining);
+    selectSeason(sortSeasons(remaining)[0] || sampleSeason);
+    deleteSeason(season.id).catch(err => {
+      console.error('Failed to delete season:', err);
+    });
+  };
+
+  // Validate mapped rows and either load them or hand them to the validation report
+  const applyImport = (fileName: string, rows: string[][], mapping: ColumnMapping) => {
+    const matches = mapRowsToMatches(rows, mapping);
+    const report = validateMatches(matches, teamRegistry);
+    console.log('Import validation:', {
+      rows: matches.length,
+      valid: report.validRows.length,
+      errors: report.errorCount,
+      warnings: report.warningCount
+    });
+
+    setPendingImport(null);
+    if (report.errorCount > 0 || report.warningCount > 0) {
+      setPendingValidation({ id: Date.now(), fileName, matches });
+      setPendingSeason(null);
+      setError('');
+      return;
+    }
+
+    nameImportedSeason(fileName, matches);
+  };
 
   // Handle CSV file upload
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset the input so the same file can be chosen again after a cancelled mapping
+    event.target.value = '';
     if (!file) {
       setError('No file selected');
       return;
     }
-    if (!file.name.endsWith('.csv')) {
-      setError('Please upload a CSV file');
+
+    connectSource(createFileSource(file));
+  };
+
+  // Attach goal events (or remove them, with null) to the current season and persist it
+  const setSeasonGoalEvents = (goalEvents: GoalEvent[] | null) => {
+    const season = seasons.find(s => s.id === selectedSeasonId) || seasons[0];
+    const updated: Season = { ...season, goalEvents: goalEvents || undefined, updatedAt: Date.now() };
+    setSeasons(prev => prev.map(s => (s.id === season.id ? updated : s)));
+    if (season.builtIn) return;
+
+    saveSeason(updated).catch(err => {
+      console.error('Failed to save season:', err);
+      setError(`Goal events updated, but ${season.name} could not be saved for next time`);
+    });
+  };
+
+  // Handle a goal event file (CSV or JSON) for the current season
+  const handleGoalEventsUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      setError('No file selected');
+      return;
+    }
+    if (!/\.(csv|json)$/i.test(file.name)) {
+      setError('Please upload goal events as a CSV or JSON file');
       return;
     }
 
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
-      const lines = text.split('\n');
-      if (lines.length < 2) {
-        setError('CSV file is empty or contains only headers');
+      const { events, errors } = parseGoalEvents(file.name, text, teamRegistry);
+      if (events.length === 0) {
+        setError(`No goal events found in ${file.name}${errors.length > 0 ? `: ${errors.slice(0, 3).join('; ')}` : ''}`);
         return;
       }
 
-      const rows = lines.slice(1).map(line => {
-        const [Wk, Day, Date, Time, Home, xG, Score, xG_away, Away, Attendance, Venue, Referee] = line.split(',');
-        return { Wk: +Wk, Day, Date, Time, Home, xG: +xG, Score, xG_away: +xG_away, Away, Attendance, Venue, Referee };
-      }).filter(row => row.Wk && row.Home && row.Away); // Filter out any incomplete rows
-      
-      setData(rows);
-      
-      // Set active week to the first week found in the data
-      if (rows.length > 0) {
-        const weeks = [...new Set(rows.map(r => r.Wk))].sort((a, b) => a - b);
-        if (weeks.length > 0) {
-          setActiveWeek(weeks[0]);
-        }
-      }
-      
-      setError('');
+      const index = indexGoalEvents(data, normaliseGoalEventTeams(events, teamRegistry));
+      console.log('Goal events imported:', {
+        events: events.length,
+        fixtures: index.byFixture.size,
+        unmatched: index.unmatched.length,
+        inconsistent: index.inconsistent.length,
+        errors
+      });
+
+      setSeasonGoalEvents(events);
+      setError(errors.length > 0 ? `Skipped ${errors.length} goal event rows: ${errors.slice(0, 3).join('; ')}` : '');
+    };
+    reader.onerror = () => {
+      setError('Failed to read the selected file');
     };
     reader.readAsText(file);
   };
 
+  // Complete an import once the user has mapped the missing columns
+  const handleMappingConfirm = (mapping: ColumnMapping, rememberAliases: boolean) => {
+    if (!pendingImport) return;
+    if (rememberAliases) {
+      saveCustomAliases(pendingImport.headers, mapping);
+    }
+    applyImport(pendingImport.fileName, pendingImport.rows, mapping);
+  };
+
   // Format helper functions
   const formatDate = (dateStr: string): string => {
     const date = new Date(dateStr);
@@ -444,592 +993,749 @@ const App = (): JSX.Element => {
     return num.toFixed(1);
   };
 
-  // Render the team goals chart
-  useEffect(() => {
-    // Safe access to Plotly
-    const globalWindow = window as unknown as WindowWithPlotly;
-    const plotly = globalWindow.Plotly;
-    
-    if (chartRef.current && teamGoals.length > 0 && plotly) {
-      // Clear any existing chart
-      chartRef.current.innerHTML = '';
-      
-      // Prepare the data for the chart
-      const chartData = [{
-        x: teamGoals.map((t) => t.team),
-        y: teamGoals.map((t) => t.goalsPerMatch * (t.team === selectedTeam ? 1.05 : 1)), // Make selected team's bar slightly taller
-        type: 'bar',
-        marker: {
-          color: teamGoals.map((t, i) => {
-            if (t.team === selectedTeam) {
-              return '#38003C'; // Premier League dark purple for selected team
-            }
-            return i % 2 === 0 ? '#FF2882' : '#00D3FF'; // Alternate colors for other teams
-          }),
-          line: {
-            width: teamGoals.map((t) => t.team === selectedTeam ? 2 : 0),
-            color: teamGoals.map((t) => t.team === selectedTeam ? '#FFFFFF' : 'transparent')
+  // xG once a match has kicked off (running xG while live), '–' before or without it
+  const formatMatchXg = (match: MatchData, xg: number): string =>
+    (isPlayed(match) || isLive(match)) && Number.isFinite(xg) ? formatNumber(xg) : '–';
+
+  // Appended to chart titles while the venue filter is active
+  const venueSuffix = venue === 'all' ? '' : ` (${VENUE_FILTER_LABELS[venue]})`;
+
+  // Chart titles, shared by the card headers and the exported file names
+  const timeseriesTitle = selectedTeam
+    ? `${selectedTeam} - xG For vs Against Over Time${venueSuffix}`
+    : `xG For vs Against Over Time${venueSuffix}`;
+  const goalsTitle = selectedTeam
+    ? `Goals per Match - ${selectedTeam} Highlighted${venueSuffix}`
+    : `Teams by Goals per Match${venueSuffix}`;
+  const outcomesTitle = selectedTeam ? `${selectedTeam} Results${venueSuffix}` : 'Match Outcomes';
+  const scatterTitle = selectedTeam
+    ? `xG vs xGA - ${selectedTeam} Highlighted${venueSuffix}`
+    : `xG vs xGA Analysis${venueSuffix}`;
+
+  // Scope of the Export Data datasets: the same fixtures and filters as the charts
+  const datasetContext = useMemo<DatasetContext>(() => ({
+    matches: rangeMatches,
+    team: selectedTeam || undefined,
+    compareTeam: compareTeam || undefined,
+    venue,
+    tableWeek: tableWeek ?? undefined
+  }), [rangeMatches, selectedTeam, compareTeam, venue, tableWeek]);
+
+  // Filters recorded alongside JSON exports
+  const datasetFilters: Record<string, string> = {
+    season: currentSeason.name,
+    range: describeRange(range),
+    venue: VENUE_FILTER_LABELS[venue],
+    ...(referee ? { referee } : {}),
+    ...(selectedTeam ? { team: selectedTeam } : {}),
+    ...(selectedTeam && compareTeam ? { compareTeam } : {}),
+    ...(tableWeek !== null ? { tableWeek: String(tableWeek) } : {})
+  };
+
+  // A dataset as a chart export table, so chart CSVs share the documented schema
+  const datasetTable = (id: DatasetId): ChartTable => {
+    const { definition, rows } = buildDataset(id, datasetContext);
+    return {
+      headers: definition.columns.map(col => col.name),
+      rows: rows.map(row => definition.columns.map(col => row[col.name] ?? ''))
+    };
+  };
+
+  // The data behind each chart, for the export menus' CSV download
+  const timeseriesTable = (): ChartTable => ({
+    headers: ['date', 'team', 'opponent', 'xG', 'xGA', 'goals_for', 'goals_against', `rolling_xG_${rollingWindow}`, `rolling_xGA_${rollingWindow}`],
+    rows: timeseriesData.map((point, idx) => [
+      point.date, point.team, point.opponent, point.xG, point.xGA, point.goalsFor, point.goalsAgainst,
+      rollingXgData[idx].xG, rollingXgData[idx].xGA
+    ])
+  });
+  const goalsTable = () => datasetTable('team-goals');
+  const outcomesTable = () => datasetTable('outcomes');
+  const scatterTable = () => datasetTable('team-xg');
+  const ppgTable = () => datasetTable('ppg');
+  const positionsTable = (): ChartTable => ({
+    headers: ['team', 'gameweek', 'position'],
+    rows: positionHistory.flatMap(h => h.weeks.map((week, idx) => [h.team, week, h.positions[idx]]))
+  });
+  const expectedPointsTable = (): ChartTable => ({
+    headers: ['team', 'matches', 'points', 'xpts', 'performance'],
+    rows: teamExpectedPoints.map(t => [t.team, t.matches, t.points, t.xPts, t.performance])
+  });
+
+  // Figure for the team goals chart
+  const goalsFigure = useMemo((): PlotlyFigure | null => {
+    if (teamGoals.length === 0) return null;
+
+    // Prepare the data for the chart
+    const chartData = [{
+      x: teamGoals.map((t) => t.team),
+      y: teamGoals.map((t) => t.goalsPerMatch * (t.team === selectedTeam ? 1.05 : 1)), // Make selected team's bar slightly taller
+      type: 'bar',
+      marker: {
+        color: teamGoals.map((t, i) => {
+          if (t.team === selectedTeam) {
+            return '#38003C'; // Premier League dark purple for selected team
           }
-        },
-        text: teamGoals.map((t) => {
-          const value = t.goalsPerMatch.toFixed(2);
-          return t.team === selectedTeam ? `<b>${value}</b>` : value;
+          return i % 2 === 0 ? '#FF2882' : '#00D3FF'; // Alternate colors for other teams
         }),
-        textfont: {
-          color: teamGoals.map((t) => t.team === selectedTeam ? '#FFFFFF' : 'rgba(255,255,255,0.9)')
-        },
-        textposition: 'auto',
-        hovertemplate: '<b>%{x}</b><br>Goals per Match: %{y:.2f}<extra></extra>'
-      }];
-      
-      // Chart layout options
-      const layout = {
-        title: '',
-        font: { 
-          family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        line: {
+          width: teamGoals.map((t) => t.team === selectedTeam ? 2 : 0),
+          color: teamGoals.map((t) => t.team === selectedTeam ? '#FFFFFF' : 'transparent')
+        }
+      },
+      text: teamGoals.map((t) => {
+        const value = t.goalsPerMatch.toFixed(2);
+        return t.team === selectedTeam ? `<b>${value}</b>` : value;
+      }),
+      textfont: {
+        color: teamGoals.map((t) => t.team === selectedTeam ? '#FFFFFF' : 'rgba(255,255,255,0.9)')
+      },
+      textposition: 'auto',
+      hovertemplate: '<b>%{x}</b><br>Goals per Match: %{y:.2f}<extra></extra>'
+    }];
+    
+    // Chart layout options
+    const layout = {
+      title: '',
+      font: { 
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      yaxis: {
+        title: 'Goals per Match',
+        gridcolor: 'transparent'
+      },
+      xaxis: {
+        tickangle: -45,
+        tickfont: {
+          size: 10
+        }
+      },
+      margin: { t: 40, r: 20, l: 60, b: 140 },
+      bargap: 0.15
+    };
+    
+    // Config options
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [teamGoals, selectedTeam]);
+
+  // Figure for the xG timeseries chart: rolling averages as lines, with the raw
+  // per-match values as an optional marker layer and the rolling xG difference below
+  const timeseriesFigure = useMemo((): PlotlyFigure | null => {
+    if (rollingXgData.length === 0) return null;
+
+    const dates = rollingXgData.map(t => t.date);
+    const labels = rollingXgData.map(t => `${t.team} vs ${t.opponent}`);
+    const windowLabel = `${rollingWindow}-match avg`;
+
+    const rollingLine = (name: string, values: number[], color: string, dash?: string): PlotlyDataSeries => ({
+      x: dates,
+      y: values,
+      mode: 'lines',
+      type: 'scatter',
+      name,
+      line: { width: dash ? 2 : 3, color, dash },
+      text: labels,
+      customdata: rollingXgData.map(t => [t.matches]),
+      hovertemplate: `<b>%{text}</b><br>Date: %{x}<br>${name}: %{y:.2f}<br>Over last %{customdata[0]} matches<extra></extra>`
+    });
+
+    // Rolling xG and xGA, with the gap between them shaded
+    const xGData = rollingLine(`xG For (${windowLabel})`, rollingXgData.map(t => t.xG), '#00D3FF');
+    const xGAData = rollingLine(`xG Against (${windowLabel})`, rollingXgData.map(t => t.xGA), '#FF2882');
+    xGAData.fill = 'tonexty';
+    xGAData.fillcolor = 'rgba(255, 255, 255, 0.08)';
+
+    const chartData: any[] = [
+      xGData,
+      xGAData,
+      rollingLine(`Goals (${windowLabel})`, rollingXgData.map(t => t.goalsFor), '#00D3FF', 'dot'),
+      rollingLine(`Conceded (${windowLabel})`, rollingXgData.map(t => t.goalsAgainst), '#FF2882', 'dot')
+    ];
+
+    // Raw per-match values
+    if (showMatchMarkers) {
+      const markers = (name: string, values: number[], color: string): PlotlyDataSeries => ({
+        x: timeseriesData.map(t => t.date),
+        y: values,
+        mode: 'markers',
+        type: 'scatter',
+        name,
+        marker: { size: 6, color },
+        text: labels,
+        hovertemplate: `<b>%{text}</b><br>Date: %{x}<br>${name}: %{y:.2f}<extra></extra>`
+      });
+      chartData.push(
+        markers('xG For (match)', timeseriesData.map(t => t.xG), 'rgba(0, 211, 255, 0.45)'),
+        markers('xG Against (match)', timeseriesData.map(t => t.xGA), 'rgba(255, 40, 130, 0.45)')
+      );
+    }
+
+    // Rolling xG difference on its own axis, coloured by sign so form shifts stand out
+    chartData.push({
+      x: dates,
+      y: rollingXgData.map(t => t.xGDiff),
+      type: 'bar',
+      name: `xG Difference (${windowLabel})`,
+      yaxis: 'y2',
+      marker: { color: rollingXgData.map(t => (t.xGDiff >= 0 ? '#00D3FF' : '#FF2882')) },
+      text: labels,
+      hovertemplate: '<b>%{text}</b><br>Date: %{x}<br>Rolling xG difference: %{y:+.2f}<extra></extra>'
+    });
+    
+    // Chart layout options
+    const layout = {
+      title: '',
+      font: { 
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      xaxis: {
+        title: 'Match Date',
+        gridcolor: 'transparent',
+        tickformat: '%d %b',
+        tickangle: -45,
+        anchor: 'y2'
+      },
+      yaxis: {
+        title: 'Expected Goals (xG)',
+        gridcolor: 'transparent',
+        domain: [0.32, 1],
+        rangemode: 'tozero'
+      },
+      yaxis2: {
+        title: 'xG Diff',
+        gridcolor: 'transparent',
+        zeroline: true,
+        zerolinecolor: 'rgba(255,255,255,0.3)',
+        domain: [0, 0.24]
+      },
+      bargap: 0.3,
+      margin: { t: 60, r: 20, l: 60, b: 80 },
+      legend: {
+        orientation: 'h',
+        xanchor: 'center',
+        y: 1.02,
+        yanchor: 'bottom',
+        x: 0.5,
+        bgcolor: 'rgba(26, 30, 46, 0)',
+        bordercolor: 'rgba(255,255,255,0)',
+        borderwidth: 0,
+        font: { size: 10 }
+      }
+    };
+    
+    // Config options
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [timeseriesData, rollingXgData, rollingWindow, showMatchMarkers]);
+
+  // Figure for the match outcomes donut chart
+  const outcomesFigure = useMemo((): PlotlyFigure | null => {
+    if (matchOutcomes.total === 0) return null;
+
+    // Prepare the data for the chart
+    const chartData = [{
+      values: matchOutcomes.values,
+      labels: matchOutcomes.labels,
+      type: 'pie',
+      hole: 0.6,
+      marker: {
+        colors: ['#FF2882', '#38003C', '#00D3FF']
+      },
+      textinfo: 'label+percent',
+      textposition: 'outside',
+      automargin: true,
+      hovertemplate: '%{label}: %{value} matches (%{percent})<extra></extra>',
+    }];
+    
+    // Chart layout options
+    const layout = {
+      title: '',
+      font: { 
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      showlegend: false,
+      margin: { t: 20, r: 20, l: 20, b: 20 },
+      annotations: [{
+        font: {
+          size: 20,
           color: '#FFFFFF'
         },
-        paper_bgcolor: '#1A1E2E',
-        plot_bgcolor: '#1A1E2E',
-        autosize: true,
-        yaxis: {
-          title: 'Goals per Match',
-          gridcolor: 'transparent'
+        showarrow: false,
+        text: `${matchOutcomes.total}`,
+        x: 0.5,
+        y: 0.5
+      }, {
+        font: {
+          size: 12,
+          color: '#AAAAAA'
         },
-        xaxis: {
-          tickangle: -45,
-          tickfont: {
-            size: 10
+        showarrow: false,
+        text: 'matches',
+        x: 0.5,
+        y: 0.4
+      }]
+    };
+    
+    // Config options
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [matchOutcomes]);
+
+  // Figure for the xG vs xGA scatter plot
+  const scatterFigure = useMemo((): PlotlyFigure | null => {
+    if (scatterData.length === 0) return null;
+
+    // The selected team and, in comparison mode, the team it is compared with
+    const isHighlighted = (team: string) => team === selectedTeam || (!!compareTeam && team === compareTeam);
+
+    // Prepare the data for the chart
+    const chartData = [{
+      x: scatterData.map((t) => t.xG),
+      y: scatterData.map((t) => t.xGA),
+      mode: 'markers+text',
+      type: 'scatter',
+      text: scatterData.map((t) => t.team),
+      textposition: scatterData.length > 15 ? 'none' : 'top',
+      textfont: {
+        size: 9,
+        color: scatterData.map((t) => isHighlighted(t.team) ? '#FFFFFF' : 'rgba(255,255,255,0.7)')
+      },
+      marker: {
+        size: scatterData.map((t) => {
+          // Make highlighted teams larger
+          if (isHighlighted(t.team)) {
+            return Math.min(18, Math.max(12, t.matches * 0.7));
           }
-        },
-        margin: { t: 40, r: 20, l: 60, b: 140 },
-        bargap: 0.15
-      };
-      
-      // Config options
-      const config = {
-        responsive: true,
-        displayModeBar: false
-      };
-      
-      // Render the chart
-      plotly.newPlot(chartRef.current, chartData, layout, config);
+          return Math.min(12, Math.max(6, t.matches * 0.5));
+        }),
+        color: scatterData.map((t) => {
+          if (t.team === selectedTeam) {
+            return '#38003C'; // Premier League dark purple for selected team
+          }
+          if (isHighlighted(t.team)) {
+            return '#5F1C9B'; // Lighter purple for the comparison team
+          }
+          return t.goalDiff > 0 ? '#00D3FF' : 
+                t.goalDiff < 0 ? '#FF2882' : 
+                '#FFFFFF';
+        }),
+        opacity: scatterData.map((t) => isHighlighted(t.team) ? 1 : (scatterData.length > 15 ? 0.6 : 0.8)),
+        line: {
+          color: scatterData.map((t) => isHighlighted(t.team) ? '#FFFFFF' : 'rgba(255,255,255,0.3)'),
+          width: scatterData.map((t) => isHighlighted(t.team) ? 2 : 1)
+        }
+      },
+      hovertemplate: '<b>%{text}</b><br>' +
+                      'xG: %{x:.2f}<br>' +
+                      'xGA: %{y:.2f}<br>' +
+                      'Matches: %{customdata[0]}<br>' +
+                      'Goal Diff/Match: %{customdata[1]:.2f}<extra></extra>',
+      customdata: scatterData.map((t) => [t.matches, t.goalDiff])
+    }];
+    
+    // Chart layout options
+    const layout = {
+      title: '',
+      font: { 
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      xaxis: {
+        title: 'Expected Goals For (xG)',
+        gridcolor: 'transparent',
+        zeroline: true,
+        zerolinecolor: 'rgba(255,255,255,0.2)',
+        dtick: 0.5
+      },
+      yaxis: {
+        title: 'Expected Goals Against (xGA)',
+        gridcolor: 'transparent',
+        zeroline: true,
+        zerolinecolor: 'rgba(255,255,255,0.2)',
+        dtick: 0.5
+      },
+      shapes: [{
+        type: 'line',
+        x0: 0,
+        y0: 0,
+        x1: 3,
+        y1: 3,
+        line: {
+          color: 'rgba(255,255,255,0.3)',
+          width: 1,
+          dash: 'dot'
+        }
+      }],
+      annotations: [{
+        x: 2.8,
+        y: 2.9,
+        text: 'xG = xGA',
+        showarrow: false,
+        font: {
+          size: 10,
+          color: 'rgba(255,255,255,0.6)'
+        }
+      }, {
+        x: 0.15,
+        y: 2.85,
+        text: 'Poor Attack<br>Poor Defense',
+        showarrow: false,
+        align: 'left',
+        font: {
+          size: 10,
+          color: 'rgba(255,255,255,0.6)'
+        }
+      }, {
+        x: 2.85,
+        y: 0.2,
+        text: 'Good Attack<br>Good Defense',
+        showarrow: false,
+        align: 'right',
+        font: {
+          size: 10,
+          color: 'rgba(255,255,255,0.6)'
+        }
+      }],
+      margin: { t: 40, r: 20, l: 60, b: 60 },
+      hovermode: 'closest'
+    };
+    
+    // Config options
+    const config = {
+      displayModeBar: true,
+      // Images are saved from the card's export menu, like every other chart
+      modeBarButtonsToRemove: ['lasso2d', 'select2d', 'toImage'],
+      scrollZoom: true
+    };
 
-      console.log('Bar chart rendered:', chartRef.current);
-    } else {
-      console.log('Bar chart not rendered:', {
-        chartRefExists: !!chartRef.current,
-        teamGoalsLength: teamGoals.length,
-        plotlyExists: !!(window as unknown as WindowWithPlotly).Plotly
-      });
-    }
-  }, [teamGoals, selectedTeam]);
+    return { data: chartData, layout, config };
+  }, [scatterData, selectedTeam, compareTeam]);
+  
+  // Figure for the PPG timeseries chart
+  const ppgFigure = useMemo((): PlotlyFigure | null => {
+    if (ppgTimeseriesData.primaryTeam.length === 0) return null;
 
-  // Render the xG timeseries chart
-  useEffect(() => {
-    // Safe access to Plotly
-    const globalWindow = window as unknown as WindowWithPlotly;
-    const plotly = globalWindow.Plotly;
+    // Prepare the data for the primary team
+    const primaryData: PlotlyDataSeries = {
+      x: ppgTimeseriesData.primaryTeam.map(t => t.date),
+      y: ppgTimeseriesData.primaryTeam.map(t => t.ppg),
+      mode: 'lines+markers',
+      type: 'scatter',
+      name: selectedTeam,
+      line: { 
+        shape: 'spline',
+        width: 3,
+        color: '#38003C',
+        smoothing: 1.3 
+      },
+      marker: {
+        size: 10,
+        color: ppgTimeseriesData.primaryTeam.map(t => 
+          t.result === 'Win' ? '#00D3FF' : 
+          t.result === 'Draw' ? '#FFFFFF' : 
+          '#FF2882'
+        )
+      },
+      text: ppgTimeseriesData.primaryTeam.map(t => `${t.result} vs ${t.opponent}`),
+      hovertemplate: '<b>%{text}</b><br>' +
+                    'Date: %{x}<br>' +
+                    'PPG: %{y:.2f}<br>' +
+                    'Total Points: %{customdata[0]}<br>' +
+                    'Matches Played: %{customdata[1]}<extra></extra>',
+      customdata: ppgTimeseriesData.primaryTeam.map(t => [t.points, t.matches])
+    };
     
-    if (timeseriesChartRef.current && timeseriesData.length > 0 && plotly) {
-      // Clear any existing chart
-      timeseriesChartRef.current.innerHTML = '';
-      
-      // Prepare the data for the chart - xG line
-      const xGData: PlotlyDataSeries = {
-        x: timeseriesData.map(t => t.date),
-        y: timeseriesData.map(t => t.xG),
+    // Expected PPG line for the primary team
+    const primaryXPpgData: PlotlyDataSeries = {
+      x: ppgTimeseriesData.primaryTeam.map(t => t.date),
+      y: ppgTimeseriesData.primaryTeam.map(t => t.xPpg),
+      mode: 'lines',
+      type: 'scatter',
+      name: `${selectedTeam} xPPG`,
+      line: {
+        shape: 'spline',
+        width: 2,
+        color: '#00D3FF',
+        dash: 'dash'
+      },
+      text: ppgTimeseriesData.primaryTeam.map(t => `${t.team} vs ${t.opponent}`),
+      hovertemplate: '<b>%{text}</b><br>' +
+                    'xPPG: %{y:.2f}<br>' +
+                    'Total xPts: %{customdata[0]:.1f}<extra></extra>',
+      customdata: ppgTimeseriesData.primaryTeam.map(t => [t.xPts])
+    };
+    
+    // Create the chart data array, starting with primary team
+    const chartData = [primaryData, primaryXPpgData];
+    
+    // Add comparison team data if available
+    if (ppgTimeseriesData.compareTeam.length > 0) {
+      const compareData: PlotlyDataSeries = {
+        x: ppgTimeseriesData.compareTeam.map(t => t.date),
+        y: ppgTimeseriesData.compareTeam.map(t => t.ppg),
         mode: 'lines+markers',
         type: 'scatter',
-        name: 'xG For',
+        name: compareTeam,
         line: { 
           shape: 'spline',
           width: 3,
-          color: '#00D3FF',
+          color: '#FF2882',
           smoothing: 1.3 
         },
         marker: {
-          size: 8,
-          color: '#00D3FF'
+          size: 10,
+          color: ppgTimeseriesData.compareTeam.map(t => 
+            t.result === 'Win' ? '#00D3FF' : 
+            t.result === 'Draw' ? '#FFFFFF' : 
+            '#FF2882'
+          )
         },
-        text: timeseriesData.map(t => `${t.team} vs ${t.opponent}`),
-        hovertemplate: '<b>%{text}</b><br>Date: %{x}<br>xG For: %{y:.2f}<extra></extra>',
+        text: ppgTimeseriesData.compareTeam.map(t => `${t.result} vs ${t.opponent}`),
+        hovertemplate: '<b>%{text}</b><br>' +
+                      'Date: %{x}<br>' +
+                      'PPG: %{y:.2f}<br>' +
+                      'Total Points: %{customdata[0]}<br>' +
+                      'Matches Played: %{customdata[1]}<extra></extra>',
+        customdata: ppgTimeseriesData.compareTeam.map(t => [t.points, t.matches])
       };
       
-      // xGA line
-      const xGAData: PlotlyDataSeries = {
-        x: timeseriesData.map(t => t.date),
-        y: timeseriesData.map(t => t.xGA),
-        mode: 'lines+markers',
+      chartData.push(compareData);
+      chartData.push({
+        x: ppgTimeseriesData.compareTeam.map(t => t.date),
+        y: ppgTimeseriesData.compareTeam.map(t => t.xPpg),
+        mode: 'lines',
         type: 'scatter',
-        name: 'xG Against',
-        line: { 
+        name: `${compareTeam} xPPG`,
+        line: {
           shape: 'spline',
-          width: 3,
+          width: 2,
           color: '#FF2882',
-          smoothing: 1.3 
-        },
-        marker: {
-          size: 8,
-          color: '#FF2882'
-        },
-        text: timeseriesData.map(t => `${t.team} vs ${t.opponent}`),
-        hovertemplate: '<b>%{text}</b><br>Date: %{x}<br>xG Against: %{y:.2f}<extra></extra>',
-      };
-      
-      // Add a fill to zero for both lines for the shading effect
-      xGData.fill = 'none';
-      xGAData.fill = 'tonexty';
-      
-      // Add fill colors with appropriate opacity
-      xGData.fillcolor = 'rgba(0, 211, 255, 0.2)'; // Blue with low opacity
-      xGAData.fillcolor = 'rgba(255, 40, 130, 0.2)'; // Pink with low opacity
-      
-      // Create differential shading areas
-      const positiveDiff: PlotlyDataSeries = {
-        x: timeseriesData.map(t => t.date),
-        y: timeseriesData.map(t => t.xG > t.xGA ? t.xG : t.xGA),
-        mode: 'none',
-        name: 'Positive Difference',
-        fill: 'tonexty', 
-        fillcolor: 'rgba(0, 211, 255, 0.2)',
-        showlegend: false,
-        hoverinfo: 'none',
-        line: { width: 0 }
-      };
-      
-      // Create a data series with area where xGA > xG (poor performance - pink)
-      const negativeDiff: PlotlyDataSeries = {
-        x: timeseriesData.map(t => t.date),
-        y: timeseriesData.map(t => t.xGA > t.xG ? t.xGA : t.xG),
-        mode: 'none',
-        name: 'Negative Difference',
-        fill: 'tonexty',
-        fillcolor: 'rgba(255, 40, 130, 0.2)',
-        showlegend: false,
-        hoverinfo: 'none',
-        line: { width: 0 }
-      };
-      
-      // Add the data series in the correct order for proper fill behavior
-      const chartData = [xGData, xGAData, positiveDiff, negativeDiff];
-      
-      // Chart layout options
-      const layout = {
-        title: '',
-        font: { 
-          family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
-          color: '#FFFFFF'
+          dash: 'dot'
         },
-        paper_bgcolor: '#1A1E2E',
-        plot_bgcolor: '#1A1E2E',
-        autosize: true,
-        xaxis: {
-          title: 'Match Date',
-          gridcolor: 'transparent',
-          tickformat: '%d %b',
-          tickangle: -45
-        },
-        yaxis: {
-          title: 'Expected Goals (xG)',
-          gridcolor: 'transparent'
-        },
-        margin: { t: 60, r: 20, l: 60, b: 80 },
-        legend: {
-          orientation: 'h',
-          xanchor: 'center',
-          y: 1.02,
-          x: 0.5,
-          bgcolor: 'rgba(26, 30, 46, 0)',
-          bordercolor: 'rgba(255,255,255,0)',
-          borderwidth: 0
-        },
-        shapes: [
-          // Add a reference line for xG = xGA
-          {
-            type: 'line',
-            xref: 'paper',
-            yref: 'paper',
-            y0: 0.5,
-            y1: 0.5,
-            x0: 0,
-            x1: 1,
-            line: {
-              color: 'rgba(255,255,255,0.3)',
-              width: 1,
-              dash: 'dot'
-            },
-            layer: 'below'
-          }
-        ]
-      };
-      
-      // Config options
-      const config = {
-        responsive: true,
-        displayModeBar: false
-      };
-      
-      // Render the chart
-      plotly.newPlot(timeseriesChartRef.current, chartData, layout, config);
+        text: ppgTimeseriesData.compareTeam.map(t => `${t.team} vs ${t.opponent}`),
+        hovertemplate: '<b>%{text}</b><br>' +
+                      'xPPG: %{y:.2f}<br>' +
+                      'Total xPts: %{customdata[0]:.1f}<extra></extra>',
+        customdata: ppgTimeseriesData.compareTeam.map(t => [t.xPts])
+      });
     }
-  }, [timeseriesData, selectedTeam]);
-
-  // Render the match outcomes donut chart
-  useEffect(() => {
-    // Safe access to Plotly
-    const globalWindow = window as unknown as WindowWithPlotly;
-    const plotly = globalWindow.Plotly;
     
-    if (donutChartRef.current && matchOutcomes.total > 0 && plotly) {
-      // Clear any existing chart
-      donutChartRef.current.innerHTML = '';
+    // Chart layout options
+    const title = compareTeam 
+      ? `Points Per Game: ${selectedTeam} vs ${compareTeam}${venueSuffix}` 
+      : `${selectedTeam} Points Per Game Progression${venueSuffix}`;
       
-      // Prepare the data for the chart
-      const chartData = [{
-        values: matchOutcomes.values,
-        labels: matchOutcomes.labels,
-        type: 'pie',
-        hole: 0.6,
-        marker: {
-          colors: ['#FF2882', '#38003C', '#00D3FF']
-        },
-        textinfo: 'label+percent',
-        textposition: 'outside',
-        automargin: true,
-        hovertemplate: '%{label}: %{value} matches (%{percent})<extra></extra>',
-      }];
-      
-      // Chart layout options
-      const layout = {
-        title: '',
-        font: { 
-          family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
-          color: '#FFFFFF'
-        },
-        paper_bgcolor: '#1A1E2E',
-        plot_bgcolor: '#1A1E2E',
-        autosize: true,
-        showlegend: false,
-        margin: { t: 20, r: 20, l: 20, b: 20 },
-        annotations: [{
-          font: {
-            size: 20,
-            color: '#FFFFFF'
-          },
-          showarrow: false,
-          text: `${matchOutcomes.total}`,
-          x: 0.5,
-          y: 0.5
-        }, {
-          font: {
-            size: 12,
-            color: '#AAAAAA'
-          },
-          showarrow: false,
-          text: 'matches',
-          x: 0.5,
-          y: 0.4
-        }]
-      };
-      
-      // Config options
-      const config = {
-        responsive: true,
-        displayModeBar: false
-      };
-      
-      // Render the chart
-      plotly.newPlot(donutChartRef.current, chartData, layout, config);
-    }
-  }, [matchOutcomes]);
-
-  // Render the xG vs xGA scatter plot
-  useEffect(() => {
-    // Safe access to Plotly
-    const globalWindow = window as unknown as WindowWithPlotly;
-    const plotly = globalWindow.Plotly;
+    const layout = {
+      title: title,
+      font: { 
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      xaxis: {
+        title: 'Match Date',
+        gridcolor: 'transparent',
+        tickformat: '%d %b',
+        tickangle: -45
+      },
+      yaxis: {
+        title: 'Points Per Game (PPG)',
+        gridcolor: 'transparent',
+        range: [0, 3.2]
+      },
+      margin: { t: 40, r: 20, l: 60, b: 80 },
+      showlegend: true,
+      legend: {
+        x: 0.02,
+        y: 0.98,
+        bgcolor: 'rgba(26, 30, 46, 0.7)',
+        bordercolor: 'rgba(255,255,255,0.2)',
+        borderwidth: 1
+      }
+    };
     
-    if (scatterChartRef.current && scatterData.length > 0 && plotly) {
-      // Clear any existing chart
-      scatterChartRef.current.innerHTML = '';
-      
-      // Prepare the data for the chart
-      const chartData = [{
-        x: scatterData.map((t) => t.xG),
-        y: scatterData.map((t) => t.xGA),
-        mode: 'markers+text',
+    // Config options
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [ppgTimeseriesData, selectedTeam, compareTeam, venueSuffix]);
+
+  // Figure for the expected vs actual points chart
+  const xptsFigure = useMemo((): PlotlyFigure | null => {
+    if (teamExpectedPoints.length === 0) return null;
+
+    // Order teams by actual points so the chart reads like the table
+    const sorted = [...teamExpectedPoints].sort((a, b) => b.points - a.points || b.xPts - a.xPts);
+    const outline = {
+      width: sorted.map(t => t.team === selectedTeam ? 2 : 0),
+      color: sorted.map(t => t.team === selectedTeam ? '#FFFFFF' : 'transparent')
+    };
+
+    const chartData = [{
+      x: sorted.map(t => t.team),
+      y: sorted.map(t => t.points),
+      type: 'bar',
+      name: 'Points',
+      marker: {
+        color: sorted.map(t => t.team === selectedTeam ? '#38003C' : '#FF2882'),
+        line: outline
+      },
+      hovertemplate: '<b>%{x}</b><br>Points: %{y}<extra></extra>'
+    }, {
+      x: sorted.map(t => t.team),
+      y: sorted.map(t => t.xPts),
+      type: 'bar',
+      name: 'xPts',
+      marker: {
+        color: sorted.map(t => t.team === selectedTeam ? '#5F1C9B' : '#00D3FF'),
+        line: outline
+      },
+      customdata: sorted.map(t => [t.performance]),
+      hovertemplate: '<b>%{x}</b><br>xPts: %{y:.1f}<br>Difference: %{customdata[0]:+.1f}<extra></extra>'
+    }];
+
+    // Chart layout options
+    const layout = {
+      title: '',
+      font: {
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      barmode: 'group',
+      yaxis: {
+        title: 'Points',
+        gridcolor: 'transparent'
+      },
+      xaxis: {
+        tickangle: -45,
+        tickfont: {
+          size: 10
+        }
+      },
+      margin: { t: 40, r: 20, l: 60, b: 140 },
+      legend: {
+        orientation: 'h',
+        xanchor: 'center',
+        y: 1.08,
+        x: 0.5,
+        bgcolor: 'rgba(26, 30, 46, 0)'
+      },
+      bargap: 0.2
+    };
+
+    // Config options
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [teamExpectedPoints, selectedTeam]);
+
+  // Figure for the league position bump chart
+  const bumpFigure = useMemo((): PlotlyFigure | null => {
+    if (positionHistory.length === 0) return null;
+
+    const emphasis = (team: string) =>
+      team === selectedTeam ? '#00D3FF' : team === compareTeam ? '#FF2882' : null;
+
+    // Draw the emphasised teams last so they sit on top of the others
+    const ordered = [...positionHistory].sort((a, b) =>
+      Number(!!emphasis(a.team)) - Number(!!emphasis(b.team))
+    );
+
+    const chartData: PlotlyDataSeries[] = ordered.map(history => {
+      const color = emphasis(history.team);
+      return {
+        x: history.weeks,
+        y: history.positions,
+        mode: 'lines+markers',
         type: 'scatter',
-        text: scatterData.map((t) => t.team),
-        textposition: scatterData.length > 15 ? 'none' : 'top',
-        textfont: {
-          size: 9,
-          color: scatterData.map((t) => t.team === selectedTeam ? '#FFFFFF' : 'rgba(255,255,255,0.7)')
+        name: history.team,
+        line: {
+          width: color ? 4 : 1.5,
+          color: color || 'rgba(255,255,255,0.2)'
         },
         marker: {
-          size: scatterData.map((t) => {
-            // Make selected team larger
-            if (t.team === selectedTeam) {
-              return Math.min(18, Math.max(12, t.matches * 0.7));
-            }
-            return Math.min(12, Math.max(6, t.matches * 0.5));
-          }),
-          color: scatterData.map((t) => {
-            if (t.team === selectedTeam) {
-              return '#38003C'; // Premier League dark purple for selected team
-            }
-            return t.goalDiff > 0 ? '#00D3FF' : 
-                  t.goalDiff < 0 ? '#FF2882' : 
-                  '#FFFFFF';
-          }),
-          opacity: scatterData.map((t) => t.team === selectedTeam ? 1 : (scatterData.length > 15 ? 0.6 : 0.8)),
-          line: {
-            color: scatterData.map((t) => t.team === selectedTeam ? '#FFFFFF' : 'rgba(255,255,255,0.3)'),
-            width: scatterData.map((t) => t.team === selectedTeam ? 2 : 1)
-          }
-        },
-        hovertemplate: '<b>%{text}</b><br>' +
-                        'xG: %{x:.2f}<br>' +
-                        'xGA: %{y:.2f}<br>' +
-                        'Matches: %{customdata[0]}<br>' +
-                        'Goal Diff/Match: %{customdata[1]:.2f}<extra></extra>',
-        customdata: scatterData.map((t) => [t.matches, t.goalDiff])
-      }];
-      
-      // Chart layout options
-      const layout = {
-        title: '',
-        font: { 
-          family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
-          color: '#FFFFFF'
-        },
-        paper_bgcolor: '#1A1E2E',
-        plot_bgcolor: '#1A1E2E',
-        autosize: true,
-        xaxis: {
-          title: 'Expected Goals For (xG)',
-          gridcolor: 'transparent',
-          zeroline: true,
-          zerolinecolor: 'rgba(255,255,255,0.2)',
-          dtick: 0.5
-        },
-        yaxis: {
-          title: 'Expected Goals Against (xGA)',
-          gridcolor: 'transparent',
-          zeroline: true,
-          zerolinecolor: 'rgba(255,255,255,0.2)',
-          dtick: 0.5
-        },
-        shapes: [{
-          type: 'line',
-          x0: 0,
-          y0: 0,
-          x1: 3,
-          y1: 3,
-          line: {
-            color: 'rgba(255,255,255,0.3)',
-            width: 1,
-            dash: 'dot'
-          }
-        }],
-        annotations: [{
-          x: 2.8,
-          y: 2.9,
-          text: 'xG = xGA',
-          showarrow: false,
-          font: {
-            size: 10,
-            color: 'rgba(255,255,255,0.6)'
-          }
-        }, {
-          x: 0.15,
-          y: 2.85,
-          text: 'Poor Attack<br>Poor Defense',
-          showarrow: false,
-          align: 'left',
-          font: {
-            size: 10,
-            color: 'rgba(255,255,255,0.6)'
-          }
-        }, {
-          x: 2.85,
-          y: 0.2,
-          text: 'Good Attack<br>Good Defense',
-          showarrow: false,
-          align: 'right',
-          font: {
-            size: 10,
-            color: 'rgba(255,255,255,0.6)'
-          }
-        }],
-        margin: { t: 40, r: 20, l: 60, b: 60 },
-        hovermode: 'closest'
-      };
-      
-      // Config options
-      const config = {
-        responsive: true,
-        displayModeBar: true,
-        modeBarButtonsToRemove: ['lasso2d', 'select2d'],
-        toImageButtonOptions: {
-          format: 'png',
-          filename: 'xg_vs_xga_analysis'
+          size: color ? 8 : 4,
+          color: color || 'rgba(255,255,255,0.35)'
         },
-        scrollZoom: true
+        text: history.weeks.map(() => history.team),
+        hovertemplate: '<b>%{text}</b><br>Week %{x}: %{y}<extra></extra>',
+        showlegend: !!color
       };
-      
-      // Render the chart
-      plotly.newPlot(scatterChartRef.current, chartData, layout, config);
-    }
-  }, [scatterData, selectedTeam]);
-  
-  // Render the PPG timeseries chart
-  useEffect(() => {
-    // Safe access to Plotly
-    const globalWindow = window as unknown as WindowWithPlotly;
-    const plotly = globalWindow.Plotly;
-    
-    console.log('PPG chart render attempt:', {
-      chartRefExists: !!ppgChartRef.current,
-      hasPrimaryData: ppgTimeseriesData.primaryTeam.length > 0,
-      hasCompareData: ppgTimeseriesData.compareTeam.length > 0,
-      selectedTeam,
-      compareTeam,
-      plotlyExists: !!plotly
     });
-    
-    if (ppgChartRef.current && ppgTimeseriesData.primaryTeam.length > 0 && plotly) {
-      try {
-        // Clear any existing chart
-        ppgChartRef.current.innerHTML = '';
-        
-        // Prepare the data for the primary team
-        const primaryData: PlotlyDataSeries = {
-          x: ppgTimeseriesData.primaryTeam.map(t => t.date),
-          y: ppgTimeseriesData.primaryTeam.map(t => t.ppg),
-          mode: 'lines+markers',
-          type: 'scatter',
-          name: selectedTeam,
-          line: { 
-            shape: 'spline',
-            width: 3,
-            color: '#38003C',
-            smoothing: 1.3 
-          },
-          marker: {
-            size: 10,
-            color: ppgTimeseriesData.primaryTeam.map(t => 
-              t.result === 'Win' ? '#00D3FF' : 
-              t.result === 'Draw' ? '#FFFFFF' : 
-              '#FF2882'
-            )
-          },
-          text: ppgTimeseriesData.primaryTeam.map(t => `${t.result} vs ${t.opponent}`),
-          hovertemplate: '<b>%{text}</b><br>' +
-                        'Date: %{x}<br>' +
-                        'PPG: %{y:.2f}<br>' +
-                        'Total Points: %{customdata[0]}<br>' +
-                        'Matches Played: %{customdata[1]}<extra></extra>',
-          customdata: ppgTimeseriesData.primaryTeam.map(t => [t.points, t.matches])
-        };
-        
-        // Create the chart data array, starting with primary team
-        const chartData = [primaryData];
-        
-        // Add comparison team data if available
-        if (ppgTimeseriesData.compareTeam.length > 0) {
-          const compareData: PlotlyDataSeries = {
-            x: ppgTimeseriesData.compareTeam.map(t => t.date),
-            y: ppgTimeseriesData.compareTeam.map(t => t.ppg),
-            mode: 'lines+markers',
-            type: 'scatter',
-            name: compareTeam,
-            line: { 
-              shape: 'spline',
-              width: 3,
-              color: '#FF2882',
-              smoothing: 1.3 
-            },
-            marker: {
-              size: 10,
-              color: ppgTimeseriesData.compareTeam.map(t => 
-                t.result === 'Win' ? '#00D3FF' : 
-                t.result === 'Draw' ? '#FFFFFF' : 
-                '#FF2882'
-              )
-            },
-            text: ppgTimeseriesData.compareTeam.map(t => `${t.result} vs ${t.opponent}`),
-            hovertemplate: '<b>%{text}</b><br>' +
-                          'Date: %{x}<br>' +
-                          'PPG: %{y:.2f}<br>' +
-                          'Total Points: %{customdata[0]}<br>' +
-                          'Matches Played: %{customdata[1]}<extra></extra>',
-            customdata: ppgTimeseriesData.compareTeam.map(t => [t.points, t.matches])
-          };
-          
-          chartData.push(compareData);
-        }
-        
-        // Chart layout options
-        const title = compareTeam 
-          ? `Points Per Game: ${selectedTeam} vs ${compareTeam}` 
-          : `${selectedTeam} Points Per Game Progression`;
-          
-        const layout = {
-          title: title,
-          font: { 
-            family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
-            color: '#FFFFFF'
-          },
-          paper_bgcolor: '#1A1E2E',
-          plot_bgcolor: '#1A1E2E',
-          autosize: true,
-          xaxis: {
-            title: 'Match Date',
-            gridcolor: 'transparent',
-            tickformat: '%d %b',
-            tickangle: -45
-          },
-          yaxis: {
-            title: 'Points Per Game (PPG)',
-            gridcolor: 'transparent',
-            range: [0, 3.2]
-          },
-          margin: { t: 40, r: 20, l: 60, b: 80 },
-          showlegend: !!compareTeam,
-          legend: {
-            x: 0.02,
-            y: 0.98,
-            bgcolor: 'rgba(26, 30, 46, 0.7)',
-            bordercolor: 'rgba(255,255,255,0.2)',
-            borderwidth: 1
-          }
-        };
-        
-        // Config options
-        const config = {
-          responsive: true,
-          displayModeBar: false
-        };
-        
-        // Render the chart
-        plotly.newPlot(ppgChartRef.current, chartData, layout, config);
-
-        console.log('PPG chart successfully rendered');
-      } catch (error) {
-        console.error('Error rendering PPG chart:', error);
+
+    // Chart layout options
+    const layout = {
+      title: '',
+      font: {
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      xaxis: {
+        title: 'Gameweek',
+        gridcolor: 'transparent',
+        dtick: 1
+      },
+      yaxis: {
+        title: 'League Position',
+        gridcolor: 'rgba(255,255,255,0.05)',
+        autorange: 'reversed',
+        dtick: 1
+      },
+      margin: { t: 40, r: 20, l: 60, b: 60 },
+      hovermode: 'closest',
+      legend: {
+        orientation: 'h',
+        xanchor: 'center',
+        y: 1.08,
+        x: 0.5,
+        bgcolor: 'rgba(26, 30, 46, 0)'
       }
-    } else {
-      console.log('PPG chart not rendered:', {
-        chartRefExists: !!ppgChartRef.current,
-        hasPrimaryData: ppgTimeseriesData.primaryTeam?.length > 0,
-        hasCompareData: ppgTimeseriesData.compareTeam?.length > 0,
-        selectedTeam,
-        compareTeam,
-        plotlyExists: !!plotly
-      });
-    }
-  }, [ppgTimeseriesData, selectedTeam, compareTeam]);
+    };
+
+    // Config options
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [positionHistory, selectedTeam, compareTeam]);
 
   // Scroll to active week tab when it changes
   useEffect(() => {
@@ -1075,6 +1781,21 @@ const App = (): JSX.Element => {
               min-height: 200px;
             }
           }
+          /* Printable report (Generate Report) */
+          @media print {
+            @page {
+              size: A4 portrait;
+              margin: 12mm;
+            }
+            body {
+              -webkit-print-color-adjust: exact;
+              print-color-adjust: exact;
+            }
+            .chart-container {
+              height: 300px;
+              min-height: 0;
+            }
+          }
         `}
       </style>
       <div className="max-w-[1400px] mx-auto bg-[#191D30]/80 rounded-2xl sm:rounded-3xl p-3 sm:p-6 shadow-2xl backdrop-blur-sm border border-[#38003c]/20">
@@ -1083,10 +1804,76 @@ const App = (): JSX.Element => {
             <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold bg-gradient-to-r from-[#FF2882] to-[#E90052] bg-clip-text text-transparent mb-1 sm:mb-2 pb-1">
               Premier League Dashboard
             </h1>
-            <p className="text-gray-400 text-sm sm:text-base mt-1">Season 2024/25 Insights</p>
+            <p className="text-gray-400 text-sm sm:text-base mt-1">Season {currentSeason.name} Insights</p>
+            <SourceIndicator season={currentSeason} endpoint={httpSource} status={httpStatus} />
           </div>
           
-          <div className="flex flex-col sm:flex-row w-full sm:w-auto gap-2 sm:gap-4">
+          <div className="flex flex-col sm:flex-row w-full sm:w-auto gap-2 sm:gap-4 print:hidden">
+            {/* Season Selection */}
+            <div className="flex items-center gap-2 w-full sm:w-auto">
+              <div className="relative w-full sm:w-auto">
+                <select
+                  id="season-select"
+                  value={currentSeason.id}
+                  onChange={e => {
+                    const season = seasons.find(s => s.id === e.target.value);
+                    if (season) selectSeason(season);
+                  }}
+                  className="appearance-none bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 pl-4 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882] w-full"
+                >
+                  {seasons.map(season => (
+                    <option key={season.id} value={season.id}>Season {season.name}</option>
+                  ))}
+                </select>
+                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2">
+                  <svg className="w-4 h-4 text-[#FF2882]" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+                  </svg>
+                </div>
+              </div>
+              {!currentSeason.builtIn && (
+                <button
+                  className="text-xs text-gray-400 hover:text-[#FF2882] px-2 py-2"
+                  title={`Remove season ${currentSeason.name}`}
+                  onClick={() => handleDeleteSeason(currentSeason)}
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+
+            {/* Team Alias Manager Toggle */}
+            <button
+              className="py-2 px-4 bg-[#2D1F54] border border-[#38003C] hover:bg-[#38003C]/80 rounded-lg text-sm font-medium transition-colors w-full sm:w-auto"
+              onClick={() => setShowAliasManager(!showAliasManager)}
+            >
+              Team Aliases
+            </button>
+
+            {/* Data Source Toggle */}
+            <button
+              className="py-2 px-4 bg-[#2D1F54] border border-[#38003C] hover:bg-[#38003C]/80 rounded-lg text-sm font-medium transition-colors w-full sm:w-auto"
+              onClick={() => setShowDataSources(!showDataSources)}
+            >
+              Data Sources{httpSource || liveStreamUrl ? ' ●' : ''}
+            </button>
+
+            {/* Data Export Toggle */}
+            <button
+              className="py-2 px-4 bg-[#2D1F54] border border-[#38003C] hover:bg-[#38003C]/80 rounded-lg text-sm font-medium transition-colors w-full sm:w-auto"
+              onClick={() => setShowDataExport(!showDataExport)}
+            >
+              Export Data
+            </button>
+
+            {/* Printable report */}
+            <button
+              className="py-2 px-4 bg-[#2D1F54] border border-[#38003C] hover:bg-[#38003C]/80 rounded-lg text-sm font-medium transition-colors w-full sm:w-auto"
+              onClick={handleGenerateReport}
+            >
+              Generate Report
+            </button>
+
             {/* File Upload */}
             <div className="relative flex items-center w-full sm:w-auto">
               <label htmlFor="file-upload" className="cursor-pointer py-2 px-4 bg-[#38003C] hover:bg-[#38003C]/80 rounded-lg text-sm font-medium transition-colors flex items-center justify-center w-full sm:w-auto">
@@ -1097,6 +1884,18 @@ const App = (): JSX.Element => {
               </label>
               <input id="file-upload" type="file" accept=".csv" onChange={handleFileUpload} className="hidden" aria-describedby="file-error" />
             </div>
+
+            {/* Goal Events Upload */}
+            <div className="relative flex items-center w-full sm:w-auto">
+              <label
+                htmlFor="goal-events-upload"
+                className="cursor-pointer py-2 px-4 bg-[#2D1F54] border border-[#38003C] hover:bg-[#38003C]/80 rounded-lg text-sm font-medium transition-colors flex items-center justify-center w-full sm:w-auto"
+                title="Goal times per fixture (CSV or JSON), for first-goal and game-state analysis"
+              >
+                Goal Events{currentSeason.goalEvents ? ' ✓' : ''}
+              </label>
+              <input id="goal-events-upload" type="file" accept=".csv,.json" onChange={handleGoalEventsUpload} className="hidden" aria-describedby="file-error" />
+            </div>
             
             {/* Team Selection */}
             <div className="relative w-full sm:w-auto">
@@ -1115,11 +1914,84 @@ const App = (): JSX.Element => {
                 </svg>
               </div>
             </div>
+
+            {/* Comparison Team Selection */}
+            {selectedTeam && (
+              <div className="relative w-full sm:w-auto">
+                <select
+                  id="header-compare-select"
+                  value={compareTeam}
+                  onChange={e => setCompareTeam(e.target.value)}
+                  aria-label="Compare with"
+                  className={`appearance-none bg-[#2D1F54] border rounded-lg py-2 pl-4 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882] w-full ${
+                    compareTeam ? 'border-[#FF2882]' : 'border-[#38003C]'
+                  }`}
+                >
+                  <option value="">Compare with...</option>
+                  {teams
+                    .filter(team => team !== selectedTeam)
+                    .map(team => <option key={team} value={team}>{team}</option>)}
+                </select>
+                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2">
+                  <svg className="w-4 h-4 text-[#FF2882]" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+                  </svg>
+                </div>
+              </div>
+            )}
+
+            {/* Referee Filter */}
+            <div className="relative w-full sm:w-auto">
+              <select
+                id="referee-select"
+                value={referee}
+                onChange={e => handleRefereeChange(e.target.value)}
+                className={`appearance-none bg-[#2D1F54] border rounded-lg py-2 pl-4 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882] w-full ${
+                  referee ? 'border-[#FF2882]' : 'border-[#38003C]'
+                }`}
+                aria-label="Referee"
+              >
+                <option value="">All Referees</option>
+                {referees.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+              <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2">
+                <svg className="w-4 h-4 text-[#FF2882]" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+                </svg>
+              </div>
+            </div>
+
+            {/* Venue Filter */}
+            <div className="flex rounded-lg overflow-hidden border border-[#38003C] w-full sm:w-auto" role="group" aria-label="Venue">
+              {(Object.keys(VENUE_FILTER_LABELS) as VenueFilter[]).map(option => (
+                <button
+                  key={option}
+                  className={`flex-1 py-2 px-3 text-sm whitespace-nowrap transition-colors ${
+                    venue === option ? 'bg-[#FF2882] text-white' : 'bg-[#2D1F54] text-gray-300 hover:bg-[#38003C]/80'
+                  }`}
+                  onClick={() => setVenue(option)}
+                >
+                  {option === 'all' ? 'All' : VENUE_FILTER_LABELS[option]}
+                </button>
+              ))}
+            </div>
           </div>
         </header>
 
+        {/* Report scope, only in the printed report */}
+        <div className="hidden print:block text-sm text-gray-300 mb-4">
+          <p>
+            {selectedTeam || 'All teams'}
+            {teamComparison && ` vs ${compareTeam}`}
+            {' · '}{describeRange(range)}
+            {venue !== 'all' && ` · ${VENUE_FILTER_LABELS[venue]}`}
+            {referee && ` · Referee ${referee}`}
+          </p>
+          <p className="text-xs text-gray-500">Generated {new Date().toLocaleString('en-GB')}</p>
+        </div>
+
         {error && (
-          <div className="bg-red-900/30 border border-red-500/50 text-red-200 px-4 py-3 rounded-lg mb-4 sm:mb-6 flex items-center">
+          <div className="bg-red-900/30 border border-red-500/50 text-red-200 px-4 py-3 rounded-lg mb-4 sm:mb-6 flex items-center print:hidden">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
             </svg>
@@ -1127,67 +1999,160 @@ const App = (): JSX.Element => {
           </div>
         )}
 
-        {/* Summary Stats Cards */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3 sm:gap-6 mb-4 sm:mb-8">
-          <div className="bg-gradient-to-br from-[#FF2882]/80 to-[#E90052] p-3 sm:p-5 rounded-xl shadow-lg">
-            <div className="text-xs font-medium text-white/80 mb-1 sm:mb-2">Avg First Goal Time</div>
-            <div className="flex items-end">
-              <div className="text-2xl sm:text-4xl font-bold">30</div>
-              <div className="text-base sm:text-xl ml-1 font-medium opacity-80">mins</div>
-            </div>
-          </div>
-          
-          <div className="bg-gradient-to-br from-[#00D3FF]/80 to-[#04BBE9] p-3 sm:p-5 rounded-xl shadow-lg">
-            <div className="text-xs font-medium text-white/80 mb-1 sm:mb-2">Avg Goals Per Match</div>
-            <div className="flex items-end">
-              <div className="text-2xl sm:text-4xl font-bold">{formatNumber(data.reduce((sum, match) => {
-                const { homeGoals, awayGoals } = parseScore(match.Score);
-                return sum + homeGoals + awayGoals;
-              }, 0) / data.length)}</div>
-            </div>
-          </div>
-          
-          <div className="bg-gradient-to-br from-[#38003C]/80 to-[#5F1C9B] p-3 sm:p-5 rounded-xl shadow-lg sm:col-span-2 md:col-span-1">
-            <div className="text-xs font-medium text-white/80 mb-1 sm:mb-2">Total Matches Analysed</div>
-            <div className="flex items-end">
-              <div className="text-2xl sm:text-4xl font-bold">{data.length}</div>
-            </div>
+        {selectionWarnings.length > 0 && (
+          <div className="bg-yellow-900/30 border border-yellow-500/50 text-yellow-200 px-4 py-3 rounded-lg mb-4 sm:mb-6 flex items-start justify-between gap-3 print:hidden">
+            <ul className="text-sm space-y-1">
+              {selectionWarnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+            </ul>
+            <button className="text-yellow-200 hover:text-white text-sm" onClick={() => setSelectionWarnings([])} aria-label="Dismiss">✕</button>
           </div>
+        )}
+
+        {showDataSources && (
+          <DataSourcePanel
+            connected={httpSource}
+            status={httpStatus}
+            onConnect={handleConnectEndpoint}
+            onDisconnect={handleDisconnectEndpoint}
+            liveStreamUrl={liveStreamUrl}
+            liveStreamStatus={liveStreamStatus}
+            onConnectLiveStream={handleConnectLiveStream}
+            onDisconnectLiveStream={handleDisconnectLiveStream}
+            onClose={() => setShowDataSources(false)}
+          />
+        )}
+
+        {showDataExport && (
+          <DataExportPanel
+            context={datasetContext}
+            filters={datasetFilters}
+            fileSuffix={currentSeason.id}
+            onClose={() => setShowDataExport(false)}
+          />
+        )}
+
+        {showAliasManager && (
+          <TeamAliasManager
+            registry={teamRegistry}
+            aliases={userAliases}
+            matches={(seasons.find(season => season.id === currentSeason.id) || currentSeason).matches}
+            onChange={handleAliasesChange}
+            onClose={() => setShowAliasManager(false)}
+          />
+        )}
+
+        {pendingImport && (
+          <ColumnMappingDialog
+            fileName={pendingImport.fileName}
+            headers={pendingImport.headers}
+            initialMapping={pendingImport.mapping}
+            onConfirm={handleMappingConfirm}
+            onCancel={() => {
+              setPendingImport(null);
+              setError('');
+            }}
+          />
+        )}
+
+        {pendingValidation && (
+          <ValidationReportPanel
+            key={pendingValidation.id}
+            fileName={pendingValidation.fileName}
+            matches={pendingValidation.matches}
+            registry={teamRegistry}
+            onAddAlias={handleAddAlias}
+            onImport={matches => nameImportedSeason(pendingValidation.fileName, matches)}
+            onCancel={() => setPendingValidation(null)}
+          />
+        )}
+
+        {pendingSeason && (
+          <SeasonNameDialog
+            key={pendingSeason.id}
+            fileName={pendingSeason.fileName}
+            matchCount={pendingSeason.matches.length}
+            initialName={pendingSeason.initialName}
+            seasons={seasons}
+            onConfirm={name => {
+              setPendingSeason(null);
+              loadMatches(pendingSeason.matches, { kind: 'file', label: pendingSeason.fileName }, name);
+            }}
+            onCancel={() => setPendingSeason(null)}
+          />
+        )}
+
+        <div className="print:hidden">
+          <RangeFilter matches={data} range={range} onChange={handleRangeChange} />
         </div>
 
+        {/* Summary Stats Cards */}
+        <SummaryCards matches={rangeMatches} selectedTeam={selectedTeam} goalEvents={goalEventIndex || undefined} />
+
+        {teamComparison && (
+          <TeamComparisonPanel comparison={teamComparison} rolling={comparisonRollingXg} rollingWindow={rollingWindow} />
+        )}
+
         {/* Charts - First Row */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6 mb-4 sm:mb-6">
           {/* xG Timeseries Chart */}
-          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden">
+          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden break-inside-avoid">
             <div className="p-3 sm:p-4 border-b border-gray-800">
-              <h2 className="text-base sm:text-lg font-semibold text-white truncate">
-                {selectedTeam ? 
-                  `${selectedTeam} - xG For vs Against Over Time` : 
-                  'xG For vs Against Over Time'}
-              </h2>
+              <div className="flex items-start justify-between gap-2">
+                <h2 className="text-base sm:text-lg font-semibold text-white truncate">{timeseriesTitle}</h2>
+                <ChartExportMenu chartRef={timeseriesChartRef} title={timeseriesTitle} getData={timeseriesTable} />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-400">
+                <span>Rolling average over</span>
+                {ROLLING_WINDOW_PRESETS.map(size => (
+                  <button
+                    key={size}
+                    className={`px-2 py-1 rounded ${rollingWindow === size ? 'bg-[#38003C] text-white' : 'bg-[#2D1F54] hover:bg-[#38003C]/80'}`}
+                    onClick={() => setRollingWindow(size)}
+                  >
+                    {size}
+                  </button>
+                ))}
+                <input
+                  type="number"
+                  min={1}
+                  max={38}
+                  value={rollingWindow}
+                  onChange={e => setRollingWindow(Math.max(1, Math.min(38, Number(e.target.value) || 1)))}
+                  className="w-14 bg-[#2D1F54] border border-[#38003C] rounded py-1 px-2 text-white"
+                  title="Custom window"
+                />
+                <span>matches</span>
+                <label className="flex items-center gap-1 ml-auto cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showMatchMarkers}
+                    onChange={e => setShowMatchMarkers(e.target.checked)}
+                  />
+                  Per-match values
+                </label>
+              </div>
             </div>
             <div className="p-2 sm:p-4">
-              <div 
-                ref={timeseriesChartRef} 
+              <PlotlyChart
+                chartRef={timeseriesChartRef}
+                figure={timeseriesFigure}
                 className="chart-container"
-              ></div>
+              />
             </div>
           </div>
 
           {/* Team Performance Chart */}
-          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden">
-            <div className="p-3 sm:p-4 border-b border-gray-800">
-              <h2 className="text-base sm:text-lg font-semibold text-white truncate">
-                {selectedTeam ? 
-                  `Goals per Match - ${selectedTeam} Highlighted` : 
-                  'Teams by Goals per Match'}
-              </h2>
+          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden break-inside-avoid">
+            <div className="p-3 sm:p-4 border-b border-gray-800 flex items-start justify-between gap-2">
+              <h2 className="text-base sm:text-lg font-semibold text-white truncate">{goalsTitle}</h2>
+              <ChartExportMenu chartRef={chartRef} title={goalsTitle} getData={goalsTable} />
             </div>
             <div className="p-2 sm:p-4">
-              <div 
-                ref={chartRef} 
+              <PlotlyChart
+                chartRef={chartRef}
+                figure={goalsFigure}
                 className="chart-container"
-              ></div>
+              />
             </div>
           </div>
         </div>
@@ -1195,43 +2160,190 @@ const App = (): JSX.Element => {
         {/* Charts - Second Row */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6 mb-4 sm:mb-6">
           {/* Match Outcomes Donut Chart */}
-          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden">
-            <div className="p-3 sm:p-4 border-b border-gray-800">
-              <h2 className="text-base sm:text-lg font-semibold text-white truncate">Match Outcomes</h2>
+          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden break-inside-avoid">
+            <div className="p-3 sm:p-4 border-b border-gray-800 flex items-start justify-between gap-2">
+              <h2 className="text-base sm:text-lg font-semibold text-white truncate">{outcomesTitle}</h2>
+              <ChartExportMenu chartRef={donutChartRef} title={outcomesTitle} getData={outcomesTable} />
             </div>
             <div className="p-2 sm:p-4">
-              <div 
-                ref={donutChartRef} 
+              <PlotlyChart
+                chartRef={donutChartRef}
+                figure={outcomesFigure}
                 className="chart-container"
-              ></div>
+              />
             </div>
           </div>
 
           {/* xG vs xGA Scatter Plot */}
-          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden md:col-span-2">
-            <div className="p-3 sm:p-4 border-b border-gray-800">
-              <h2 className="text-base sm:text-lg font-semibold text-white truncate">
-                {selectedTeam ? 
-                  `xG vs xGA - ${selectedTeam} Highlighted` : 
-                  'xG vs xGA Analysis'}
+          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden md:col-span-2 break-inside-avoid">
+            <div className="p-3 sm:p-4 border-b border-gray-800 flex items-start justify-between gap-2">
+              <h2 className="text-base sm:text-lg font-semibold text-white truncate">{scatterTitle}</h2>
+              <ChartExportMenu chartRef={scatterChartRef} title={scatterTitle} getData={scatterTable} />
+            </div>
+            <div className="p-2 sm:p-4">
+              {/* Zoom survives picking other teams; a new season or venue resets it */}
+              <PlotlyChart
+                chartRef={scatterChartRef}
+                figure={scatterFigure}
+                className="chart-container"
+                uirevision={`${selectedSeasonId}|${venue}`}
+              />
+            </div>
+          </div>
+        </div>
+
+        {homeAwaySplit && <HomeAwayCard split={homeAwaySplit} />}
+
+        {/* Deeper analysis, left out of the printed report */}
+        <div className="print:hidden">
+          {goalEventIndex && (
+            <GoalTimingPanel
+              matches={playedMatches}
+              index={goalEventIndex}
+              selectedTeam={selectedTeam}
+              onClear={() => setSeasonGoalEvents(null)}
+            />
+          )}
+
+          <RefereePanel
+            matches={windowPlayedMatches}
+            selectedTeam={selectedTeam}
+            referee={referee}
+            onSelectReferee={handleRefereeChange}
+          />
+
+          {hasAttendance(playedMatches) && <AttendancePanel matches={playedMatches} selectedTeam={selectedTeam} />}
+        </div>
+
+        {/* Live Table */}
+        {liveTable.length > 0 && (
+          <LiveTablePanel rows={liveTable} liveCount={liveMatchCount} selectedTeam={selectedTeam} onSelectTeam={setSelectedTeam} />
+        )}
+
+        {/* League Table */}
+        <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6 break-inside-avoid">
+          <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+            <div>
+              <h2 className="text-base sm:text-lg font-semibold text-white">
+                {tableWeek === null ? 'League Table' : `League Table after Week ${tableWeek}`}
               </h2>
+              <p className="text-xs text-gray-400 mt-1">Click a column to sort, or a team to select it</p>
+            </div>
+            <div className="flex items-center gap-2 w-full sm:w-auto print:hidden">
+              <div className="relative w-full sm:w-auto">
+                <select
+                  id="table-week-select"
+                  value={tableWeek === null ? '' : String(tableWeek)}
+                  onChange={e => setTableWeek(e.target.value === '' ? null : Number(e.target.value))}
+                  className="appearance-none bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 pl-4 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882] w-full"
+                >
+                  <option value="">Latest</option>
+                  {playedWeeks.map(week => (
+                    <option key={week} value={week}>After Week {week}</option>
+                  ))}
+                </select>
+                <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2">
+                  <svg className="w-4 h-4 text-[#FF2882]" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+                  </svg>
+                </div>
+              </div>
+              {playedWeeks.includes(activeWeek) && tableWeek !== activeWeek && (
+                <button
+                  className="text-xs bg-[#38003C] text-white px-2 py-1 rounded hover:bg-[#38003C]/80 whitespace-nowrap"
+                  onClick={() => setTableWeek(activeWeek)}
+                >
+                  Use Week {activeWeek}
+                </button>
+              )}
+            </div>
+          </div>
+          <LeagueTable standings={standings} selectedTeam={selectedTeam} onSelectTeam={setSelectedTeam} />
+        </div>
+
+        {/* Expected Points */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 sm:gap-6 mb-4 sm:mb-6 print:hidden">
+          {/* xPts vs Actual Points Chart */}
+          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden md:col-span-2">
+            <div className="p-3 sm:p-4 border-b border-gray-800 flex items-start justify-between gap-2">
+              <h2 className="text-base sm:text-lg font-semibold text-white truncate">Points vs Expected Points (xPts)</h2>
+              <ChartExportMenu chartRef={xptsChartRef} title="Points vs Expected Points" getData={expectedPointsTable} />
             </div>
             <div className="p-2 sm:p-4">
-              <div 
-                ref={scatterChartRef} 
+              <PlotlyChart
+                chartRef={xptsChartRef}
+                figure={xptsFigure}
                 className="chart-container"
-              ></div>
+              />
+            </div>
+          </div>
+
+          {/* Over/Under-performance Ranking */}
+          <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden">
+            <div className="p-3 sm:p-4 border-b border-gray-800">
+              <h2 className="text-base sm:text-lg font-semibold text-white truncate">Over/Under-performance</h2>
+              <p className="text-xs text-gray-400 mt-1">Points minus xPts</p>
+            </div>
+            <ol className="p-2 sm:p-4 space-y-1 text-xs sm:text-sm max-h-[350px] overflow-y-auto">
+              {teamExpectedPoints.map((t, idx) => (
+                <li
+                  key={t.team}
+                  className={`flex items-center justify-between px-2 py-1 rounded ${
+                    t.team === selectedTeam ? 'bg-[#38003C]/60 text-white font-semibold' : ''
+                  }`}
+                >
+                  <span className="truncate">
+                    <span className="text-gray-500 mr-2">{idx + 1}</span>
+                    {t.team}
+                  </span>
+                  <span className={`font-mono ${t.performance >= 0 ? 'text-[#00D3FF]' : 'text-[#FF2882]'}`}>
+                    {t.performance >= 0 ? '+' : ''}{formatNumber(t.performance)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        </div>
+
+        {/* League Position Bump Chart */}
+        <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6 print:hidden">
+          <div className="p-3 sm:p-4 border-b border-gray-800 flex items-start justify-between gap-2">
+            <div>
+              <h2 className="text-base sm:text-lg font-semibold text-white">League Position by Gameweek</h2>
+              <p className="text-xs text-gray-400 mt-1">
+                {selectedTeam
+                  ? `Highlighting ${selectedTeam}${compareTeam ? ` and ${compareTeam}` : ''}`
+                  : 'Select a team to highlight its path'}
+              </p>
             </div>
+            <ChartExportMenu chartRef={bumpChartRef} title="League Position by Gameweek" getData={positionsTable} />
           </div>
+          <div className="p-2 sm:p-4">
+            <PlotlyChart
+              chartRef={bumpChartRef}
+              figure={bumpFigure}
+              className="chart-container"
+            />
+          </div>
+        </div>
+
+        <div className="print:hidden">
+          {/* Cross-season PPG comparison for the selected team */}
+          {selectedTeam && (
+            <SeasonComparisonPanel team={selectedTeam} currentSeason={currentSeason} seasons={normalisedSeasons} />
+          )}
+
+          {/* Season Outcome Simulator */}
+          <SimulationPanel matches={data} selectedTeam={selectedTeam} />
         </div>
 
         {/* Charts - Third Row (PPG) - Only show when a team is selected */}
         {selectedTeam && (
-          <div className="mb-4 sm:mb-6">
+          <div className="mb-4 sm:mb-6 break-inside-avoid">
             <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden">
               <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
                 <div>
-                  <h2 className="text-base sm:text-lg font-semibold text-white">Points Per Game Progression</h2>
+                  <h2 className="text-base sm:text-lg font-semibold text-white">Points Per Game Progression{venueSuffix}</h2>
                   <p className="text-xs text-gray-400 mt-1">
                     {compareTeam 
                       ? `Comparing ${selectedTeam} vs ${compareTeam}` 
@@ -1239,45 +2351,49 @@ const App = (): JSX.Element => {
                     }
                   </p>
                 </div>
-                <div className="relative w-full sm:w-auto">
-                  <select 
-                    id="compare-team-select" 
-                    value={compareTeam} 
-                    onChange={e => setCompareTeam(e.target.value)} 
-                    className="appearance-none bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 pl-4 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882] w-full"
-                  >
-                    <option value="">Compare with...</option>
-                    {teams
-                      .filter(team => team !== selectedTeam)
-                      .map(team => (
-                        <option key={team} value={team}>{team}</option>
-                      ))
-                    }
-                  </select>
-                  <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2">
-                    <svg className="w-4 h-4 text-[#FF2882]" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
-                    </svg>
+                <div className="flex items-center gap-2 w-full sm:w-auto">
+                  <div className="relative w-full sm:w-auto print:hidden">
+                    <select 
+                      id="compare-team-select" 
+                      value={compareTeam} 
+                      onChange={e => setCompareTeam(e.target.value)} 
+                      className="appearance-none bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 pl-4 pr-10 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882] w-full"
+                    >
+                      <option value="">Compare with...</option>
+                      {teams
+                        .filter(team => team !== selectedTeam)
+                        .map(team => (
+                          <option key={team} value={team}>{team}</option>
+                        ))
+                      }
+                    </select>
+                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2">
+                      <svg className="w-4 h-4 text-[#FF2882]" fill="none" stroke="currentColor" viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path>
+                      </svg>
+                    </div>
                   </div>
+                  <ChartExportMenu chartRef={ppgChartRef} title={compareTeam ? `PPG ${selectedTeam} vs ${compareTeam}` : `PPG ${selectedTeam}`} getData={ppgTable} />
                 </div>
               </div>
               <div className="p-2 sm:p-4">
-                <div 
-                  ref={ppgChartRef} 
+                <PlotlyChart
+                  chartRef={ppgChartRef}
+                  figure={ppgFigure}
                   className="chart-container"
-                ></div>
+                />
               </div>
             </div>
           </div>
         )}
 
         {/* Match Data Table */}
-        <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden">
+        <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden break-inside-avoid">
           <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
             <h2 className="text-base sm:text-lg font-semibold text-white">Match Data</h2>
             <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3 sm:space-x-4 w-full sm:w-auto">
               {selectedTeam && weeksWithSelectedTeam.length > 0 && (
-                <div className="flex w-full sm:w-auto gap-2">
+                <div className="flex w-full sm:w-auto gap-2 print:hidden">
                   <button 
                     className="text-xs bg-[#38003C] text-white px-2 py-1 rounded hover:bg-[#38003C]/80 flex-1 sm:flex-none"
                     onClick={() => {
@@ -1303,8 +2419,8 @@ const App = (): JSX.Element => {
                 </div>
               )}
               <div className="text-xs text-gray-400 w-full text-center sm:text-right sm:w-auto">
-                {data.filter(match => match.Wk === activeWeek).length > 0 
-                  ? `Week ${activeWeek} (${data.filter(match => match.Wk === activeWeek).length} matches)` 
+                {rangeMatches.filter(match => match.Wk === activeWeek).length > 0 
+                  ? `Week ${activeWeek} (${rangeMatches.filter(match => match.Wk === activeWeek).length} matches)` 
                   : `No matches for Week ${activeWeek}`}
               </div>
             </div>
@@ -1313,7 +2429,7 @@ const App = (): JSX.Element => {
           {/* Week Tabs */}
           <div 
             ref={weekTabsRef}
-            className="flex overflow-x-auto bg-[#1A1E2E] border-b border-[#38003C]/20 py-2 px-1 hide-scrollbar"
+            className="flex overflow-x-auto bg-[#1A1E2E] border-b border-[#38003C]/20 py-2 px-1 hide-scrollbar print:hidden"
           >
             {availableWeeks.map(week => (
               <button
@@ -1342,34 +2458,66 @@ const App = (): JSX.Element => {
             <table className="w-full text-xs sm:text-sm text-left">
               <thead className="bg-[#191D30] text-gray-400 uppercase text-xs">
                 <tr>
-                  <th className="p-2 sm:p-3">Date</th>
+                  <th
+                    className={`p-2 sm:p-3 cursor-pointer select-none hover:text-white ${matchSortKey === 'date' ? 'text-white' : ''}`}
+                    onClick={() => handleMatchSort('date')}
+                  >
+                    Date{matchSortKey === 'date' && (matchSortDescending ? ' ▼' : ' ▲')}
+                  </th>
                   <th className="p-2 sm:p-3">Home</th>
                   <th className="p-2 sm:p-3">Score</th>
                   <th className="p-2 sm:p-3">Away</th>
                   <th className="p-2 sm:p-3">xG (H)</th>
                   <th className="p-2 sm:p-3">xG (A)</th>
+                  <th
+                    className={`p-2 sm:p-3 text-right cursor-pointer select-none hover:text-white ${matchSortKey === 'attendance' ? 'text-white' : ''}`}
+                    onClick={() => handleMatchSort('attendance')}
+                  >
+                    Attendance{matchSortKey === 'attendance' && (matchSortDescending ? ' ▼' : ' ▲')}
+                  </th>
                 </tr>
               </thead>
               <tbody>
-                {data
-                  .filter(match => match.Wk === activeWeek)
+                {activeWeekMatches
                   .map((match, idx) => (
-                    <tr key={idx} className={`border-b border-gray-800/50 hover:bg-[#2A305E] ${
-                      (match.Home === selectedTeam || match.Away === selectedTeam) 
-                        ? 'bg-[#38003C]/20' 
-                        : ''
-                    }`}>
+                    <tr
+                      key={idx}
+                      className={`border-b border-gray-800/50 hover:bg-[#2A305E] cursor-pointer ${
+                        (match.Home === selectedTeam || match.Away === selectedTeam) 
+                          ? 'bg-[#38003C]/20' 
+                          : ''
+                      } ${isPlayed(match) || isLive(match) ? '' : 'text-gray-400'}`}
+                      onClick={() => setOpenMatch({ home: match.Home, away: match.Away })}
+                    >
                       <td className="p-2 sm:p-3 whitespace-nowrap">{formatDate(match.Date)}</td>
                       <td className={`p-2 sm:p-3 font-medium ${match.Home === selectedTeam ? 'text-white' : ''}`}>{match.Home}</td>
-                      <td className="p-2 sm:p-3 font-mono">{match.Score}</td>
+                      {isPlayed(match) && (
+                        <td className="p-2 sm:p-3 font-mono">{match.Score}</td>
+                      )}
+                      {isLive(match) && (
+                        <td className="p-2 sm:p-3 font-mono text-[#FF2882] whitespace-nowrap" title="In progress">
+                          {getStatusLabel(match)} <span className="text-xs">{formatMinute(match) || 'LIVE'}</span>
+                        </td>
+                      )}
+                      {!isPlayed(match) && !isLive(match) && (
+                        <td
+                          className={`p-2 sm:p-3 font-mono italic ${match.Status === 'scheduled' ? 'text-[#00D3FF]' : 'text-gray-500'}`}
+                          title={match.Status === 'scheduled' ? 'Kickoff time' : `Match ${match.Status}`}
+                        >
+                          {getStatusLabel(match)}
+                        </td>
+                      )}
                       <td className={`p-2 sm:p-3 font-medium ${match.Away === selectedTeam ? 'text-white' : ''}`}>{match.Away}</td>
-                      <td className="p-2 sm:p-3">{match.xG.toFixed(1)}</td>
-                      <td className="p-2 sm:p-3">{match.xG_away.toFixed(1)}</td>
+                      <td className="p-2 sm:p-3">{formatMatchXg(match, match.xG)}</td>
+                      <td className="p-2 sm:p-3">{formatMatchXg(match, match.xG_away)}</td>
+                      <td className="p-2 sm:p-3 text-right">
+                        {Number.isFinite(parseAttendance(match.Attendance)) ? parseAttendance(match.Attendance).toLocaleString('en-GB') : '–'}
+                      </td>
                     </tr>
                   ))}
-                {data.filter(match => match.Wk === activeWeek).length === 0 && (
+                {activeWeekMatches.length === 0 && (
                   <tr>
-                    <td colSpan={6} className="p-4 sm:p-8 text-center text-gray-400">No matches found for Week {activeWeek}</td>
+                    <td colSpan={7} className="p-4 sm:p-8 text-center text-gray-400">No matches found for Week {activeWeek}</td>
                   </tr>
                 )}
               </tbody>
@@ -1377,6 +2525,14 @@ const App = (): JSX.Element => {
           </div>
         </div>
 
+        {matchDetail && (
+          <MatchDetailDrawer
+            detail={matchDetail}
+            goalEvents={goalEventIndex ? eventsForMatch(goalEventIndex, matchDetail.match) : undefined}
+            onClose={() => setOpenMatch(null)}
+          />
+        )}
+
         <footer className="mt-4 sm:mt-8 text-center text-xs text-gray-500">
           <p>Premier League Dashboard</p>
         </footer>
@@ -0,0 +1,92 @@
+import { MatchData } from '../types';
+import { defaultData } from '../data/defaultData';
+import {
+  computeAverageGoals,
+  computeMatchOutcomes,
+  computeTeamGoals,
+  computeTeamXgStats,
+  computeXgTimeseries
+} from './aggregates';
+
+const scheduled: MatchData = {
+  ...defaultData[0], Wk: 3, Date: '2024-08-31', Score: '', xG: NaN, xG_away: NaN, Status: 'scheduled'
+};
+
+describe('computeTeamGoals', () => {
+  it('averages goals per match for every team', () => {
+    const goals = computeTeamGoals(defaultData);
+    expect(goals).toHaveLength(8);
+    expect(goals.find(g => g.team === 'Manchester Utd')!.goalsPerMatch).toBe(1.5);
+    expect(goals.find(g => g.team === 'Brighton')!.goalsPerMatch).toBe(3);
+  });
+
+  it('counts only home or away matches when a venue is given', () => {
+    const home = computeTeamGoals(defaultData, 'home');
+    expect(home.find(g => g.team === 'Manchester Utd')!.goalsPerMatch).toBe(1.5);
+    expect(home.find(g => g.team === 'Liverpool')).toBeUndefined();
+    expect(computeTeamGoals(defaultData, 'away').find(g => g.team === 'Liverpool')!.goalsPerMatch).toBe(1.5);
+  });
+
+  it('ignores fixtures that have not been played', () => {
+    expect(computeTeamGoals([...defaultData, scheduled])).toEqual(computeTeamGoals(defaultData));
+  });
+});
+
+describe('computeTeamXgStats', () => {
+  it('averages xG for and against from each team\'s perspective', () => {
+    const liverpool = computeTeamXgStats(defaultData).find(s => s.team === 'Liverpool')!;
+    expect(liverpool.matches).toBe(2);
+    expect(liverpool.xG).toBeCloseTo((2.6 + 1.2) / 2);
+    expect(liverpool.xGA).toBeCloseTo((0.5 + 1.8) / 2);
+    expect(liverpool.goalDiff).toBe(0.5); // per match
+  });
+});
+
+describe('computeAverageGoals', () => {
+  it('averages total goals over played matches', () => {
+    expect(computeAverageGoals([...defaultData, scheduled])).toBe(2);
+  });
+
+  it('is zero with no played matches', () => {
+    expect(computeAverageGoals([scheduled])).toBe(0);
+  });
+});
+
+describe('computeMatchOutcomes', () => {
+  it('counts home wins, away wins and draws', () => {
+    const outcomes = computeMatchOutcomes(defaultData);
+    expect(outcomes.counts).toEqual([3, 2, 1]);
+    expect(outcomes.total).toBe(6);
+    expect(outcomes.percentages[0]).toBeCloseTo(50);
+  });
+
+  it('counts a team\'s wins, losses and draws at a venue', () => {
+    const outcomes = computeMatchOutcomes(defaultData, 'Newcastle Utd', 'away');
+    expect(outcomes.labels).toEqual(['Wins', 'Losses', 'Draws']);
+    expect(outcomes.counts).toEqual([0, 0, 1]);
+    expect(computeMatchOutcomes(defaultData, 'Newcastle Utd').counts).toEqual([1, 0, 1]);
+  });
+
+  it('reports zero percentages rather than NaN for an empty season', () => {
+    expect(computeMatchOutcomes([]).percentages).toEqual([0, 0, 0]);
+  });
+});
+
+describe('computeXgTimeseries', () => {
+  it('shows every match from the home side without a team', () => {
+    const series = computeXgTimeseries(defaultData);
+    expect(series).toHaveLength(6);
+    expect(series[0]).toMatchObject({ team: 'Manchester Utd', xG: 2.4, xGA: 0.4 });
+  });
+
+  it('uses the team\'s perspective in date order when given one', () => {
+    const series = computeXgTimeseries(defaultData, 'Liverpool');
+    expect(series.map(p => p.opponent)).toEqual(['Ipswich Town', 'Manchester Utd']);
+    expect(series.map(p => p.xG)).toEqual([2.6, 1.2]);
+  });
+
+  it('filters the team\'s matches by venue', () => {
+    expect(computeXgTimeseries(defaultData, 'Liverpool', 'home')).toEqual([]);
+    expect(computeXgTimeseries(defaultData, 'Liverpool', 'away')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,181 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { byDate, involvesTeam, parseScore, toTeamPerspective } from './scores';
+import { VenueFilter, matchesVenue } from './venue';
+
+// Goals scored per match by one team
+export interface TeamGoals {
+  team: string;
+  goalsPerMatch: number;
+}
+
+// Per-team xG and goal averages (the xG vs xGA scatter)
+export interface TeamXgStats {
+  team: string;
+  xG: number;
+  xGA: number;
+  goalsPerMatch: number;
+  concededPerMatch: number;
+  matches: number;
+  goalDiff: number;
+}
+
+// Home win / away win / draw split
+export interface MatchOutcomes {
+  labels: string[];
+  values: number[];
+  percentages: number[];
+  counts: number[];
+  total: number;
+}
+
+// One match's xG for and against from a team's point of view
+export interface XgTimeseriesPoint {
+  date: string;
+  xG: number;
+  xGA: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  team: string;
+  match: string;
+  opponent: string;
+}
+
+interface TeamTotals {
+  xG: number;
+  xGA: number;
+  matches: number;
+  goalsFor: number;
+  goalsAgainst: number;
+}
+
+// Sum goals and xG for every team across played matches, counting only the
+// home or away side of each match when a venue filter is set
+const sumTeamTotals = (matches: MatchData[], venue: VenueFilter): Map<string, TeamTotals> => {
+  const totals = new Map<string, TeamTotals>();
+  const add = (team: string, goalsFor: number, goalsAgainst: number, xG: number, xGA: number) => {
+    const stats = totals.get(team) || { xG: 0, xGA: 0, matches: 0, goalsFor: 0, goalsAgainst: 0 };
+    stats.xG += xG;
+    stats.xGA += xGA;
+    stats.goalsFor += goalsFor;
+    stats.goalsAgainst += goalsAgainst;
+    stats.matches += 1;
+    totals.set(team, stats);
+  };
+
+  matches.filter(isPlayed).forEach(match => {
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    if (venue !== 'away') add(match.Home, homeGoals, awayGoals, match.xG, match.xG_away);
+    if (venue !== 'home') add(match.Away, awayGoals, homeGoals, match.xG_away, match.xG);
+  });
+
+  return totals;
+};
+
+// Goals per match for every team, highest first
+export const computeTeamGoals = (matches: MatchData[], venue: VenueFilter = 'all'): TeamGoals[] =>
+  Array.from(sumTeamTotals(matches, venue).entries())
+    .filter(([_, stats]) => stats.matches > 0)
+    .map(([team, stats]) => ({
+      team,
+      goalsPerMatch: stats.goalsFor / stats.matches
+    }))
+    .sort((a, b) => b.goalsPerMatch - a.goalsPerMatch);
+
+// Average xG, xGA and goals per match for every team
+export const computeTeamXgStats = (matches: MatchData[], venue: VenueFilter = 'all'): TeamXgStats[] =>
+  Array.from(sumTeamTotals(matches, venue).entries())
+    .filter(([_, stats]) => stats.matches > 0)
+    .map(([team, stats]) => ({
+      team,
+      xG: stats.xG / stats.matches,
+      xGA: stats.xGA / stats.matches,
+      goalsPerMatch: stats.goalsFor / stats.matches,
+      concededPerMatch: stats.goalsAgainst / stats.matches,
+      matches: stats.matches,
+      goalDiff: (stats.goalsFor - stats.goalsAgainst) / stats.matches
+    }));
+
+// Average total goals per played match (0 when nothing has been played)
+export const computeAverageGoals = (matches: MatchData[]): number => {
+  const played = matches.filter(isPlayed);
+  if (played.length === 0) return 0;
+  const goals = played.reduce((sum, match) => {
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    return sum + homeGoals + awayGoals;
+  }, 0);
+  return goals / played.length;
+};
+
+const computeTeamOutcomes = (matches: MatchData[], team: string, venue: VenueFilter): MatchOutcomes => {
+  const counts = { Win: 0, Draw: 0, Loss: 0 };
+  matches
+    .filter(match => isPlayed(match) && involvesTeam(match, team) && matchesVenue(match, team, venue))
+    .forEach(match => {
+      counts[toTeamPerspective(match, team).result] += 1;
+    });
+
+  // Same order as the league split so the donut keeps its colours: wins, losses, draws
+  const values = [counts.Win, counts.Loss, counts.Draw];
+  const total = values.reduce((sum, count) => sum + count, 0);
+  return {
+    labels: ['Wins', 'Losses', 'Draws'],
+    values,
+    percentages: values.map(count => (total > 0 ? (count / total) * 100 : 0)),
+    counts: values,
+    total
+  };
+};
+
+// Count home wins, away wins and draws across played matches. With a team, count
+// that team's wins, draws and losses instead (at the given venue).
+export const computeMatchOutcomes = (matches: MatchData[], team?: string, venue: VenueFilter = 'all'): MatchOutcomes => {
+  if (team) return computeTeamOutcomes(matches, team, venue);
+
+  let homeWins = 0;
+  let awayWins = 0;
+  let draws = 0;
+
+  matches.filter(isPlayed).forEach(match => {
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    if (homeGoals > awayGoals) {
+      homeWins++;
+    } else if (homeGoals < awayGoals) {
+      awayWins++;
+    } else {
+      draws++;
+    }
+  });
+
+  const total = homeWins + awayWins + draws;
+  const percent = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+  return {
+    labels: ['Home Wins', 'Away Wins', 'Draws'],
+    values: [homeWins, awayWins, draws],
+    percentages: [percent(homeWins), percent(awayWins), percent(draws)],
+    counts: [homeWins, awayWins, draws],
+    total
+  };
+};
+
+// xG for and against per match in date order. With a team, values are from that
+// team's perspective; without one, every match is shown from the home side (or
+// the away side when only away matches are wanted).
+export const computeXgTimeseries = (matches: MatchData[], team?: string, venue: VenueFilter = 'all'): XgTimeseriesPoint[] =>
+  matches
+    .filter(match => isPlayed(match) && (!team || (involvesTeam(match, team) && matchesVenue(match, team, venue))))
+    .sort(byDate)
+    .map(match => {
+      const perspective = toTeamPerspective(match, team || (venue === 'away' ? match.Away : match.Home));
+      return {
+        date: match.Date,
+        xG: perspective.xG,
+        xGA: perspective.xGA,
+        goalsFor: perspective.goalsFor,
+        goalsAgainst: perspective.goalsAgainst,
+        team: perspective.team,
+        match: `${match.Home} vs ${match.Away}`,
+        opponent: perspective.opponent
+      };
+    });
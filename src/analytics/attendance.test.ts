@@ -0,0 +1,54 @@
+import { defaultData } from '../data/defaultData';
+import {
+  computeAttendanceByHomeTeam,
+  computeAttendanceByOutcome,
+  computeAttendanceByVenue,
+  computeAttendancePoints,
+  computeAttendanceTrend,
+  hasAttendance
+} from './attendance';
+
+describe('computeAttendanceByVenue', () => {
+  it('summarises crowds per stadium, best attended first', () => {
+    const [oldTrafford] = computeAttendanceByVenue(defaultData);
+    expect(oldTrafford).toMatchObject({ name: 'Old Trafford', matches: 2, average: 73648.5, min: 73297, max: 74000 });
+    expect(oldTrafford.trend.map(point => point.week)).toEqual([1, 2]);
+  });
+
+  it('skips matches without a crowd figure', () => {
+    const noCrowd = defaultData.map(match => (match.Venue === 'Old Trafford' ? { ...match, Attendance: '' } : match));
+    expect(computeAttendanceByVenue(noCrowd).map(summary => summary.name)).not.toContain('Old Trafford');
+    expect(hasAttendance(noCrowd.map(match => ({ ...match, Attendance: '' })))).toBe(false);
+  });
+});
+
+describe('computeAttendanceByHomeTeam', () => {
+  it('ranks home teams by average crowd', () => {
+    expect(computeAttendanceByHomeTeam(defaultData).map(summary => summary.name)).toEqual([
+      'Manchester Utd', 'Newcastle Utd', 'Everton', 'Ipswich Town', 'Fulham'
+    ]);
+  });
+});
+
+describe('computeAttendanceTrend', () => {
+  it('averages the crowd per gameweek', () => {
+    expect(computeAttendanceTrend(defaultData)).toEqual([
+      { week: 1, average: 48681, matches: 4 },
+      { week: 2, average: 49500, matches: 2 }
+    ]);
+  });
+});
+
+describe('computeAttendanceByOutcome', () => {
+  it('averages the crowd by result', () => {
+    const byOutcome = computeAttendanceByOutcome(defaultData);
+    expect(byOutcome.map(entry => [entry.outcome, entry.matches])).toEqual([
+      ['Home win', 3], ['Draw', 1], ['Away win', 2]
+    ]);
+    expect(byOutcome[2].average).toBeCloseTo(34615.5);
+  });
+
+  it('pairs every crowd with the goals scored', () => {
+    expect(computeAttendancePoints(defaultData)[0]).toMatchObject({ attendance: 73297, goals: 1, outcome: 'Home win' });
+  });
+});
@@ -0,0 +1,132 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { byDate, parseAttendance, parseScore } from './scores';
+
+export type MatchOutcome = 'Home win' | 'Draw' | 'Away win';
+
+export const MATCH_OUTCOMES: MatchOutcome[] = ['Home win', 'Draw', 'Away win'];
+
+// Crowd figures for one venue or one home team
+export interface AttendanceSummary {
+  // Venue name or home team
+  name: string;
+  matches: number;
+  average: number;
+  min: number;
+  max: number;
+  // Crowds in date order, for a trend line
+  trend: { date: string, week: number, attendance: number, match: string }[];
+}
+
+// League average crowd for one gameweek
+export interface AttendanceWeek {
+  week: number;
+  average: number;
+  matches: number;
+}
+
+// One match's crowd next to its result
+export interface AttendancePoint {
+  match: string;
+  date: string;
+  attendance: number;
+  goals: number;
+  outcome: MatchOutcome;
+}
+
+// Average crowd for each result type
+export interface AttendanceByOutcome {
+  outcome: MatchOutcome;
+  matches: number;
+  average: number;
+}
+
+const describeMatch = (match: MatchData): string => `${match.Home} ${match.Score} ${match.Away}`;
+
+// Played matches with a recorded crowd, oldest first
+const withAttendance = (matches: MatchData[]): { match: MatchData, attendance: number }[] =>
+  matches
+    .filter(isPlayed)
+    .map(match => ({ match, attendance: parseAttendance(match.Attendance) }))
+    .filter(entry => Number.isFinite(entry.attendance))
+    .sort((a, b) => byDate(a.match, b.match));
+
+export const hasAttendance = (matches: MatchData[]): boolean => withAttendance(matches).length > 0;
+
+const summariseBy = (matches: MatchData[], nameOf: (match: MatchData) => string): AttendanceSummary[] => {
+  const groups = new Map<string, AttendanceSummary>();
+
+  withAttendance(matches).forEach(({ match, attendance }) => {
+    const name = nameOf(match).trim();
+    if (name === '') return;
+    const summary = groups.get(name) || { name, matches: 0, average: 0, min: Infinity, max: -Infinity, trend: [] };
+    summary.matches += 1;
+    summary.min = Math.min(summary.min, attendance);
+    summary.max = Math.max(summary.max, attendance);
+    summary.trend.push({ date: match.Date, week: match.Wk, attendance, match: describeMatch(match) });
+    groups.set(name, summary);
+  });
+
+  return Array.from(groups.values())
+    .map(summary => ({
+      ...summary,
+      average: summary.trend.reduce((sum, point) => sum + point.attendance, 0) / summary.matches
+    }))
+    .sort((a, b) => b.average - a.average || a.name.localeCompare(b.name));
+};
+
+// Crowd summaries per stadium, best attended first
+export const computeAttendanceByVenue = (matches: MatchData[]): AttendanceSummary[] =>
+  summariseBy(matches, match => match.Venue);
+
+// Crowd summaries per home team, best attended first
+export const computeAttendanceByHomeTeam = (matches: MatchData[]): AttendanceSummary[] =>
+  summariseBy(matches, match => match.Home);
+
+// League average crowd per gameweek
+export const computeAttendanceTrend = (matches: MatchData[]): AttendanceWeek[] => {
+  const weeks = new Map<number, { total: number, matches: number }>();
+  withAttendance(matches).forEach(({ match, attendance }) => {
+    const entry = weeks.get(match.Wk) || { total: 0, matches: 0 };
+    entry.total += attendance;
+    entry.matches += 1;
+    weeks.set(match.Wk, entry);
+  });
+
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([week, entry]) => ({ week, average: entry.total / entry.matches, matches: entry.matches }));
+};
+
+const outcomeOf = (match: MatchData): MatchOutcome => {
+  const { homeGoals, awayGoals } = parseScore(match.Score);
+  return homeGoals > awayGoals ? 'Home win' : homeGoals < awayGoals ? 'Away win' : 'Draw';
+};
+
+// Every attended match with its goals and result
+export const computeAttendancePoints = (matches: MatchData[]): AttendancePoint[] =>
+  withAttendance(matches).map(({ match, attendance }) => {
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    return {
+      match: describeMatch(match),
+      date: match.Date,
+      attendance,
+      goals: homeGoals + awayGoals,
+      outcome: outcomeOf(match)
+    };
+  });
+
+// Average crowd by result, in MATCH_OUTCOMES order (outcomes with no matches are left out)
+export const computeAttendanceByOutcome = (matches: MatchData[]): AttendanceByOutcome[] => {
+  const points = computeAttendancePoints(matches);
+  return MATCH_OUTCOMES
+    .map(outcome => {
+      const crowds = points.filter(point => point.outcome === outcome).map(point => point.attendance);
+      return {
+        outcome,
+        matches: crowds.length,
+        average: crowds.length > 0 ? crowds.reduce((sum, crowd) => sum + crowd, 0) / crowds.length : 0
+      };
+    })
+    .filter(entry => entry.matches > 0);
+};
@@ -0,0 +1,26 @@
+import { defaultData } from '../data/defaultData';
+import { computeTeamComparison, computeTeamProfile } from './comparison';
+
+describe('computeTeamProfile', () => {
+  it('summarises a team\'s season', () => {
+    const profile = computeTeamProfile(defaultData, 'Liverpool');
+    expect(profile).toMatchObject({
+      played: 2, points: 3, ppg: 1.5, goalsFor: 3, goalsAgainst: 2, cleanSheets: 1, homePpg: 0, awayPpg: 1.5, form: ['W', 'L']
+    });
+    expect(profile.xGPerMatch).toBeCloseTo(1.9);
+    expect(profile.xGAPerMatch).toBeCloseTo(1.15);
+  });
+
+  it('is empty for a team without results', () => {
+    expect(computeTeamProfile(defaultData, 'Arsenal')).toMatchObject({ played: 0, ppg: 0, xGPerMatch: 0, form: [] });
+  });
+});
+
+describe('computeTeamComparison', () => {
+  it('pairs both profiles with their meetings', () => {
+    const comparison = computeTeamComparison(defaultData, defaultData, 'Manchester Utd', 'Liverpool');
+    expect(comparison.teams.map(profile => profile.ppg)).toEqual([3, 1.5]);
+    expect(comparison.headToHead).toMatchObject({ wins: 1, draws: 0, losses: 0, goalsFor: 2, goalsAgainst: 1 });
+    expect(comparison.headToHead.meetings).toHaveLength(1);
+  });
+});
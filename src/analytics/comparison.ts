@@ -0,0 +1,67 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { HeadToHeadRecord, computeHeadToHead } from './matchDetail';
+import { FORM_LENGTH, FormResult } from './standings';
+import { byDate, involvesTeam, toTeamPerspective } from './scores';
+import { computeHomeAwaySplit } from './venue';
+
+// One team's season at a glance, for side-by-side comparison
+export interface TeamProfile {
+  team: string;
+  played: number;
+  points: number;
+  ppg: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  xGPerMatch: number;
+  xGAPerMatch: number;
+  cleanSheets: number;
+  homePpg: number;
+  awayPpg: number;
+  // Most recent results last, at most FORM_LENGTH entries
+  form: FormResult[];
+}
+
+export interface TeamComparison {
+  teams: [TeamProfile, TeamProfile];
+  // Meetings from the first team's side
+  headToHead: HeadToHeadRecord;
+}
+
+export const computeTeamProfile = (matches: MatchData[], team: string): TeamProfile => {
+  const played = matches.filter(match => isPlayed(match) && involvesTeam(match, team)).sort(byDate);
+  const perspectives = played.map(match => toTeamPerspective(match, team));
+  const withXg = perspectives.filter(p => Number.isFinite(p.xG) && Number.isFinite(p.xGA));
+  const split = computeHomeAwaySplit(matches, team);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const points = sum(perspectives.map(p => p.points));
+
+  return {
+    team,
+    played: perspectives.length,
+    points,
+    ppg: perspectives.length > 0 ? points / perspectives.length : 0,
+    goalsFor: sum(perspectives.map(p => p.goalsFor)),
+    goalsAgainst: sum(perspectives.map(p => p.goalsAgainst)),
+    xGPerMatch: withXg.length > 0 ? sum(withXg.map(p => p.xG)) / withXg.length : 0,
+    xGAPerMatch: withXg.length > 0 ? sum(withXg.map(p => p.xGA)) / withXg.length : 0,
+    cleanSheets: perspectives.filter(p => p.goalsAgainst === 0).length,
+    homePpg: split.home.ppg,
+    awayPpg: split.away.ppg,
+    form: perspectives
+      .slice(-FORM_LENGTH)
+      .map(p => (p.result === 'Win' ? 'W' : p.result === 'Draw' ? 'D' : 'L'))
+  };
+};
+
+// Two teams' profiles from the season in scope, and their meetings across every
+// loaded season
+export const computeTeamComparison = (
+  matches: MatchData[],
+  history: MatchData[],
+  team: string,
+  opponent: string
+): TeamComparison => ({
+  teams: [computeTeamProfile(matches, team), computeTeamProfile(matches, opponent)],
+  headToHead: computeHeadToHead(history, team, opponent)
+});
@@ -0,0 +1,58 @@
+import { defaultData } from '../data/defaultData';
+import { DATASET_CATALOG, DatasetContext, buildDataset, datasetToCsv, datasetToJson } from './datasets';
+
+const context: DatasetContext = { matches: defaultData, team: 'Liverpool', compareTeam: 'Fulham', venue: 'all' };
+
+describe('DATASET_CATALOG', () => {
+  it('produces rows with exactly the documented columns', () => {
+    DATASET_CATALOG.forEach(definition => {
+      const { rows } = buildDataset(definition.id, context);
+      expect(rows.length).toBeGreaterThan(0);
+      rows.forEach(row => expect(Object.keys(row)).toEqual(definition.columns.map(col => col.name)));
+    });
+  });
+});
+
+describe('buildDataset', () => {
+  it('exports unplayed matches with empty scores and xG', () => {
+    const scheduled = { ...defaultData[0], Score: '', Status: 'scheduled' as const, Attendance: '' };
+    const [row] = buildDataset('matches', { ...context, matches: [scheduled] }).rows;
+    expect(row).toMatchObject({ home: 'Manchester Utd', home_goals: null, away_goals: null, home_xg: null, attendance: null });
+  });
+
+  it('lists the selected team\'s PPG series before the comparison team\'s', () => {
+    const rows = buildDataset('ppg', context).rows;
+    expect(rows.map(row => [row.team, row.match_number])).toEqual([
+      ['Liverpool', 1], ['Liverpool', 2], ['Fulham', 1], ['Fulham', 2]
+    ]);
+    expect(buildDataset('ppg', { ...context, team: undefined }).rows).toEqual([]);
+  });
+
+  it('writes the PPG score from the team\'s side', () => {
+    const [fulhamAway] = buildDataset('ppg', { ...context, compareTeam: undefined, team: 'Fulham' }).rows;
+    expect(fulhamAway).toMatchObject({ opponent: 'Manchester Utd', venue: 'Away', score: '0–1', result: 'Loss' });
+  });
+
+  it('follows the table week', () => {
+    const rows = buildDataset('standings', { ...context, tableWeek: 1 }).rows;
+    expect(rows.every(row => row.played === 1 || row.played === 0)).toBe(true);
+  });
+});
+
+describe('datasetToCsv', () => {
+  it('writes the header in schema order and nulls as empty cells', () => {
+    const scheduled = { ...defaultData[0], Score: '', Status: 'scheduled' as const };
+    const csv = datasetToCsv(buildDataset('matches', { ...context, matches: [scheduled] }));
+    expect(csv.split('\r\n')[0]).toBe('week,date,time,home,away,status,home_goals,away_goals,home_xg,away_xg,attendance,venue,referee');
+    expect(csv.split('\r\n')[1]).toBe('1,2024-08-16,20:00,Manchester Utd,Fulham,scheduled,,,,,73297,Old Trafford,Robert Jones');
+  });
+});
+
+describe('datasetToJson', () => {
+  it('carries the schema version, filters and columns with the rows', () => {
+    const json = JSON.parse(datasetToJson(buildDataset('team-goals', context), { season: '2024-25' }, new Date('2024-09-01T00:00:00Z')));
+    expect(json).toMatchObject({ schemaVersion: 1, dataset: 'team-goals', generatedAt: '2024-09-01T00:00:00.000Z', filters: { season: '2024-25' } });
+    expect(json.columns.map((col: { name: string }) => col.name)).toEqual(['team', 'goals_per_match']);
+    expect(json.rows[0]).toEqual({ team: expect.any(String), goals_per_match: expect.any(Number) });
+  });
+});
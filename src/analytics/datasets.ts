@@ -0,0 +1,253 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { formatCsv } from '../utils/csv';
+import { computeMatchOutcomes, computeTeamGoals, computeTeamXgStats } from './aggregates';
+import { computePpgSeries } from './ppg';
+import { parseAttendance, parseScore } from './scores';
+import { computeStandings } from './standings';
+import { VenueFilter } from './venue';
+
+// Bumped whenever a column is renamed, removed or changes meaning. Adding a
+// column or a dataset keeps the version.
+export const DATASET_SCHEMA_VERSION = 1;
+
+export type DatasetId = 'matches' | 'standings' | 'team-goals' | 'team-xg' | 'ppg' | 'outcomes';
+
+export type DatasetColumnType = 'string' | 'integer' | 'number' | 'date';
+
+export interface DatasetColumn {
+  name: string;
+  type: DatasetColumnType;
+  description: string;
+}
+
+// One exported row, keyed by column name. Missing values (no xG, no crowd, an
+// unplayed match) are null.
+export type DatasetRow = Record<string, string | number | null>;
+
+// What the datasets are computed from: the dashboard's current scope
+export interface DatasetContext {
+  // Every fixture in scope (after the range and referee filters), played or not
+  matches: MatchData[];
+  // Selected team; the PPG dataset is empty and outcomes are league-wide without one
+  team?: string;
+  compareTeam?: string;
+  venue: VenueFilter;
+  // Standings as they stood after this gameweek; latest when omitted
+  tableWeek?: number;
+}
+
+export interface DatasetDefinition {
+  id: DatasetId;
+  label: string;
+  description: string;
+  columns: DatasetColumn[];
+  rows: (context: DatasetContext) => DatasetRow[];
+}
+
+export interface Dataset {
+  definition: DatasetDefinition;
+  rows: DatasetRow[];
+}
+
+const finiteOrNull = (value: number): number | null => (Number.isFinite(value) ? value : null);
+
+const column = (name: string, type: DatasetColumnType, description: string): DatasetColumn => ({ name, type, description });
+
+// PPG series for the selected team, followed by the comparison team's
+const ppgTeams = (context: DatasetContext): string[] => {
+  if (!context.team) return [];
+  return context.compareTeam && context.compareTeam !== context.team ? [context.team, context.compareTeam] : [context.team];
+};
+
+export const DATASET_CATALOG: DatasetDefinition[] = [
+  {
+    id: 'matches',
+    label: 'Matches',
+    description: 'Every fixture in scope, played or not',
+    columns: [
+      column('week', 'integer', 'Gameweek'),
+      column('date', 'date', 'Match date as loaded (YYYY-MM-DD for FBref data)'),
+      column('time', 'string', 'Kick-off time as in the source'),
+      column('home', 'string', 'Home team'),
+      column('away', 'string', 'Away team'),
+      column('status', 'string', 'played, live, scheduled, postponed or abandoned'),
+      column('home_goals', 'integer', 'Home goals; null unless played'),
+      column('away_goals', 'integer', 'Away goals; null unless played'),
+      column('home_xg', 'number', 'Home expected goals; null when missing'),
+      column('away_xg', 'number', 'Away expected goals; null when missing'),
+      column('attendance', 'integer', 'Crowd; null when not recorded'),
+      column('venue', 'string', 'Stadium'),
+      column('referee', 'string', 'Referee')
+    ],
+    rows: context => context.matches.map(match => {
+      const played = isPlayed(match);
+      const { homeGoals, awayGoals } = parseScore(match.Score);
+      return {
+        week: match.Wk,
+        date: match.Date,
+        time: match.Time,
+        home: match.Home,
+        away: match.Away,
+        status: match.Status,
+        home_goals: played ? homeGoals : null,
+        away_goals: played ? awayGoals : null,
+        home_xg: played ? finiteOrNull(match.xG) : null,
+        away_xg: played ? finiteOrNull(match.xG_away) : null,
+        attendance: finiteOrNull(parseAttendance(match.Attendance)),
+        venue: match.Venue,
+        referee: match.Referee
+      };
+    })
+  },
+  {
+    id: 'standings',
+    label: 'League table',
+    description: 'Standings in table order, after the chosen gameweek',
+    columns: [
+      column('position', 'integer', 'League position'),
+      column('team', 'string', 'Team'),
+      column('played', 'integer', 'Matches played'),
+      column('won', 'integer', 'Wins'),
+      column('drawn', 'integer', 'Draws'),
+      column('lost', 'integer', 'Losses'),
+      column('goals_for', 'integer', 'Goals scored'),
+      column('goals_against', 'integer', 'Goals conceded'),
+      column('goal_difference', 'integer', 'Goals scored minus conceded'),
+      column('points', 'integer', 'Points'),
+      column('xpts', 'number', 'Expected points from each match\'s xG'),
+      column('form', 'string', 'Last five results, oldest first, e.g. "WDLWW"')
+    ],
+    rows: context => computeStandings(context.matches, context.tableWeek).map(row => ({
+      position: row.position,
+      team: row.team,
+      played: row.played,
+      won: row.won,
+      drawn: row.drawn,
+      lost: row.lost,
+      goals_for: row.goalsFor,
+      goals_against: row.goalsAgainst,
+      goal_difference: row.goalDifference,
+      points: row.points,
+      xpts: row.xPts,
+      form: row.form.join('')
+    }))
+  },
+  {
+    id: 'team-goals',
+    label: 'Goals per match',
+    description: 'Goals per match for every team (venue filter applied)',
+    columns: [
+      column('team', 'string', 'Team'),
+      column('goals_per_match', 'number', 'Goals scored per played match')
+    ],
+    rows: context => computeTeamGoals(context.matches.filter(isPlayed), context.venue).map(t => ({
+      team: t.team,
+      goals_per_match: t.goalsPerMatch
+    }))
+  },
+  {
+    id: 'team-xg',
+    label: 'xG vs xGA',
+    description: 'Per-team xG, xGA and goal averages, as in the scatter plot (venue filter applied)',
+    columns: [
+      column('team', 'string', 'Team'),
+      column('matches', 'integer', 'Played matches counted'),
+      column('xg_per_match', 'number', 'Expected goals for per match'),
+      column('xga_per_match', 'number', 'Expected goals against per match'),
+      column('goals_per_match', 'number', 'Goals scored per match'),
+      column('conceded_per_match', 'number', 'Goals conceded per match'),
+      column('goal_diff_per_match', 'number', 'Goals scored minus conceded, per match')
+    ],
+    rows: context => computeTeamXgStats(context.matches.filter(isPlayed), context.venue).map(t => ({
+      team: t.team,
+      matches: t.matches,
+      xg_per_match: t.xG,
+      xga_per_match: t.xGA,
+      goals_per_match: t.goalsPerMatch,
+      conceded_per_match: t.concededPerMatch,
+      goal_diff_per_match: t.goalDiff
+    }))
+  },
+  {
+    id: 'ppg',
+    label: 'Points per game',
+    description: 'Cumulative PPG and xPPG after each match of the selected (and comparison) team',
+    columns: [
+      column('team', 'string', 'Team'),
+      column('match_number', 'integer', 'The team\'s nth match in scope'),
+      column('date', 'date', 'Match date as loaded (YYYY-MM-DD for FBref data)'),
+      column('opponent', 'string', 'Opponent'),
+      column('venue', 'string', 'Home or Away'),
+      column('score', 'string', 'Score from the team\'s side, e.g. "2–1"'),
+      column('result', 'string', 'Win, Draw or Loss'),
+      column('points', 'integer', 'Cumulative points'),
+      column('ppg', 'number', 'Cumulative points per game'),
+      column('xpts', 'number', 'Cumulative expected points'),
+      column('xppg', 'number', 'Cumulative expected points per game')
+    ],
+    rows: context => ppgTeams(context).flatMap(team =>
+      computePpgSeries(context.matches.filter(isPlayed), team, context.venue).map(point => ({
+        team: point.team,
+        match_number: point.matches,
+        date: point.date,
+        opponent: point.opponent,
+        venue: point.venue,
+        score: point.score,
+        result: point.result,
+        points: point.points,
+        ppg: point.ppg,
+        xpts: point.xPts,
+        xppg: point.xPpg
+      }))
+    )
+  },
+  {
+    id: 'outcomes',
+    label: 'Match outcomes',
+    description: 'Home win / draw / away win split, or the selected team\'s wins, draws and losses',
+    columns: [
+      column('outcome', 'string', 'Outcome label'),
+      column('matches', 'integer', 'Matches with this outcome'),
+      column('percentage', 'number', 'Share of played matches, 0–100')
+    ],
+    rows: context => {
+      const outcomes = computeMatchOutcomes(context.matches.filter(isPlayed), context.team || undefined, context.venue);
+      return outcomes.labels.map((label, idx) => ({
+        outcome: label,
+        matches: outcomes.counts[idx],
+        percentage: outcomes.percentages[idx]
+      }));
+    }
+  }
+];
+
+export const getDatasetDefinition = (id: DatasetId): DatasetDefinition =>
+  DATASET_CATALOG.find(definition => definition.id === id)!;
+
+export const buildDataset = (id: DatasetId, context: DatasetContext): Dataset => {
+  const definition = getDatasetDefinition(id);
+  return { definition, rows: definition.rows(context) };
+};
+
+// Header row plus one line per row, columns in schema order; nulls are empty cells
+export const datasetToCsv = (dataset: Dataset): string =>
+  formatCsv(
+    dataset.definition.columns.map(col => col.name),
+    dataset.rows.map(row => dataset.definition.columns.map(col => row[col.name] ?? ''))
+  );
+
+// Self-describing JSON: schema version, the filters in effect, column schema and rows
+export const datasetToJson = (
+  dataset: Dataset,
+  filters: Record<string, string>,
+  generatedAt: Date = new Date()
+): string =>
+  JSON.stringify({
+    schemaVersion: DATASET_SCHEMA_VERSION,
+    dataset: dataset.definition.id,
+    generatedAt: generatedAt.toISOString(),
+    filters,
+    columns: dataset.definition.columns,
+    rows: dataset.rows
+  }, null, 2);
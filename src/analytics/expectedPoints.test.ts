@@ -0,0 +1,40 @@
+import { defaultData } from '../data/defaultData';
+import { computeTeamExpectedPoints, expectedPoints, matchExpectedPoints, outcomeProbabilities } from './expectedPoints';
+
+describe('outcomeProbabilities', () => {
+  it('sums to one', () => {
+    const { win, draw, loss } = outcomeProbabilities(1.8, 0.9);
+    expect(win + draw + loss).toBeCloseTo(1, 10);
+    expect(win).toBeGreaterThan(loss);
+  });
+
+  it('is symmetric for equal xG', () => {
+    const { win, loss } = outcomeProbabilities(1.2, 1.2);
+    expect(win).toBeCloseTo(loss, 10);
+  });
+
+  it('is a certain draw when neither side creates anything', () => {
+    expect(outcomeProbabilities(0, 0)).toEqual({ win: 0, draw: 1, loss: 0 });
+  });
+});
+
+describe('expectedPoints', () => {
+  it('stays between zero and three', () => {
+    expect(expectedPoints(4, 0.1)).toBeLessThan(3);
+    expect(expectedPoints(4, 0.1)).toBeGreaterThan(2.5);
+    expect(expectedPoints(0.1, 4)).toBeGreaterThan(0);
+  });
+
+  it('is null for a match without xG', () => {
+    expect(matchExpectedPoints({ ...defaultData[0], xG: NaN })).toBeNull();
+  });
+});
+
+describe('computeTeamExpectedPoints', () => {
+  it('puts the biggest over-performer first', () => {
+    const rows = computeTeamExpectedPoints(defaultData);
+    expect(rows[0].team).toBe('Newcastle Utd');
+    expect(rows[0].points).toBe(4);
+    expect(rows[0].performance).toBeCloseTo(rows[0].points - rows[0].xPts);
+  });
+});
@@ -0,0 +1,105 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { parseScore } from './scores';
+
+// Expected points from a match's xG pair, treating each side's goals as an
+// independent Poisson variable with mean equal to its xG
+
+export interface OutcomeProbabilities {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
+// Goals beyond this are negligible for realistic xG values
+const MAX_GOALS = 10;
+
+const poissonDistribution = (lambda: number): number[] => {
+  const probabilities: number[] = [];
+  let p = Math.exp(-lambda);
+  for (let k = 0; k <= MAX_GOALS; k++) {
+    probabilities.push(p);
+    p = (p * lambda) / (k + 1);
+  }
+  return probabilities;
+};
+
+// Win/draw/loss probabilities from the point of view of the side with xgFor
+export const outcomeProbabilities = (xgFor: number, xgAgainst: number): OutcomeProbabilities => {
+  const forDist = poissonDistribution(Math.max(0, xgFor));
+  const againstDist = poissonDistribution(Math.max(0, xgAgainst));
+  let win = 0;
+  let draw = 0;
+  let loss = 0;
+
+  forDist.forEach((pFor, goalsFor) => {
+    againstDist.forEach((pAgainst, goalsAgainst) => {
+      const p = pFor * pAgainst;
+      if (goalsFor > goalsAgainst) win += p;
+      else if (goalsFor === goalsAgainst) draw += p;
+      else loss += p;
+    });
+  });
+
+  // Normalise away the probability mass truncated at MAX_GOALS
+  const total = win + draw + loss;
+  return { win: win / total, draw: draw / total, loss: loss / total };
+};
+
+// Expected league points for one match
+export const expectedPoints = (xgFor: number, xgAgainst: number): number => {
+  const { win, draw } = outcomeProbabilities(xgFor, xgAgainst);
+  return win * 3 + draw;
+};
+
+// Expected points for both sides of a played match, or null when xG is missing
+export const matchExpectedPoints = (match: MatchData): { home: number, away: number } | null => {
+  if (!Number.isFinite(match.xG) || !Number.isFinite(match.xG_away)) return null;
+  return {
+    home: expectedPoints(match.xG, match.xG_away),
+    away: expectedPoints(match.xG_away, match.xG)
+  };
+};
+
+// Actual vs expected points for one team
+export interface TeamExpectedPoints {
+  team: string;
+  matches: number;
+  points: number;
+  xPts: number;
+  // Points above (positive) or below (negative) what the xG deserved
+  performance: number;
+}
+
+// Actual and expected points per team, best over-performers first.
+// Matches without xG are skipped entirely so both totals cover the same games.
+export const computeTeamExpectedPoints = (matches: MatchData[]): TeamExpectedPoints[] => {
+  const totals = new Map<string, { matches: number, points: number, xPts: number }>();
+  const add = (team: string, points: number, xPts: number) => {
+    const entry = totals.get(team) || { matches: 0, points: 0, xPts: 0 };
+    entry.matches += 1;
+    entry.points += points;
+    entry.xPts += xPts;
+    totals.set(team, entry);
+  };
+
+  matches.filter(isPlayed).forEach(match => {
+    const xPts = matchExpectedPoints(match);
+    if (!xPts) return;
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    const homePoints = homeGoals > awayGoals ? 3 : homeGoals === awayGoals ? 1 : 0;
+    const awayPoints = awayGoals > homeGoals ? 3 : homeGoals === awayGoals ? 1 : 0;
+    add(match.Home, homePoints, xPts.home);
+    add(match.Away, awayPoints, xPts.away);
+  });
+
+  return Array.from(totals.entries())
+    .map(([team, entry]) => ({
+      team,
+      matches: entry.matches,
+      points: entry.points,
+      xPts: entry.xPts,
+      performance: entry.points - entry.xPts
+    }))
+    .sort((a, b) => b.performance - a.performance);
+};
@@ -0,0 +1,115 @@
+import { defaultData } from '../data/defaultData';
+import { GoalEvent } from '../types';
+import {
+  computeFirstGoalTime,
+  computeGameStates,
+  computeGoalBuckets,
+  computeScorelineTimeline,
+  eventsForMatch,
+  indexGoalEvents
+} from './goalEvents';
+
+const goal = (home: string, away: string, team: string, minute: number, addedTime = 0): GoalEvent => ({
+  Date: '',
+  Home: home,
+  Away: away,
+  Team: team,
+  Minute: minute,
+  AddedTime: addedTime,
+  Player: '',
+  OwnGoal: false
+});
+
+// Goals for every match with goals in the sample data
+const EVENTS: GoalEvent[] = [
+  goal('Manchester Utd', 'Fulham', 'Manchester Utd', 87),
+  goal('Ipswich Town', 'Liverpool', 'Liverpool', 60),
+  goal('Ipswich Town', 'Liverpool', 'Liverpool', 65),
+  goal('Newcastle Utd', 'Southampton', 'Newcastle Utd', 45, 2),
+  goal('Everton', 'Brighton', 'Brighton', 25),
+  goal('Everton', 'Brighton', 'Brighton', 56),
+  goal('Everton', 'Brighton', 'Brighton', 86),
+  // Liverpool lead, then lose
+  goal('Manchester Utd', 'Liverpool', 'Manchester Utd', 70),
+  goal('Manchester Utd', 'Liverpool', 'Liverpool', 10),
+  goal('Manchester Utd', 'Liverpool', 'Manchester Utd', 90, 3),
+  goal('Fulham', 'Newcastle Utd', 'Newcastle Utd', 30),
+  goal('Fulham', 'Newcastle Utd', 'Fulham', 80)
+];
+
+const index = indexGoalEvents(defaultData, EVENTS);
+const unitedLiverpool = defaultData.find(m => m.Home === 'Manchester Utd' && m.Away === 'Liverpool')!;
+
+describe('indexGoalEvents', () => {
+  it('keys events to fixtures in match-time order', () => {
+    const events = eventsForMatch(index, unitedLiverpool)!;
+    expect(events.map(e => e.Minute)).toEqual([10, 70, 90]);
+    expect(index.unmatched).toEqual([]);
+    expect(index.inconsistent).toEqual([]);
+  });
+
+  it('sets aside events for unknown fixtures or another date', () => {
+    const other = indexGoalEvents(defaultData, [
+      goal('Arsenal', 'Chelsea', 'Arsenal', 5),
+      { ...goal('Manchester Utd', 'Fulham', 'Manchester Utd', 87), Date: '2025-01-01' }
+    ]);
+    expect(other.unmatched).toHaveLength(2);
+  });
+
+  it('treats goalless draws as covered and matches without events as not', () => {
+    const partial = indexGoalEvents(defaultData, EVENTS.slice(1));
+    expect(eventsForMatch(partial, defaultData[0])).toBeNull();
+    expect(eventsForMatch(partial, unitedLiverpool)).toHaveLength(3);
+    const goalless = { ...defaultData[0], Score: '0–0' };
+    expect(eventsForMatch(partial, goalless)).toEqual([]);
+  });
+
+  it('leaves out fixtures whose events do not add up to the score', () => {
+    const wrong = indexGoalEvents(defaultData, [...EVENTS, goal('Manchester Utd', 'Fulham', 'Fulham', 5)]);
+    expect(wrong.inconsistent.map(m => `${m.Home}|${m.Away}`)).toEqual(['Manchester Utd|Fulham']);
+    expect(eventsForMatch(wrong, wrong.inconsistent[0])).toBeNull();
+  });
+});
+
+describe('computeFirstGoalTime', () => {
+  it('averages the first goal of every covered match', () => {
+    // 87, 60, 47, 25, 10, 30
+    const { average, matches } = computeFirstGoalTime(defaultData, index);
+    expect(average).toBeCloseTo(259 / 6);
+    expect(matches).toBe(6);
+  });
+
+  it("uses the team's own first goal", () => {
+    // 60 and 10
+    expect(computeFirstGoalTime(defaultData, index, 'Liverpool')).toEqual({ average: 35, matches: 2 });
+  });
+});
+
+describe('computeGameStates', () => {
+  it('counts points dropped from winning and won from losing positions', () => {
+    const records = computeGameStates(defaultData, index);
+    expect(records[0]).toMatchObject({ team: 'Liverpool', led: 2, pointsDroppedFromWinning: 3 });
+    expect(records.find(r => r.team === 'Manchester Utd')).toMatchObject({ trailed: 1, pointsWonFromLosing: 3 });
+    expect(records.find(r => r.team === 'Fulham')).toMatchObject({ trailed: 2, pointsWonFromLosing: 1 });
+  });
+});
+
+describe('computeGoalBuckets', () => {
+  it('splits home and away goals into 15-minute buckets', () => {
+    const buckets = computeGoalBuckets(defaultData, index);
+    expect(buckets.series[0]).toEqual({ name: 'Home goals', counts: [0, 0, 1, 0, 1, 3] });
+    expect(buckets.series[1]).toEqual({ name: 'Away goals', counts: [1, 2, 0, 2, 1, 1] });
+  });
+
+  it('splits scored and conceded for a team', () => {
+    const buckets = computeGoalBuckets(defaultData, index, 'Manchester Utd');
+    expect(buckets.series.map(s => s.counts)).toEqual([[0, 0, 0, 0, 1, 2], [1, 0, 0, 0, 0, 0]]);
+  });
+});
+
+describe('computeScorelineTimeline', () => {
+  it('tracks the running score', () => {
+    const steps = computeScorelineTimeline(unitedLiverpool, eventsForMatch(index, unitedLiverpool)!);
+    expect(steps.map(s => `${s.minute} ${s.homeGoals}-${s.awayGoals}`)).toEqual(["10' 0-1", "70' 1-1", "90+3' 2-1"]);
+  });
+});
@@ -0,0 +1,219 @@
+import { GoalEvent, MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { getResult, involvesTeam, parseScore, pointsForResult } from './scores';
+
+// Goal events matched to the fixtures of a season
+export interface GoalEventIndex {
+  // Events per fixture, in match-time order
+  byFixture: Map<string, GoalEvent[]>;
+  // Events that don't belong to any fixture in the season
+  unmatched: GoalEvent[];
+  // Played fixtures whose events don't add up to the final score (left out of the analysis)
+  inconsistent: MatchData[];
+}
+
+// One step of a match's scoreline
+export interface ScorelineStep {
+  minute: string;
+  team: string;
+  player: string;
+  ownGoal: boolean;
+  homeGoals: number;
+  awayGoals: number;
+}
+
+// How often a team turned a winning position into fewer points, and the reverse
+export interface GameStateRecord {
+  team: string;
+  // Matches with goal events for this team
+  matches: number;
+  led: number;
+  pointsDroppedFromWinning: number;
+  trailed: number;
+  pointsWonFromLosing: number;
+}
+
+export interface GoalBuckets {
+  labels: string[];
+  series: { name: string, counts: number[] }[];
+}
+
+export const GOAL_BUCKET_LABELS = ['1–15', '16–30', '31–45+', '46–60', '61–75', '76–90+'];
+
+// Fixtures are keyed by home and away team, which is unique within a season
+export const fixtureKey = (home: string, away: string): string => `${home}|${away}`;
+
+// Sort key that puts 45+2 after 45 but before 46
+const eventTime = (event: GoalEvent): number => event.Minute + Math.min(event.AddedTime, 99) / 100;
+
+export const formatMinute = (event: GoalEvent): string =>
+  event.AddedTime > 0 ? `${event.Minute}+${event.AddedTime}'` : `${event.Minute}'`;
+
+// 15-minute bucket for a goal; first-half stoppage time stays in the 31–45 bucket
+export const goalBucket = (event: GoalEvent): number =>
+  Math.min(GOAL_BUCKET_LABELS.length - 1, Math.max(0, Math.ceil(event.Minute / 15) - 1));
+
+const sameDay = (a: string, b: string): boolean => {
+  const dayA = new Date(a).getTime();
+  const dayB = new Date(b).getTime();
+  return Number.isNaN(dayA) || Number.isNaN(dayB) || dayA === dayB;
+};
+
+// Match goal events to the season's fixtures and check them against the scores
+export const indexGoalEvents = (matches: MatchData[], events: GoalEvent[]): GoalEventIndex => {
+  const fixtures = new Map(matches.map(match => [fixtureKey(match.Home, match.Away), match]));
+  const byFixture = new Map<string, GoalEvent[]>();
+  const unmatched: GoalEvent[] = [];
+
+  events.forEach(event => {
+    const key = fixtureKey(event.Home, event.Away);
+    const fixture = fixtures.get(key);
+    if (!fixture || (event.Date !== '' && !sameDay(event.Date, fixture.Date))) {
+      unmatched.push(event);
+      return;
+    }
+    byFixture.set(key, [...(byFixture.get(key) || []), event]);
+  });
+  byFixture.forEach(list => list.sort((a, b) => eventTime(a) - eventTime(b)));
+
+  const inconsistent = matches.filter(match => {
+    const list = byFixture.get(fixtureKey(match.Home, match.Away));
+    if (!list || !isPlayed(match)) return false;
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    return list.filter(e => e.Team === match.Home).length !== homeGoals ||
+           list.filter(e => e.Team === match.Away).length !== awayGoals;
+  });
+  inconsistent.forEach(match => byFixture.delete(fixtureKey(match.Home, match.Away)));
+
+  return { byFixture, unmatched, inconsistent };
+};
+
+// A played match's goals in order, or null when the events don't cover it. A goalless
+// draw needs no events, so it always counts as covered.
+export const eventsForMatch = (index: GoalEventIndex, match: MatchData): GoalEvent[] | null => {
+  if (!isPlayed(match)) return null;
+  const events = index.byFixture.get(fixtureKey(match.Home, match.Away));
+  if (events) return events;
+  const { homeGoals, awayGoals } = parseScore(match.Score);
+  return homeGoals + awayGoals === 0 ? [] : null;
+};
+
+// Played matches the goal events cover, with their events
+const coveredMatches = (matches: MatchData[], index: GoalEventIndex) =>
+  matches
+    .map(match => ({ match, events: eventsForMatch(index, match) }))
+    .filter((entry): entry is { match: MatchData, events: GoalEvent[] } => entry.events !== null);
+
+// Whether the goal events cover any match that had goals
+export const hasGoalEventCoverage = (matches: MatchData[], index: GoalEventIndex): boolean =>
+  coveredMatches(matches, index).some(entry => entry.events.length > 0);
+
+// Average minute of the first goal in a match, or of the team's first goal when given one
+export const computeFirstGoalTime = (
+  matches: MatchData[],
+  index: GoalEventIndex,
+  team?: string
+): { average: number, matches: number } => {
+  const minutes = coveredMatches(matches, index)
+    .filter(entry => !team || involvesTeam(entry.match, team))
+    .map(entry => entry.events.find(event => !team || event.Team === team))
+    .filter((event): event is GoalEvent => !!event)
+    .map(event => event.Minute + event.AddedTime);
+
+  return {
+    average: minutes.length > 0 ? minutes.reduce((sum, minute) => sum + minute, 0) / minutes.length : NaN,
+    matches: minutes.length
+  };
+};
+
+// Points dropped from winning positions and won from losing positions, per team.
+// Teams that threw away the most points come first.
+export const computeGameStates = (matches: MatchData[], index: GoalEventIndex): GameStateRecord[] => {
+  const records = new Map<string, GameStateRecord>();
+  const record = (team: string) => {
+    const existing = records.get(team);
+    if (existing) return existing;
+    const created = { team, matches: 0, led: 0, pointsDroppedFromWinning: 0, trailed: 0, pointsWonFromLosing: 0 };
+    records.set(team, created);
+    return created;
+  };
+
+  coveredMatches(matches, index).forEach(({ match, events }) => {
+    // Whether each side was ever ahead at any point
+    let home = 0;
+    let away = 0;
+    let homeLed = false;
+    let awayLed = false;
+    events.forEach(event => {
+      if (event.Team === match.Home) home += 1;
+      else away += 1;
+      if (home > away) homeLed = true;
+      if (away > home) awayLed = true;
+    });
+
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    const sides = [
+      { team: match.Home, led: homeLed, trailed: awayLed, points: pointsForResult(getResult(homeGoals, awayGoals)) },
+      { team: match.Away, led: awayLed, trailed: homeLed, points: pointsForResult(getResult(awayGoals, homeGoals)) }
+    ];
+    sides.forEach(side => {
+      const entry = record(side.team);
+      entry.matches += 1;
+      if (side.led) {
+        entry.led += 1;
+        entry.pointsDroppedFromWinning += 3 - side.points;
+      }
+      if (side.trailed) {
+        entry.trailed += 1;
+        entry.pointsWonFromLosing += side.points;
+      }
+    });
+  });
+
+  return Array.from(records.values()).sort((a, b) =>
+    b.pointsDroppedFromWinning - a.pointsDroppedFromWinning ||
+    b.pointsWonFromLosing - a.pointsWonFromLosing ||
+    a.team.localeCompare(b.team)
+  );
+};
+
+// Goals per 15-minute bucket: home and away goals league-wide, or scored and
+// conceded for one team
+export const computeGoalBuckets = (matches: MatchData[], index: GoalEventIndex, team?: string): GoalBuckets => {
+  const first = new Array<number>(GOAL_BUCKET_LABELS.length).fill(0);
+  const second = new Array<number>(GOAL_BUCKET_LABELS.length).fill(0);
+
+  coveredMatches(matches, index)
+    .filter(entry => !team || involvesTeam(entry.match, team))
+    .forEach(({ match, events }) => {
+      events.forEach(event => {
+        const isFirst = team ? event.Team === team : event.Team === match.Home;
+        (isFirst ? first : second)[goalBucket(event)] += 1;
+      });
+    });
+
+  return {
+    labels: GOAL_BUCKET_LABELS,
+    series: team
+      ? [{ name: 'Scored', counts: first }, { name: 'Conceded', counts: second }]
+      : [{ name: 'Home goals', counts: first }, { name: 'Away goals', counts: second }]
+  };
+};
+
+// The running score after each goal of a match
+export const computeScorelineTimeline = (match: MatchData, events: GoalEvent[]): ScorelineStep[] => {
+  let homeGoals = 0;
+  let awayGoals = 0;
+  return events.map(event => {
+    if (event.Team === match.Home) homeGoals += 1;
+    else awayGoals += 1;
+    return {
+      minute: formatMinute(event),
+      team: event.Team,
+      player: event.Player,
+      ownGoal: event.OwnGoal,
+      homeGoals,
+      awayGoals
+    };
+  });
+};
@@ -0,0 +1,18 @@
+// Framework-free analytics engine: pure functions from MatchData[] to the
+// aggregates the dashboard charts and tables render
+export * from './scores';
+export * from './aggregates';
+export * from './ppg';
+export * from './standings';
+export * from './expectedPoints';
+export * from './venue';
+export * from './range';
+export * from './rolling';
+export * from './goalEvents';
+export * from './matchDetail';
+export * from './referees';
+export * from './attendance';
+export * from './comparison';
+export * from './kpis';
+export * from './datasets';
+export * from './live';
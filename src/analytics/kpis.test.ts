@@ -0,0 +1,54 @@
+import { defaultData } from '../data/defaultData';
+import { KPI_CATALOG, KpiId, computeKpiCards } from './kpis';
+
+const ALL_IDS = KPI_CATALOG.map(definition => definition.id);
+
+const card = (id: KpiId, team?: string) =>
+  computeKpiCards([id], { matches: defaultData, team })[0];
+
+describe('computeKpiCards', () => {
+  it('returns the chosen cards in the order asked for', () => {
+    const cards = computeKpiCards(['homeWinPct', 'avgGoals'], { matches: defaultData });
+    expect(cards.map(c => c.id)).toEqual(['homeWinPct', 'avgGoals']);
+  });
+
+  it('hides metrics the data cannot support', () => {
+    const noCrowds = defaultData.map(match => ({ ...match, Attendance: '' }));
+    const ids = computeKpiCards(ALL_IDS, { matches: noCrowds }).map(c => c.id);
+    expect(ids).not.toContain('avgAttendance');
+    expect(ids).toContain('avgGoals');
+  });
+
+  it('hides everything but the match count with no results', () => {
+    const scheduled = defaultData.map(match => ({ ...match, Score: '', Status: 'scheduled' as const }));
+    expect(computeKpiCards(ALL_IDS, { matches: scheduled }).map(c => c.id)).toEqual(['matchesAnalysed']);
+  });
+});
+
+describe('league cards', () => {
+  it('computes the league-wide figures', () => {
+    expect(card('avgGoals').value).toBe('2.0');
+    expect(card('homeWinPct').value).toBe('50%');
+    expect(card('cleanSheets').value).toBe('4');
+    expect(card('biggestWin')).toMatchObject({ value: '0–3', detail: 'Everton 0–3 Brighton' });
+    expect(card('avgAttendance').value).toBe('48,954');
+  });
+});
+
+describe('team cards', () => {
+  it('compare the team against the league', () => {
+    expect(card('homeWinPct', 'Manchester Utd')).toMatchObject({ value: '100%', leagueValue: '50%', trend: 1 });
+    expect(card('cleanSheets', 'Liverpool')).toMatchObject({ value: '1', detail: '50% of 2 matches', trend: 1 });
+  });
+
+  it('are dropped when the team has nothing to show', () => {
+    // Liverpool have only played away
+    expect(card('homeWinPct', 'Liverpool')).toBeUndefined();
+    expect(card('biggestWin', 'Everton')).toBeUndefined();
+  });
+
+  it('measure xG overperformance per match', () => {
+    // Newcastle: 2 goals from 0.3 + 1.5 xG in two matches
+    expect(card('xgOverperformance', 'Newcastle Utd').value).toBe('+0.10');
+  });
+});
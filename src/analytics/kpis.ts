@@ -0,0 +1,322 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { computeAverageGoals } from './aggregates';
+import { GoalEventIndex, computeFirstGoalTime, hasGoalEventCoverage } from './goalEvents';
+import { involvesTeam, parseAttendance, parseScore, toTeamPerspective } from './scores';
+
+export type KpiId =
+  | 'avgFirstGoalTime'
+  | 'matchesAnalysed'
+  | 'avgGoals'
+  | 'homeWinPct'
+  | 'cleanSheets'
+  | 'xgOverperformance'
+  | 'avgAttendance'
+  | 'biggestWin';
+
+// What a summary card is computed from
+export interface KpiContext {
+  // Every fixture in scope, played or not
+  matches: MatchData[];
+  // Team the cards focus on; league-wide when empty
+  team?: string;
+  // Goal events, when a goal event file has been loaded for the season
+  goalEvents?: GoalEventIndex;
+}
+
+// A computed summary card
+export interface KpiCard {
+  id: KpiId;
+  label: string;
+  value: string;
+  unit?: string;
+  // Secondary line, e.g. the match a record came from
+  detail?: string;
+  // The league figure for the same metric, when the card is about one team
+  leagueValue?: string;
+  // Team compared with the league in the metric's good direction: 1 better, -1 worse
+  trend?: 1 | 0 | -1;
+}
+
+export interface KpiDefinition {
+  id: KpiId;
+  label: string;
+  description: string;
+  // Whether the loaded data can back the metric at all (e.g. attendance figures)
+  isSupported: (context: KpiContext) => boolean;
+  // The card, or null when there is nothing meaningful to show (e.g. no home games yet)
+  compute: (context: KpiContext) => KpiCard | null;
+}
+
+export const DEFAULT_KPI_IDS: KpiId[] = ['avgFirstGoalTime', 'avgGoals', 'homeWinPct', 'matchesAnalysed'];
+
+const played = (context: KpiContext): MatchData[] => context.matches.filter(isPlayed);
+
+const teamMatches = (context: KpiContext): MatchData[] =>
+  played(context).filter(match => involvesTeam(match, context.team!));
+
+const hasXg = (match: MatchData): boolean => Number.isFinite(match.xG) && Number.isFinite(match.xG_away);
+
+const percent = (value: number): string => `${value.toFixed(0)}%`;
+const decimal = (value: number): string => value.toFixed(1);
+const signed = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const compare = (team: number, league: number): 1 | 0 | -1 => {
+  const diff = team - league;
+  return Math.abs(diff) < 1e-9 ? 0 : diff > 0 ? 1 : -1;
+};
+
+// Largest winning margin among matches (won by the given team, if any), with
+// total goals breaking ties
+const biggestWinIn = (matches: MatchData[], winner?: string): { match: MatchData, margin: number } | null => {
+  let best: MatchData | null = null;
+  let bestMargin = 0;
+  let bestGoals = 0;
+  for (const match of matches) {
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    const margin = winner
+      ? (match.Home === winner ? homeGoals - awayGoals : awayGoals - homeGoals)
+      : Math.abs(homeGoals - awayGoals);
+    const goals = homeGoals + awayGoals;
+    if (margin > bestMargin || (best && margin === bestMargin && goals > bestGoals)) {
+      best = match;
+      bestMargin = margin;
+      bestGoals = goals;
+    }
+  }
+  return best ? { match: best, margin: bestMargin } : null;
+};
+
+const describeMatch = (match: MatchData): string => `${match.Home} ${match.Score} ${match.Away}`;
+
+// Every summary card the dashboard can show
+export const KPI_CATALOG: KpiDefinition[] = [
+  {
+    id: 'avgFirstGoalTime',
+    label: 'Avg First Goal Time',
+    description: 'Minute of the first goal (the team\'s first goal when one is selected); needs goal events',
+    isSupported: context => !!context.goalEvents && hasGoalEventCoverage(played(context), context.goalEvents),
+    compute: context => {
+      const league = computeFirstGoalTime(played(context), context.goalEvents!);
+      if (league.matches === 0) return null;
+      if (!context.team) {
+        return {
+          id: 'avgFirstGoalTime',
+          label: 'Avg First Goal Time',
+          value: league.average.toFixed(0),
+          unit: 'mins',
+          detail: `${league.matches} matches`
+        };
+      }
+      const team = computeFirstGoalTime(played(context), context.goalEvents!, context.team);
+      if (team.matches === 0) return null;
+      return {
+        id: 'avgFirstGoalTime',
+        label: `${context.team} First Goal`,
+        value: team.average.toFixed(0),
+        unit: 'mins',
+        detail: `${team.matches} matches`,
+        leagueValue: `${league.average.toFixed(0)} mins`,
+        // Scoring earlier is better
+        trend: compare(league.average, team.average)
+      };
+    }
+  },
+  {
+    id: 'matchesAnalysed',
+    label: 'Total Matches Analysed',
+    description: 'Played matches in scope, out of all fixtures',
+    isSupported: () => true,
+    compute: context => {
+      const fixtures = context.team
+        ? context.matches.filter(match => involvesTeam(match, context.team!))
+        : context.matches;
+      const count = fixtures.filter(isPlayed).length;
+      return {
+        id: 'matchesAnalysed',
+        label: context.team ? `${context.team} Matches Analysed` : 'Total Matches Analysed',
+        value: String(count),
+        detail: fixtures.length > count ? `of ${fixtures.length} fixtures` : undefined
+      };
+    }
+  },
+  {
+    id: 'avgGoals',
+    label: 'Avg Goals Per Match',
+    description: 'Total goals per match (in the team\'s matches when one is selected)',
+    isSupported: context => played(context).length > 0,
+    compute: context => {
+      const league = computeAverageGoals(context.matches);
+      if (!context.team) {
+        return { id: 'avgGoals', label: 'Avg Goals Per Match', value: decimal(league) };
+      }
+      const matches = teamMatches(context);
+      if (matches.length === 0) return null;
+      return {
+        id: 'avgGoals',
+        label: 'Avg Goals Per Match',
+        value: decimal(computeAverageGoals(matches)),
+        detail: `In ${context.team} matches`,
+        leagueValue: decimal(league)
+      };
+    }
+  },
+  {
+    id: 'homeWinPct',
+    label: 'Home Win %',
+    description: 'Share of home matches won',
+    isSupported: context => played(context).length > 0,
+    compute: context => {
+      const winRate = (matches: MatchData[]) => {
+        const wins = matches.filter(match => {
+          const { homeGoals, awayGoals } = parseScore(match.Score);
+          return homeGoals > awayGoals;
+        }).length;
+        return (wins / matches.length) * 100;
+      };
+
+      const league = winRate(played(context));
+      if (!context.team) {
+        return { id: 'homeWinPct', label: 'Home Win %', value: percent(league) };
+      }
+      const home = played(context).filter(match => match.Home === context.team);
+      if (home.length === 0) return null;
+      const team = winRate(home);
+      return {
+        id: 'homeWinPct',
+        label: 'Home Win %',
+        value: percent(team),
+        detail: `${home.length} home matches`,
+        leagueValue: percent(league),
+        trend: compare(team, league)
+      };
+    }
+  },
+  {
+    id: 'cleanSheets',
+    label: 'Clean Sheets',
+    description: 'Matches without conceding',
+    isSupported: context => played(context).length > 0,
+    compute: context => {
+      const matches = played(context);
+      // Each match is two chances of a clean sheet, one per side
+      const leagueCount = matches.reduce((sum, match) => {
+        const { homeGoals, awayGoals } = parseScore(match.Score);
+        return sum + (homeGoals === 0 ? 1 : 0) + (awayGoals === 0 ? 1 : 0);
+      }, 0);
+      const leagueRate = (leagueCount / (matches.length * 2)) * 100;
+
+      if (!context.team) {
+        return {
+          id: 'cleanSheets',
+          label: 'Clean Sheets',
+          value: String(leagueCount),
+          detail: `${percent(leagueRate)} of team matches`
+        };
+      }
+      const games = teamMatches(context);
+      if (games.length === 0) return null;
+      const count = games.filter(match => toTeamPerspective(match, context.team!).goalsAgainst === 0).length;
+      const rate = (count / games.length) * 100;
+      return {
+        id: 'cleanSheets',
+        label: 'Clean Sheets',
+        value: String(count),
+        detail: `${percent(rate)} of ${games.length} matches`,
+        leagueValue: percent(leagueRate),
+        trend: compare(rate, leagueRate)
+      };
+    }
+  },
+  {
+    id: 'xgOverperformance',
+    label: 'xG Overperformance',
+    description: 'Goals minus xG per match',
+    isSupported: context => played(context).some(hasXg),
+    compute: context => {
+      const matches = played(context).filter(hasXg);
+      // Per team per match, so the team and league figures are comparable
+      const league = matches.reduce((sum, match) => {
+        const { homeGoals, awayGoals } = parseScore(match.Score);
+        return sum + homeGoals + awayGoals - match.xG - match.xG_away;
+      }, 0) / (matches.length * 2);
+
+      if (!context.team) {
+        return { id: 'xgOverperformance', label: 'xG Overperformance', value: signed(league), unit: 'per team per match' };
+      }
+      const games = matches.filter(match => involvesTeam(match, context.team!));
+      if (games.length === 0) return null;
+      const team = games.reduce((sum, match) => {
+        const perspective = toTeamPerspective(match, context.team!);
+        return sum + perspective.goalsFor - perspective.xG;
+      }, 0) / games.length;
+      return {
+        id: 'xgOverperformance',
+        label: 'xG Overperformance',
+        value: signed(team),
+        unit: 'per match',
+        leagueValue: signed(league),
+        trend: compare(team, league)
+      };
+    }
+  },
+  {
+    id: 'avgAttendance',
+    label: 'Average Attendance',
+    description: 'Crowd per match (home matches for a team)',
+    isSupported: context => played(context).some(match => Number.isFinite(parseAttendance(match.Attendance))),
+    compute: context => {
+      const average = (matches: MatchData[]) => {
+        const crowds = matches.map(match => parseAttendance(match.Attendance)).filter(Number.isFinite);
+        return crowds.length > 0 ? crowds.reduce((sum, crowd) => sum + crowd, 0) / crowds.length : NaN;
+      };
+      const format = (value: number) => Math.round(value).toLocaleString('en-GB');
+
+      const league = average(played(context));
+      if (!context.team) {
+        return { id: 'avgAttendance', label: 'Average Attendance', value: format(league) };
+      }
+      const team = average(played(context).filter(match => match.Home === context.team));
+      if (!Number.isFinite(team)) return null;
+      return {
+        id: 'avgAttendance',
+        label: 'Average Attendance',
+        value: format(team),
+        detail: 'At home',
+        leagueValue: format(league),
+        trend: compare(team, league)
+      };
+    }
+  },
+  {
+    id: 'biggestWin',
+    label: 'Biggest Win',
+    description: 'Largest winning margin',
+    isSupported: context => played(context).length > 0,
+    compute: context => {
+      const league = biggestWinIn(played(context));
+      if (!context.team) {
+        if (!league) return null;
+        return { id: 'biggestWin', label: 'Biggest Win', value: league.match.Score, detail: describeMatch(league.match) };
+      }
+      const team = biggestWinIn(teamMatches(context), context.team);
+      if (!team) return null;
+      return {
+        id: 'biggestWin',
+        label: `${context.team} Biggest Win`,
+        value: team.match.Score,
+        detail: describeMatch(team.match),
+        leagueValue: league ? league.match.Score : undefined,
+        trend: league ? compare(team.margin, league.margin) : undefined
+      };
+    }
+  }
+];
+
+// Compute the chosen cards in order, dropping any the data can't support
+export const computeKpiCards = (ids: KpiId[], context: KpiContext): KpiCard[] =>
+  ids
+    .map(id => KPI_CATALOG.find(definition => definition.id === id))
+    .filter((definition): definition is KpiDefinition => !!definition && definition.isSupported(context))
+    .map(definition => definition.compute(context))
+    .filter((card): card is KpiCard => card !== null);
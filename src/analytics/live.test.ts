@@ -0,0 +1,37 @@
+import { MatchData } from '../types';
+import { defaultData } from '../data/defaultData';
+import { computeLiveTable } from './live';
+
+const liveMatch = (Home: string, Score: string, Away: string, Minute?: number): MatchData => ({
+  Wk: 3, Day: 'Sat', Date: '2024-08-31', Time: '15:00', Home, xG: 1.9, Score, xG_away: 0.3, Away,
+  Attendance: '', Venue: '', Referee: '', Status: 'live', Minute
+});
+
+describe('computeLiveTable', () => {
+  it('counts live matches at their current score and reports position changes', () => {
+    const table = computeLiveTable([...defaultData, liveMatch('Everton', '3–0', 'Ipswich Town', 67)]);
+
+    expect(table.map(row => row.team)).toEqual([
+      'Manchester Utd', 'Newcastle Utd', 'Brighton', 'Liverpool', 'Everton', 'Fulham', 'Southampton', 'Ipswich Town'
+    ]);
+    expect(table.find(row => row.team === 'Everton')).toMatchObject({
+      position: 5, previousPosition: 8, change: 3, points: 3, played: 2,
+      liveMatch: { opponent: 'Ipswich Town', venue: 'Home', score: '3–0', minute: 67 }
+    });
+    expect(table.find(row => row.team === 'Ipswich Town')).toMatchObject({
+      position: 8, previousPosition: 7, change: -1,
+      liveMatch: { opponent: 'Everton', venue: 'Away', score: '0–3' }
+    });
+    expect(table.find(row => row.team === 'Manchester Utd')).toMatchObject({ change: 0, liveMatch: undefined });
+  });
+
+  it('treats a live match without a score yet as 0–0', () => {
+    const table = computeLiveTable([...defaultData, liveMatch('Everton', '', 'Ipswich Town')]);
+    expect(table.find(row => row.team === 'Everton')).toMatchObject({ drawn: 1, points: 1, liveMatch: { score: '0–0' } });
+  });
+
+  it('matches the league table when nothing is live', () => {
+    const table = computeLiveTable(defaultData);
+    expect(table.every(row => row.change === 0 && row.liveMatch === undefined)).toBe(true);
+  });
+});
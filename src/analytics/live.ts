@@ -0,0 +1,58 @@
+import { MatchData } from '../types';
+import { isLive, isPlayed } from '../utils/fixtures';
+import { StandingsRow, computeStandings } from './standings';
+
+// A team's match in progress, from its own side
+export interface LiveTeamMatch {
+  opponent: string;
+  venue: 'Home' | 'Away';
+  // Goals for and against so far, e.g. "2–1"
+  score: string;
+  minute?: number;
+}
+
+// One row of the table as it would stand if every live match ended now
+export interface LiveTableRow extends StandingsRow {
+  // Position on completed results alone
+  previousPosition: number;
+  // Places gained (positive) or lost (negative) on the live scores
+  change: number;
+  liveMatch?: LiveTeamMatch;
+}
+
+const scoreSoFar = (match: MatchData): string => match.Score || '0–0';
+
+const teamSideScore = (score: string, venue: 'Home' | 'Away'): string => {
+  const [home, away] = score.split('–');
+  return venue === 'Home' ? `${home}–${away}` : `${away}–${home}`;
+};
+
+// Provisional league table: completed results plus every live match counted at its
+// current score, with each team's movement against the table without them
+export const computeLiveTable = (matches: MatchData[]): LiveTableRow[] => {
+  const live = matches.filter(isLive);
+  const settled = computeStandings(matches);
+  const previous = new Map(settled.map(row => [row.team, row.position]));
+
+  const provisional = computeStandings([
+    ...matches.filter(isPlayed),
+    ...live.map(match => ({ ...match, Score: scoreSoFar(match), Status: 'played' as const }))
+  ]);
+
+  const liveMatches = new Map<string, LiveTeamMatch>();
+  live.forEach(match => {
+    const score = scoreSoFar(match);
+    liveMatches.set(match.Home, { opponent: match.Away, venue: 'Home', score: teamSideScore(score, 'Home'), minute: match.Minute });
+    liveMatches.set(match.Away, { opponent: match.Home, venue: 'Away', score: teamSideScore(score, 'Away'), minute: match.Minute });
+  });
+
+  return provisional.map(row => {
+    const previousPosition = previous.get(row.team) ?? row.position;
+    return {
+      ...row,
+      previousPosition,
+      change: previousPosition - row.position,
+      liveMatch: liveMatches.get(row.team)
+    };
+  });
+};
@@ -0,0 +1,47 @@
+import { defaultData } from '../data/defaultData';
+import { computeFormBefore, computeHeadToHead, computeMatchDetail } from './matchDetail';
+
+const unitedLiverpool = defaultData.find(m => m.Home === 'Manchester Utd' && m.Away === 'Liverpool')!;
+
+// The reverse fixture from a later season
+const reverse = { ...unitedLiverpool, Date: '2025-01-05', Home: 'Liverpool', Away: 'Manchester Utd', Score: '2–2' };
+
+describe('computeFormBefore', () => {
+  it('lists results before the date from the team\'s side', () => {
+    expect(computeFormBefore(defaultData, 'Liverpool', unitedLiverpool.Date)).toEqual([
+      { date: '2024-08-17', opponent: 'Ipswich Town', venue: 'Away', score: '2–0', result: 'W' }
+    ]);
+  });
+
+  it('is empty before a team\'s first match', () => {
+    expect(computeFormBefore(defaultData, 'Fulham', '2024-08-16')).toEqual([]);
+  });
+});
+
+describe('computeHeadToHead', () => {
+  it('counts meetings from the first team\'s side, most recent first', () => {
+    const record = computeHeadToHead([...defaultData, reverse], 'Liverpool', 'Manchester Utd');
+    expect(record.meetings.map(m => m.Date)).toEqual(['2025-01-05', '2024-08-24']);
+    expect(record).toMatchObject({ wins: 0, draws: 1, losses: 1, goalsFor: 3, goalsAgainst: 4 });
+  });
+});
+
+describe('computeMatchDetail', () => {
+  it('combines xG share, probabilities, form and head-to-head', () => {
+    const detail = computeMatchDetail(unitedLiverpool, defaultData, [...defaultData, reverse]);
+    expect(detail.xgShare!.home).toBeCloseTo(0.6);
+    const { win, draw, loss } = detail.probabilities!;
+    expect(win + draw + loss).toBeCloseTo(1);
+    expect(win).toBeGreaterThan(loss);
+    expect(detail.homeForm.map(f => f.result)).toEqual(['W']);
+    // The match itself is left out of its own head-to-head
+    expect(detail.headToHead.meetings).toEqual([reverse]);
+  });
+
+  it('has no xG figures for an unplayed match', () => {
+    const scheduled = { ...unitedLiverpool, Score: '', Status: 'scheduled' as const };
+    const detail = computeMatchDetail(scheduled, defaultData, defaultData);
+    expect(detail.xgShare).toBeNull();
+    expect(detail.probabilities).toBeNull();
+  });
+});
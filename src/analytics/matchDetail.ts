@@ -0,0 +1,102 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { OutcomeProbabilities, outcomeProbabilities } from './expectedPoints';
+import { FORM_LENGTH, FormResult } from './standings';
+import { byDate, involvesTeam, toTeamPerspective } from './scores';
+
+// One earlier result in a team's run of form
+export interface FormEntry {
+  date: string;
+  opponent: string;
+  venue: 'Home' | 'Away';
+  // From the team's side, e.g. "2–1" in a win
+  score: string;
+  result: FormResult;
+}
+
+// Meetings between two teams, counted from the first team's side
+export interface HeadToHeadRecord {
+  // Most recent first
+  meetings: MatchData[];
+  wins: number;
+  draws: number;
+  losses: number;
+  goalsFor: number;
+  goalsAgainst: number;
+}
+
+// Everything the match detail panel shows beyond the raw fields
+export interface MatchDetail {
+  match: MatchData;
+  // Each side's share of the match's total xG, or null without xG
+  xgShare: { home: number, away: number } | null;
+  // Win/draw/loss from the home side's point of view, from the xG pair
+  probabilities: OutcomeProbabilities | null;
+  // Results before kick-off, most recent last
+  homeForm: FormEntry[];
+  awayForm: FormEntry[];
+  headToHead: HeadToHeadRecord;
+}
+
+const hasXg = (match: MatchData): boolean => Number.isFinite(match.xG) && Number.isFinite(match.xG_away);
+
+const sameFixture = (a: MatchData, b: MatchData): boolean =>
+  a.Home === b.Home && a.Away === b.Away && a.Date === b.Date;
+
+// A team's last results before a date
+export const computeFormBefore = (
+  matches: MatchData[],
+  team: string,
+  date: string,
+  length: number = FORM_LENGTH
+): FormEntry[] => {
+  const kickOff = new Date(date).getTime();
+  return matches
+    .filter(match => isPlayed(match) && involvesTeam(match, team) && new Date(match.Date).getTime() < kickOff)
+    .sort(byDate)
+    .slice(-length)
+    .map(match => {
+      const perspective = toTeamPerspective(match, team);
+      return {
+        date: match.Date,
+        opponent: perspective.opponent,
+        venue: perspective.venue,
+        score: `${perspective.goalsFor}–${perspective.goalsAgainst}`,
+        result: perspective.result === 'Win' ? 'W' : perspective.result === 'Draw' ? 'D' : 'L'
+      };
+    });
+};
+
+// Every played meeting between two teams, from the first team's side
+export const computeHeadToHead = (matches: MatchData[], team: string, opponent: string): HeadToHeadRecord => {
+  const meetings = matches
+    .filter(match => isPlayed(match) && involvesTeam(match, team) && involvesTeam(match, opponent))
+    .sort((a, b) => byDate(b, a));
+
+  const record: HeadToHeadRecord = { meetings, wins: 0, draws: 0, losses: 0, goalsFor: 0, goalsAgainst: 0 };
+  meetings.forEach(match => {
+    const perspective = toTeamPerspective(match, team);
+    record.goalsFor += perspective.goalsFor;
+    record.goalsAgainst += perspective.goalsAgainst;
+    if (perspective.result === 'Win') record.wins += 1;
+    else if (perspective.result === 'Draw') record.draws += 1;
+    else record.losses += 1;
+  });
+  return record;
+};
+
+// Detail for one match: form comes from its season, head-to-head from every
+// loaded season (the match itself excluded)
+export const computeMatchDetail = (match: MatchData, season: MatchData[], history: MatchData[]): MatchDetail => {
+  const totalXg = match.xG + match.xG_away;
+  const withXg = isPlayed(match) && hasXg(match);
+
+  return {
+    match,
+    xgShare: withXg && totalXg > 0 ? { home: match.xG / totalXg, away: match.xG_away / totalXg } : null,
+    probabilities: withXg ? outcomeProbabilities(match.xG, match.xG_away) : null,
+    homeForm: computeFormBefore(season, match.Home, match.Date),
+    awayForm: computeFormBefore(season, match.Away, match.Date),
+    headToHead: computeHeadToHead(history.filter(other => !sameFixture(other, match)), match.Home, match.Away)
+  };
+};
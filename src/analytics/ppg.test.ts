@@ -0,0 +1,38 @@
+import { defaultData } from '../data/defaultData';
+import { computePpgByGameweek, computePpgSeries } from './ppg';
+
+describe('computePpgSeries', () => {
+  it('accumulates points per game in date order', () => {
+    const series = computePpgSeries(defaultData, 'Newcastle Utd');
+    expect(series.map(p => p.points)).toEqual([3, 4]);
+    expect(series.map(p => p.ppg)).toEqual([3, 2]);
+    expect(series.map(p => p.result)).toEqual(['Win', 'Draw']);
+    expect(series[1]).toMatchObject({ opponent: 'Fulham', venue: 'Away', matches: 2 });
+  });
+
+  it('tracks cumulative expected points alongside', () => {
+    const series = computePpgSeries(defaultData, 'Newcastle Utd');
+    // Newcastle won week 1 on 0.3 xG to 1.8, so they were expected far fewer points
+    expect(series[0].xPts).toBeLessThan(1);
+    expect(series[1].xPpg).toBeCloseTo(series[1].xPts / 2);
+  });
+
+  it('restarts the running totals over home or away matches only', () => {
+    const away = computePpgSeries(defaultData, 'Newcastle Utd', 'away');
+    expect(away).toHaveLength(1);
+    expect(away[0]).toMatchObject({ opponent: 'Fulham', points: 1, ppg: 1, matches: 1 });
+  });
+
+  it('is empty for a team with no matches', () => {
+    expect(computePpgSeries(defaultData, 'Arsenal')).toEqual([]);
+  });
+});
+
+describe('computePpgByGameweek', () => {
+  it('keys cumulative PPG by gameweek', () => {
+    expect(computePpgByGameweek(defaultData, 'Liverpool')).toEqual([
+      { week: 1, points: 3, matches: 1, ppg: 3 },
+      { week: 2, points: 3, matches: 2, ppg: 1.5 }
+    ]);
+  });
+});
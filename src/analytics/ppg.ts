@@ -0,0 +1,80 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { matchExpectedPoints } from './expectedPoints';
+import { MatchResult, byDate, involvesTeam, toTeamPerspective } from './scores';
+import { VenueFilter, matchesVenue } from './venue';
+
+// Cumulative points per game after one of a team's matches
+export interface PPGDataPoint {
+  date: string;
+  ppg: number;
+  points: number;
+  matches: number;
+  opponent: string;
+  venue: string;
+  result: MatchResult;
+  // Goals for–against, e.g. "0–1" for a 1–0 defeat
+  score: string;
+  team: string;
+  // Cumulative expected points and expected PPG from xG
+  xPts: number;
+  xPpg: number;
+}
+
+// Cumulative points per game for one team after each gameweek it played in
+export interface GameweekPpg {
+  week: number;
+  points: number;
+  matches: number;
+  ppg: number;
+}
+
+// PPG (and xPPG) progression for a team, one point per match in date order,
+// optionally over its home or away matches only
+export const computePpgSeries = (matches: MatchData[], team: string, venue: VenueFilter = 'all'): PPGDataPoint[] => {
+  let points = 0;
+  let matchesPlayed = 0;
+  let xPts = 0;
+
+  return matches
+    .filter(match => isPlayed(match) && involvesTeam(match, team) && matchesVenue(match, team, venue))
+    .sort(byDate)
+    .map(match => {
+      const perspective = toTeamPerspective(match, team);
+      const matchXPts = matchExpectedPoints(match);
+
+      // Update running totals
+      points += perspective.points;
+      matchesPlayed += 1;
+      if (matchXPts) xPts += perspective.venue === 'Home' ? matchXPts.home : matchXPts.away;
+
+      return {
+        date: match.Date,
+        ppg: points / matchesPlayed,
+        points,
+        matches: matchesPlayed,
+        opponent: perspective.opponent,
+        venue: perspective.venue,
+        result: perspective.result,
+        score: `${perspective.goalsFor}–${perspective.goalsAgainst}`,
+        team,
+        xPts,
+        xPpg: xPts / matchesPlayed
+      };
+    });
+};
+
+// Cumulative PPG by gameweek, for comparing the same stage of different seasons
+export const computePpgByGameweek = (matches: MatchData[], team: string): GameweekPpg[] => {
+  let points = 0;
+  let played = 0;
+
+  return matches
+    .filter(match => isPlayed(match) && involvesTeam(match, team))
+    .sort((a, b) => a.Wk - b.Wk || byDate(a, b))
+    .map(match => {
+      points += toTeamPerspective(match, team).points;
+      played += 1;
+      return { week: match.Wk, points, matches: played, ppg: points / played };
+    });
+};
@@ -0,0 +1,47 @@
+import { MatchData } from '../types';
+import { defaultData } from '../data/defaultData';
+import { FULL_RANGE, describeRange, filterMatchesByRange, isInRange, lastGameweeksRange } from './range';
+
+const week = (Wk: number, Status: MatchData['Status'] = 'played'): MatchData => ({ ...defaultData[0], Wk, Status });
+
+describe('filterMatchesByRange', () => {
+  it('keeps everything for the whole season', () => {
+    expect(filterMatchesByRange(defaultData, FULL_RANGE)).toBe(defaultData);
+  });
+
+  it('filters by inclusive gameweek bounds', () => {
+    expect(filterMatchesByRange(defaultData, { mode: 'weeks', from: 2, to: 2 })).toHaveLength(2);
+  });
+
+  it('filters by inclusive date bounds', () => {
+    const range = { mode: 'dates' as const, from: '2024-08-17', to: '2024-08-24' };
+    expect(filterMatchesByRange(defaultData, range).map(m => m.Date)).toEqual([
+      '2024-08-17', '2024-08-17', '2024-08-17', '2024-08-24'
+    ]);
+  });
+
+  it('leaves a null date bound open', () => {
+    expect(isInRange(defaultData[5], { mode: 'dates', from: '2024-08-20', to: null })).toBe(true);
+    expect(isInRange(defaultData[0], { mode: 'dates', from: '2024-08-20', to: null })).toBe(false);
+  });
+});
+
+describe('lastGameweeksRange', () => {
+  it('covers the last played gameweeks', () => {
+    const matches = [1, 2, 3, 4, 5, 6, 7].map(wk => week(wk)).concat(week(8, 'scheduled'));
+    expect(lastGameweeksRange(matches, 3)).toEqual({ mode: 'weeks', from: 5, to: 7 });
+  });
+
+  it('is the whole season when too few weeks have been played', () => {
+    expect(lastGameweeksRange(defaultData, 6)).toEqual(FULL_RANGE);
+  });
+});
+
+describe('describeRange', () => {
+  it('labels each kind of range', () => {
+    expect(describeRange(FULL_RANGE)).toBe('Whole season');
+    expect(describeRange({ mode: 'weeks', from: 5, to: 10 })).toBe('Weeks 5–10');
+    expect(describeRange({ mode: 'weeks', from: 5, to: 5 })).toBe('Week 5');
+    expect(describeRange({ mode: 'dates', from: '2024-11-11', to: null })).toBe('From 11 Nov 2024');
+  });
+});
@@ -0,0 +1,49 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+
+// The window of the season every view is scoped to. Bounds are inclusive; an
+// open (null) date bound runs to the start or end of the season.
+export type MatchRange =
+  | { mode: 'all' }
+  | { mode: 'weeks', from: number, to: number }
+  | { mode: 'dates', from: string | null, to: string | null };
+
+export const FULL_RANGE: MatchRange = { mode: 'all' };
+
+const dayValue = (date: string): number => new Date(date).getTime();
+
+export const isInRange = (match: MatchData, range: MatchRange): boolean => {
+  if (range.mode === 'weeks') return match.Wk >= range.from && match.Wk <= range.to;
+  if (range.mode === 'dates') {
+    const day = dayValue(match.Date);
+    return (range.from === null || day >= dayValue(range.from)) && (range.to === null || day <= dayValue(range.to));
+  }
+  return true;
+};
+
+export const filterMatchesByRange = (matches: MatchData[], range: MatchRange): MatchData[] =>
+  range.mode === 'all' ? matches : matches.filter(match => isInRange(match, range));
+
+// The last `count` gameweeks with at least one result, or the whole season when
+// fewer have been played
+export const lastGameweeksRange = (matches: MatchData[], count: number): MatchRange => {
+  const weeks = [...new Set(matches.filter(isPlayed).map(match => match.Wk))].sort((a, b) => a - b);
+  if (weeks.length <= count) return FULL_RANGE;
+  return { mode: 'weeks', from: weeks[weeks.length - count], to: weeks[weeks.length - 1] };
+};
+
+const formatDay = (date: string): string =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Short label for the active range, e.g. "Weeks 5–10" or "From 11 Nov 2024"
+export const describeRange = (range: MatchRange): string => {
+  if (range.mode === 'weeks') {
+    return range.from === range.to ? `Week ${range.from}` : `Weeks ${range.from}–${range.to}`;
+  }
+  if (range.mode === 'dates') {
+    if (range.from && range.to) return `${formatDay(range.from)} – ${formatDay(range.to)}`;
+    if (range.from) return `From ${formatDay(range.from)}`;
+    if (range.to) return `Until ${formatDay(range.to)}`;
+  }
+  return 'Whole season';
+};
@@ -0,0 +1,56 @@
+import { defaultData } from '../data/defaultData';
+import {
+  computeRefereeStats,
+  computeResultSplit,
+  computeTeamRefereeRecords,
+  filterMatchesByReferee,
+  listReferees
+} from './referees';
+
+// Give Anthony Taylor a second match: Ipswich 0–2 Liverpool
+const matches = defaultData.map(match =>
+  match.Home === 'Ipswich Town' ? { ...match, Referee: 'Anthony Taylor ' } : match
+);
+
+describe('filterMatchesByReferee', () => {
+  it('keeps the referee\'s matches, ignoring stray whitespace', () => {
+    expect(filterMatchesByReferee(matches, 'Anthony Taylor')).toHaveLength(2);
+  });
+
+  it('keeps everything for an empty name', () => {
+    expect(filterMatchesByReferee(matches, '')).toBe(matches);
+  });
+});
+
+describe('computeResultSplit', () => {
+  it('gives the league baseline', () => {
+    const split = computeResultSplit(defaultData);
+    expect(split).toMatchObject({ matches: 6, homeWins: 3, awayWins: 2, draws: 1, goalsPerMatch: 2 });
+    expect(split.homeWinRate).toBeCloseTo(0.5);
+  });
+});
+
+describe('computeRefereeStats', () => {
+  it('puts the busiest referee first', () => {
+    const stats = computeRefereeStats(matches);
+    expect(stats).toHaveLength(5);
+    expect(stats[0]).toMatchObject({ referee: 'Anthony Taylor', matches: 2, homeWins: 1, awayWins: 1, goalsPerMatch: 2.5 });
+    // (1.8 - 1.2 + 0.5 - 2.6) / 2
+    expect(stats[0].xgDiffPerMatch).toBeCloseTo(-0.75);
+  });
+});
+
+describe('computeTeamRefereeRecords', () => {
+  it('gives the team\'s record under each referee', () => {
+    expect(computeTeamRefereeRecords(matches, 'Liverpool')).toEqual([
+      { referee: 'Anthony Taylor', played: 2, won: 1, drawn: 0, lost: 1, points: 3, ppg: 1.5 }
+    ]);
+  });
+});
+
+describe('listReferees', () => {
+  it('lists each referee once, alphabetically', () => {
+    expect(listReferees(matches)[0]).toBe('Anthony Taylor');
+    expect(listReferees(matches)).toHaveLength(5);
+  });
+});
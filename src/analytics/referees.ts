@@ -0,0 +1,106 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { involvesTeam, parseScore, toTeamPerspective } from './scores';
+
+// Results and scoring in a set of matches: one referee's, or the league's as a baseline
+export interface ResultSplit {
+  matches: number;
+  homeWins: number;
+  awayWins: number;
+  draws: number;
+  // Shares of matches, 0–1
+  homeWinRate: number;
+  awayWinRate: number;
+  drawRate: number;
+  goalsPerMatch: number;
+  // Home xG minus away xG per match, over matches that have xG
+  xgDiffPerMatch: number;
+}
+
+export interface RefereeStats extends ResultSplit {
+  referee: string;
+}
+
+// One team's results under one referee
+export interface TeamRefereeRecord {
+  referee: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  points: number;
+  ppg: number;
+}
+
+export const refereeName = (match: MatchData): string => match.Referee.trim();
+
+// Referees in the data, alphabetically
+export const listReferees = (matches: MatchData[]): string[] =>
+  [...new Set(matches.map(refereeName).filter(name => name !== ''))].sort((a, b) => a.localeCompare(b));
+
+// Matches officiated by the referee; an empty name keeps every match
+export const filterMatchesByReferee = (matches: MatchData[], referee: string): MatchData[] =>
+  referee === '' ? matches : matches.filter(match => refereeName(match) === referee);
+
+export const computeResultSplit = (matches: MatchData[]): ResultSplit => {
+  const played = matches.filter(isPlayed);
+  let homeWins = 0;
+  let awayWins = 0;
+  let goals = 0;
+  let xgDiff = 0;
+  let xgMatches = 0;
+
+  played.forEach(match => {
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    if (homeGoals > awayGoals) homeWins += 1;
+    else if (awayGoals > homeGoals) awayWins += 1;
+    goals += homeGoals + awayGoals;
+    if (Number.isFinite(match.xG) && Number.isFinite(match.xG_away)) {
+      xgDiff += match.xG - match.xG_away;
+      xgMatches += 1;
+    }
+  });
+
+  const count = played.length;
+  const draws = count - homeWins - awayWins;
+  const rate = (value: number) => (count > 0 ? value / count : 0);
+  return {
+    matches: count,
+    homeWins,
+    awayWins,
+    draws,
+    homeWinRate: rate(homeWins),
+    awayWinRate: rate(awayWins),
+    drawRate: rate(draws),
+    goalsPerMatch: rate(goals),
+    xgDiffPerMatch: xgMatches > 0 ? xgDiff / xgMatches : 0
+  };
+};
+
+// Every referee's result split, busiest first
+export const computeRefereeStats = (matches: MatchData[]): RefereeStats[] =>
+  listReferees(matches.filter(isPlayed))
+    .map(referee => ({ referee, ...computeResultSplit(filterMatchesByReferee(matches, referee)) }))
+    .sort((a, b) => b.matches - a.matches || a.referee.localeCompare(b.referee));
+
+// A team's record under each referee who has officiated it, most matches first
+export const computeTeamRefereeRecords = (matches: MatchData[], team: string): TeamRefereeRecord[] => {
+  const records = new Map<string, TeamRefereeRecord>();
+
+  matches
+    .filter(match => isPlayed(match) && involvesTeam(match, team) && refereeName(match) !== '')
+    .forEach(match => {
+      const referee = refereeName(match);
+      const record = records.get(referee) || { referee, played: 0, won: 0, drawn: 0, lost: 0, points: 0, ppg: 0 };
+      const perspective = toTeamPerspective(match, team);
+      record.played += 1;
+      record.points += perspective.points;
+      if (perspective.result === 'Win') record.won += 1;
+      else if (perspective.result === 'Draw') record.drawn += 1;
+      else record.lost += 1;
+      record.ppg = record.points / record.played;
+      records.set(referee, record);
+    });
+
+  return Array.from(records.values()).sort((a, b) => b.played - a.played || a.referee.localeCompare(b.referee));
+};
@@ -0,0 +1,31 @@
+import { defaultData } from '../data/defaultData';
+import { computeXgTimeseries } from './aggregates';
+import { computeRollingXg, rollingAverage } from './rolling';
+
+describe('rollingAverage', () => {
+  it('averages the trailing window at each point', () => {
+    expect(rollingAverage([1, 2, 3, 4, 5], 3)).toEqual([1, 1.5, 2, 3, 4]);
+  });
+
+  it('passes values through for a window of one', () => {
+    expect(rollingAverage([4, 0, 2], 1)).toEqual([4, 0, 2]);
+  });
+
+  it('skips missing values', () => {
+    expect(rollingAverage([2, NaN, 4], 3)).toEqual([2, 2, 3]);
+    expect(rollingAverage([NaN], 3)[0]).toBeNaN();
+  });
+});
+
+describe('computeRollingXg', () => {
+  it('rolls xG, xGA and goals from the team\'s perspective', () => {
+    const rolling = computeRollingXg(computeXgTimeseries(defaultData, 'Liverpool'), 5);
+    expect(rolling).toHaveLength(2);
+    expect(rolling[1].xG).toBeCloseTo((2.6 + 1.2) / 2);
+    expect(rolling[1].xGA).toBeCloseTo((0.5 + 1.8) / 2);
+    expect(rolling[1].goalsFor).toBe(1.5);
+    expect(rolling[1].goalsAgainst).toBe(1);
+    expect(rolling[1].xGDiff).toBeCloseTo(rolling[1].xG - rolling[1].xGA);
+    expect(rolling.map(p => p.matches)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,51 @@
+import { XgTimeseriesPoint } from './aggregates';
+
+export const ROLLING_WINDOW_PRESETS = [5, 10];
+
+// Trailing mean over the last `window` values at each index. Early points average
+// whatever is available so far, and missing (non-finite) values are skipped.
+export const rollingAverage = (values: number[], window: number): number[] => {
+  const size = Math.max(1, Math.floor(window));
+  return values.map((_, idx) => {
+    const slice = values.slice(Math.max(0, idx - size + 1), idx + 1).filter(Number.isFinite);
+    return slice.length > 0 ? slice.reduce((sum, value) => sum + value, 0) / slice.length : NaN;
+  });
+};
+
+// Rolling averages for one point of an xG timeseries
+export interface RollingXgPoint {
+  date: string;
+  match: string;
+  team: string;
+  opponent: string;
+  xG: number;
+  xGA: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  // Rolling xG minus rolling xGA: above zero the team is creating more than it concedes
+  xGDiff: number;
+  // Matches the averages cover at this point (less than the window early on)
+  matches: number;
+}
+
+// N-match rolling xG, xGA, goals and conceded over a timeseries (already in date order)
+export const computeRollingXg = (series: XgTimeseriesPoint[], window: number): RollingXgPoint[] => {
+  const xG = rollingAverage(series.map(p => p.xG), window);
+  const xGA = rollingAverage(series.map(p => p.xGA), window);
+  const goalsFor = rollingAverage(series.map(p => p.goalsFor), window);
+  const goalsAgainst = rollingAverage(series.map(p => p.goalsAgainst), window);
+  const size = Math.max(1, Math.floor(window));
+
+  return series.map((point, idx) => ({
+    date: point.date,
+    match: point.match,
+    team: point.team,
+    opponent: point.opponent,
+    xG: xG[idx],
+    xGA: xGA[idx],
+    goalsFor: goalsFor[idx],
+    goalsAgainst: goalsAgainst[idx],
+    xGDiff: xG[idx] - xGA[idx],
+    matches: Math.min(idx + 1, size)
+  }));
+};
@@ -0,0 +1,39 @@
+import { defaultData } from '../data/defaultData';
+import { getResult, parseScore, pointsForResult, toTeamPerspective } from './scores';
+
+describe('parseScore', () => {
+  it('splits an en-dash score into home and away goals', () => {
+    expect(parseScore('2–1')).toEqual({ homeGoals: 2, awayGoals: 1 });
+  });
+
+  it('treats an empty score as 0–0', () => {
+    expect(parseScore('')).toEqual({ homeGoals: 0, awayGoals: 0 });
+  });
+});
+
+describe('results', () => {
+  it('maps goals to a result and points', () => {
+    expect(getResult(3, 1)).toBe('Win');
+    expect(getResult(1, 1)).toBe('Draw');
+    expect(getResult(0, 2)).toBe('Loss');
+    expect(pointsForResult('Win')).toBe(3);
+    expect(pointsForResult('Draw')).toBe(1);
+    expect(pointsForResult('Loss')).toBe(0);
+  });
+});
+
+describe('toTeamPerspective', () => {
+  const match = defaultData[1]; // Ipswich Town 0–2 Liverpool, xG 0.5 vs 2.6
+
+  it('keeps the home side as-is', () => {
+    expect(toTeamPerspective(match, 'Ipswich Town')).toMatchObject({
+      opponent: 'Liverpool', venue: 'Home', goalsFor: 0, goalsAgainst: 2, xG: 0.5, xGA: 2.6, result: 'Loss', points: 0
+    });
+  });
+
+  it('flips goals and xG for the away side', () => {
+    expect(toTeamPerspective(match, 'Liverpool')).toMatchObject({
+      opponent: 'Ipswich Town', venue: 'Away', goalsFor: 2, goalsAgainst: 0, xG: 2.6, xGA: 0.5, result: 'Win', points: 3
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { MatchData } from '../types';
+
+export type MatchResult = 'Win' | 'Draw' | 'Loss';
+
+// A match seen from one team's side
+export interface TeamPerspective {
+  team: string;
+  opponent: string;
+  venue: 'Home' | 'Away';
+  goalsFor: number;
+  goalsAgainst: number;
+  xG: number;
+  xGA: number;
+  result: MatchResult;
+  points: number;
+}
+
+// Split an FBref score ("2–1") into home and away goals
+export const parseScore = (score: string): { homeGoals: number, awayGoals: number } => {
+  const parts = score.split('–');
+  return {
+    homeGoals: parseInt(parts[0], 10) || 0,
+    awayGoals: parseInt(parts[1], 10) || 0
+  };
+};
+
+// Attendance as a number ("73,297" → 73297); NaN when the source doesn't record it
+export const parseAttendance = (attendance: string): number => {
+  const value = Number(attendance.replace(/,/g, '').trim());
+  return attendance.trim() !== '' && value > 0 ? value : NaN;
+};
+
+export const getResult = (goalsFor: number, goalsAgainst: number): MatchResult =>
+  goalsFor > goalsAgainst ? 'Win' : goalsFor === goalsAgainst ? 'Draw' : 'Loss';
+
+export const pointsForResult = (result: MatchResult): number =>
+  result === 'Win' ? 3 : result === 'Draw' ? 1 : 0;
+
+// Whether a team played in a match
+export const involvesTeam = (match: MatchData, team: string): boolean =>
+  match.Home === team || match.Away === team;
+
+// Flip a match into the given team's point of view (xG becomes xG for/against)
+export const toTeamPerspective = (match: MatchData, team: string): TeamPerspective => {
+  const { homeGoals, awayGoals } = parseScore(match.Score);
+  const isHome = match.Home === team;
+  const goalsFor = isHome ? homeGoals : awayGoals;
+  const goalsAgainst = isHome ? awayGoals : homeGoals;
+  const result = getResult(goalsFor, goalsAgainst);
+
+  return {
+    team,
+    opponent: isHome ? match.Away : match.Home,
+    venue: isHome ? 'Home' : 'Away',
+    goalsFor,
+    goalsAgainst,
+    xG: isHome ? match.xG : match.xG_away,
+    xGA: isHome ? match.xG_away : match.xG,
+    result,
+    points: pointsForResult(result)
+  };
+};
+
+// Chronological order by match date
+export const byDate = (a: MatchData, b: MatchData): number =>
+  new Date(a.Date).getTime() - new Date(b.Date).getTime();
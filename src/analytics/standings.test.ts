@@ -0,0 +1,53 @@
+import { MatchData } from '../types';
+import { defaultData } from '../data/defaultData';
+import { computePositionHistory, computeStandings } from './standings';
+
+const match = (Wk: number, Home: string, Score: string, Away: string): MatchData => ({
+  Wk, Day: 'Sat', Date: `2024-08-${10 + Wk}`, Time: '15:00', Home, xG: 1, Score, xG_away: 1, Away,
+  Attendance: '', Venue: '', Referee: '', Status: 'played'
+});
+
+describe('computeStandings', () => {
+  it('orders the table by points, goal difference and goals scored', () => {
+    const table = computeStandings(defaultData);
+    expect(table.map(row => row.team)).toEqual([
+      'Manchester Utd', 'Newcastle Utd', 'Brighton', 'Liverpool', 'Fulham', 'Southampton', 'Ipswich Town', 'Everton'
+    ]);
+    expect(table[0]).toMatchObject({ position: 1, played: 2, won: 2, points: 6, goalDifference: 2, form: ['W', 'W'] });
+  });
+
+  it('returns the table as it stood after a given gameweek', () => {
+    const table = computeStandings(defaultData, 1);
+    expect(table.slice(0, 2).map(row => row.team)).toEqual(['Brighton', 'Liverpool']);
+    // Still listed, but with no games counted yet
+    expect(table.find(row => row.team === 'Fulham')).toMatchObject({ played: 1, points: 0 });
+  });
+
+  it('separates teams level on points, goal difference and goals by head-to-head', () => {
+    const table = computeStandings([
+      match(1, 'Bravo', '1–0', 'Alpha'),
+      match(2, 'Alpha', '1–0', 'Charlie'),
+      match(3, 'Delta', '1–0', 'Bravo')
+    ]);
+    // Alpha and Bravo are level on everything but Bravo won the meeting
+    expect(table.map(row => row.team)).toEqual(['Delta', 'Bravo', 'Alpha', 'Charlie']);
+  });
+
+  it('falls back to alphabetical order when head-to-head is level too', () => {
+    const table = computeStandings([match(1, 'Zulu', '1–1', 'Yankee')]);
+    expect(table.map(row => row.team)).toEqual(['Yankee', 'Zulu']);
+  });
+
+  it('lists teams whose fixtures are all unplayed', () => {
+    const table = computeStandings([{ ...match(1, 'Alpha', '', 'Bravo'), Status: 'scheduled' }]);
+    expect(table.map(row => row.played)).toEqual([0, 0]);
+  });
+});
+
+describe('computePositionHistory', () => {
+  it('records each team\'s position after every week', () => {
+    const liverpool = computePositionHistory(defaultData, [1, 2]).find(h => h.team === 'Liverpool')!;
+    expect(liverpool.weeks).toEqual([1, 2]);
+    expect(liverpool.positions).toEqual([2, 4]);
+  });
+});
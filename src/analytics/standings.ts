@@ -0,0 +1,194 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { parseScore } from './scores';
+import { matchExpectedPoints } from './expectedPoints';
+
+export type FormResult = 'W' | 'D' | 'L';
+
+// One row of the league table
+export interface StandingsRow {
+  position: number;
+  team: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+  // Most recent results last, at most FORM_LENGTH entries
+  form: FormResult[];
+  xPts: number;
+}
+
+export const FORM_LENGTH = 5;
+
+interface TeamRecord {
+  team: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  points: number;
+  results: { date: string, result: FormResult }[];
+  xPts: number;
+}
+
+const emptyRecord = (team: string): TeamRecord => ({
+  team, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0, results: [], xPts: 0
+});
+
+const addResult = (record: TeamRecord, date: string, goalsFor: number, goalsAgainst: number, xPts: number) => {
+  record.played += 1;
+  record.goalsFor += goalsFor;
+  record.goalsAgainst += goalsAgainst;
+  record.xPts += xPts;
+
+  if (goalsFor > goalsAgainst) {
+    record.won += 1;
+    record.points += 3;
+    record.results.push({ date, result: 'W' });
+  } else if (goalsFor === goalsAgainst) {
+    record.drawn += 1;
+    record.points += 1;
+    record.results.push({ date, result: 'D' });
+  } else {
+    record.lost += 1;
+    record.results.push({ date, result: 'L' });
+  }
+};
+
+// Head-to-head points and away goals between a group of tied teams
+const headToHead = (matches: MatchData[], teams: Set<string>) => {
+  const stats = new Map<string, { points: number, awayGoals: number }>();
+  teams.forEach(team => stats.set(team, { points: 0, awayGoals: 0 }));
+
+  matches
+    .filter(match => teams.has(match.Home) && teams.has(match.Away))
+    .forEach(match => {
+      const { homeGoals, awayGoals } = parseScore(match.Score);
+      const home = stats.get(match.Home)!;
+      const away = stats.get(match.Away)!;
+      away.awayGoals += awayGoals;
+      if (homeGoals > awayGoals) home.points += 3;
+      else if (homeGoals < awayGoals) away.points += 3;
+      else {
+        home.points += 1;
+        away.points += 1;
+      }
+    });
+
+  return stats;
+};
+
+// Premier League ordering: points, goal difference, goals scored, then (among teams
+// still level) head-to-head points and head-to-head away goals. Any remaining tie
+// would go to a play-off, so we fall back to alphabetical order.
+const sortByTieBreakers = (records: TeamRecord[], matches: MatchData[]): TeamRecord[] => {
+  const primary = (a: TeamRecord, b: TeamRecord) =>
+    b.points - a.points ||
+    (b.goalsFor - b.goalsAgainst) - (a.goalsFor - a.goalsAgainst) ||
+    b.goalsFor - a.goalsFor;
+
+  const sorted = [...records].sort(primary);
+  const result: TeamRecord[] = [];
+
+  // Resolve each group of teams that are level on the primary criteria
+  let i = 0;
+  while (i < sorted.length) {
+    let j = i + 1;
+    while (j < sorted.length && primary(sorted[i], sorted[j]) === 0) j++;
+
+    const group = sorted.slice(i, j);
+    if (group.length > 1) {
+      const h2h = headToHead(matches, new Set(group.map(r => r.team)));
+      group.sort((a, b) =>
+        h2h.get(b.team)!.points - h2h.get(a.team)!.points ||
+        h2h.get(b.team)!.awayGoals - h2h.get(a.team)!.awayGoals ||
+        a.team.localeCompare(b.team)
+      );
+    }
+    result.push(...group);
+    i = j;
+  }
+
+  return result;
+};
+
+// Build the league table from played matches. Teams with only unplayed fixtures
+// still appear (with zero games) so the table always lists every club.
+// Pass throughWeek to get the table as it stood after that gameweek.
+export const computeStandings = (matches: MatchData[], throughWeek?: number): StandingsRow[] => {
+  const records = new Map<string, TeamRecord>();
+  const getRecord = (team: string) => {
+    let record = records.get(team);
+    if (!record) {
+      record = emptyRecord(team);
+      records.set(team, record);
+    }
+    return record;
+  };
+
+  const counts = (match: MatchData) =>
+    isPlayed(match) && (throughWeek === undefined || match.Wk <= throughWeek);
+
+  matches.forEach(match => {
+    const home = getRecord(match.Home);
+    const away = getRecord(match.Away);
+    if (!counts(match)) return;
+
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    const xPts = matchExpectedPoints(match);
+    addResult(home, match.Date, homeGoals, awayGoals, xPts ? xPts.home : 0);
+    addResult(away, match.Date, awayGoals, homeGoals, xPts ? xPts.away : 0);
+  });
+
+  const played = matches.filter(counts);
+
+  return sortByTieBreakers(Array.from(records.values()), played).map((record, index) => ({
+    position: index + 1,
+    team: record.team,
+    played: record.played,
+    won: record.won,
+    drawn: record.drawn,
+    lost: record.lost,
+    goalsFor: record.goalsFor,
+    goalsAgainst: record.goalsAgainst,
+    goalDifference: record.goalsFor - record.goalsAgainst,
+    points: record.points,
+    form: [...record.results]
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .slice(-FORM_LENGTH)
+      .map(r => r.result),
+    xPts: record.xPts
+  }));
+};
+
+// A team's league position after each gameweek
+export interface PositionHistory {
+  team: string;
+  weeks: number[];
+  positions: number[];
+}
+
+// League position of every team after each of the given gameweeks
+export const computePositionHistory = (matches: MatchData[], weeks: number[]): PositionHistory[] => {
+  const history = new Map<string, PositionHistory>();
+
+  weeks.forEach(week => {
+    computeStandings(matches, week).forEach(row => {
+      let entry = history.get(row.team);
+      if (!entry) {
+        entry = { team: row.team, weeks: [], positions: [] };
+        history.set(row.team, entry);
+      }
+      entry.weeks.push(week);
+      entry.positions.push(row.position);
+    });
+  });
+
+  return Array.from(history.values());
+};
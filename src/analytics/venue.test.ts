@@ -0,0 +1,36 @@
+import { defaultData } from '../data/defaultData';
+import { computeHomeAwaySplit, matchesVenue } from './venue';
+
+describe('matchesVenue', () => {
+  const match = defaultData[0]; // Manchester Utd vs Fulham
+
+  it('keeps every match for "all"', () => {
+    expect(matchesVenue(match, 'Fulham', 'all')).toBe(true);
+  });
+
+  it('checks the team\'s side for home and away', () => {
+    expect(matchesVenue(match, 'Manchester Utd', 'home')).toBe(true);
+    expect(matchesVenue(match, 'Manchester Utd', 'away')).toBe(false);
+    expect(matchesVenue(match, 'Fulham', 'away')).toBe(true);
+  });
+});
+
+describe('computeHomeAwaySplit', () => {
+  it('splits a team\'s record by venue', () => {
+    const split = computeHomeAwaySplit(defaultData, 'Newcastle Utd');
+    expect(split.home).toMatchObject({ played: 1, won: 1, points: 3, ppg: 3, goalsForPerMatch: 1 });
+    expect(split.away).toMatchObject({ played: 1, drawn: 1, points: 1, ppg: 1, xGPerMatch: 1.5, xGAPerMatch: 1 });
+  });
+
+  it('includes the league-wide home and away PPG', () => {
+    // 3 home wins, 2 away wins and 1 draw in 6 matches
+    const split = computeHomeAwaySplit(defaultData, 'Liverpool');
+    expect(split.leagueHomePpg).toBeCloseTo(10 / 6);
+    expect(split.leagueAwayPpg).toBeCloseTo(7 / 6);
+  });
+
+  it('reports zeros for a venue the team has not played at', () => {
+    const split = computeHomeAwaySplit(defaultData, 'Liverpool');
+    expect(split.home).toMatchObject({ played: 0, ppg: 0, xGPerMatch: 0 });
+  });
+});
@@ -0,0 +1,102 @@
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import { involvesTeam, toTeamPerspective } from './scores';
+
+// Which of a team's matches an aggregate counts
+export type VenueFilter = 'all' | 'home' | 'away';
+
+export const VENUE_FILTER_LABELS: Record<VenueFilter, string> = {
+  all: 'All matches',
+  home: 'Home only',
+  away: 'Away only'
+};
+
+// Whether the given team's side of a match passes the venue filter
+export const matchesVenue = (match: MatchData, team: string, venue: VenueFilter): boolean =>
+  venue === 'all' || (venue === 'home' ? match.Home === team : match.Away === team);
+
+// One team's record at one venue
+export interface VenueRecord {
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  points: number;
+  ppg: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalsForPerMatch: number;
+  goalsAgainstPerMatch: number;
+  xGPerMatch: number;
+  xGAPerMatch: number;
+}
+
+// A team's home and away records side by side, with the league-wide home and
+// away PPG for reference (how much home advantage a typical side gets)
+export interface HomeAwaySplit {
+  team: string;
+  home: VenueRecord;
+  away: VenueRecord;
+  leagueHomePpg: number;
+  leagueAwayPpg: number;
+}
+
+const venueRecord = (matches: MatchData[], team: string): VenueRecord => {
+  const record = {
+    played: 0, won: 0, drawn: 0, lost: 0, points: 0, goalsFor: 0, goalsAgainst: 0, xG: 0, xGA: 0, xgMatches: 0
+  };
+
+  matches.forEach(match => {
+    const perspective = toTeamPerspective(match, team);
+    record.played += 1;
+    record.points += perspective.points;
+    record.goalsFor += perspective.goalsFor;
+    record.goalsAgainst += perspective.goalsAgainst;
+    if (perspective.result === 'Win') record.won += 1;
+    else if (perspective.result === 'Draw') record.drawn += 1;
+    else record.lost += 1;
+    // Average xG only over matches that have it
+    if (Number.isFinite(perspective.xG) && Number.isFinite(perspective.xGA)) {
+      record.xG += perspective.xG;
+      record.xGA += perspective.xGA;
+      record.xgMatches += 1;
+    }
+  });
+
+  const perMatch = (total: number, count: number) => (count > 0 ? total / count : 0);
+  return {
+    played: record.played,
+    won: record.won,
+    drawn: record.drawn,
+    lost: record.lost,
+    points: record.points,
+    ppg: perMatch(record.points, record.played),
+    goalsFor: record.goalsFor,
+    goalsAgainst: record.goalsAgainst,
+    goalsForPerMatch: perMatch(record.goalsFor, record.played),
+    goalsAgainstPerMatch: perMatch(record.goalsAgainst, record.played),
+    xGPerMatch: perMatch(record.xG, record.xgMatches),
+    xGAPerMatch: perMatch(record.xGA, record.xgMatches)
+  };
+};
+
+export const computeHomeAwaySplit = (matches: MatchData[], team: string): HomeAwaySplit => {
+  const played = matches.filter(isPlayed);
+  const teamMatches = played.filter(match => involvesTeam(match, team));
+
+  // Every played match gives its points to one home side and one away side
+  let homePoints = 0;
+  let awayPoints = 0;
+  played.forEach(match => {
+    homePoints += toTeamPerspective(match, match.Home).points;
+    awayPoints += toTeamPerspective(match, match.Away).points;
+  });
+
+  return {
+    team,
+    home: venueRecord(teamMatches.filter(match => match.Home === team), team),
+    away: venueRecord(teamMatches.filter(match => match.Away === team), team),
+    leagueHomePpg: played.length > 0 ? homePoints / played.length : 0,
+    leagueAwayPpg: played.length > 0 ? awayPoints / played.length : 0
+  };
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MatchData } from '../types';
+import {
+  AttendanceSummary,
+  MATCH_OUTCOMES,
+  computeAttendanceByHomeTeam,
+  computeAttendanceByOutcome,
+  computeAttendanceByVenue,
+  computeAttendancePoints,
+  computeAttendanceTrend
+} from '../analytics';
+import ChartExportMenu from './ChartExportMenu';
+import PlotlyChart, { PlotlyFigure } from './PlotlyChart';
+
+interface AttendancePanelProps {
+  // Played matches in scope
+  matches: MatchData[];
+  selectedTeam: string;
+}
+
+type Grouping = 'team' | 'venue';
+
+const OUTCOME_COLORS: Record<string, string> = {
+  'Home win': '#00D3FF',
+  Draw: '#9CA3AF',
+  'Away win': '#FF2882'
+};
+
+const formatCrowd = (value: number): string => Math.round(value).toLocaleString('en-GB');
+
+const baseLayout = {
+  title: '',
+  font: {
+    family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    color: '#FFFFFF'
+  },
+  paper_bgcolor: '#1A1E2E',
+  plot_bgcolor: '#1A1E2E',
+  autosize: true,
+  margin: { t: 40, r: 20, l: 70, b: 60 },
+  legend: {
+    orientation: 'h',
+    xanchor: 'center',
+    x: 0.5,
+    y: 1.12,
+    bgcolor: 'rgba(26, 30, 46, 0)'
+  }
+};
+
+const config = {
+  responsive: true,
+  displayModeBar: false
+};
+
+// Crowds per home team or stadium, how they moved over the season, and how they
+// line up with results and goals
+const AttendancePanel = ({ matches, selectedTeam }: AttendancePanelProps): JSX.Element => {
+  const [grouping, setGrouping] = useState<Grouping>('team');
+  // Row whose crowds are drawn over the league trend (defaults to the selected team)
+  const [focus, setFocus] = useState<string>('');
+  const trendChartRef = useRef<HTMLDivElement>(null);
+  const outcomeChartRef = useRef<HTMLDivElement>(null);
+
+  const summaries = useMemo(
+    () => (grouping === 'team' ? computeAttendanceByHomeTeam(matches) : computeAttendanceByVenue(matches)),
+    [matches, grouping]
+  );
+  const leagueTrend = useMemo(() => computeAttendanceTrend(matches), [matches]);
+  const points = useMemo(() => computeAttendancePoints(matches), [matches]);
+  const byOutcome = useMemo(() => computeAttendanceByOutcome(matches), [matches]);
+
+  // Follow the team picker until a row is clicked
+  useEffect(() => setFocus(''), [selectedTeam, grouping]);
+  const focusName = focus || (grouping === 'team' ? selectedTeam : '');
+  const focused: AttendanceSummary | undefined = summaries.find(summary => summary.name === focusName);
+
+  // Figure for the attendance trend chart
+  const trendFigure = useMemo((): PlotlyFigure | null => {
+    if (leagueTrend.length === 0) return null;
+
+    const chartData: any[] = [{
+      x: leagueTrend.map(week => week.week),
+      y: leagueTrend.map(week => week.average),
+      type: 'scatter',
+      mode: 'lines+markers',
+      name: 'League average',
+      line: { color: '#9CA3AF', width: 2, dash: 'dot' },
+      hovertemplate: 'Week %{x}<br>Average %{y:,.0f}<extra></extra>'
+    }];
+    if (focused) {
+      chartData.push({
+        x: focused.trend.map(point => point.week),
+        y: focused.trend.map(point => point.attendance),
+        text: focused.trend.map(point => point.match),
+        type: 'scatter',
+        mode: 'lines+markers',
+        name: focused.name,
+        line: { color: '#FF2882', width: 3 },
+        marker: { size: 8 },
+        hovertemplate: '%{text}<br>Week %{x}<br>Crowd %{y:,.0f}<extra></extra>'
+      });
+    }
+
+    const layout = {
+      ...baseLayout,
+      xaxis: { title: 'Gameweek', gridcolor: 'transparent', dtick: 1 },
+      yaxis: { title: 'Attendance', gridcolor: '#2A305E', tickformat: ',d' }
+    };
+
+    return { data: chartData, layout, config };
+  }, [leagueTrend, focused]);
+
+  // Figure for the attendance vs goals chart, coloured by result
+  const outcomeFigure = useMemo((): PlotlyFigure | null => {
+    if (points.length === 0) return null;
+
+    const chartData = MATCH_OUTCOMES.map(outcome => {
+      const group = points.filter(point => point.outcome === outcome);
+      return {
+        x: group.map(point => point.attendance),
+        y: group.map(point => point.goals),
+        text: group.map(point => point.match),
+        type: 'scatter',
+        mode: 'markers',
+        name: outcome,
+        marker: { color: OUTCOME_COLORS[outcome], size: 9, opacity: 0.85 },
+        hovertemplate: '%{text}<br>Crowd %{x:,.0f}<br>Goals %{y}<extra></extra>'
+      };
+    });
+
+    const layout = {
+      ...baseLayout,
+      xaxis: { title: 'Attendance', gridcolor: 'transparent', tickformat: ',d' },
+      yaxis: { title: 'Total goals', gridcolor: '#2A305E', dtick: 1, rangemode: 'tozero' }
+    };
+
+    return { data: chartData, layout, config };
+  }, [points]);
+
+  return (
+    <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">Attendance</h2>
+          <p className="text-xs text-gray-400 mt-1">
+            {points.length} matches with a recorded crowd
+            {byOutcome.length > 0 && ' · average by result: '}
+            {byOutcome.map(entry => `${entry.outcome} ${formatCrowd(entry.average)}`).join(', ')}
+          </p>
+        </div>
+        <div className="flex rounded-lg overflow-hidden border border-[#38003C]" role="group" aria-label="Group attendance by">
+          {(['team', 'venue'] as Grouping[]).map(option => (
+            <button
+              key={option}
+              className={`py-1 px-3 text-xs ${grouping === option ? 'bg-[#FF2882] text-white' : 'bg-[#2D1F54] text-gray-300 hover:bg-[#38003C]/80'}`}
+              onClick={() => setGrouping(option)}
+            >
+              {option === 'team' ? 'By home team' : 'By venue'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-2 sm:p-4">
+        <div className="overflow-x-auto max-h-96">
+          <table className="w-full text-xs sm:text-sm text-left">
+            <thead className="bg-[#191D30] text-gray-400 uppercase text-xs sticky top-0">
+              <tr>
+                <th className="p-2">{grouping === 'team' ? 'Home team' : 'Venue'}</th>
+                <th className="p-2 text-center">M</th>
+                <th className="p-2 text-right">Average</th>
+                <th className="p-2 text-right">Min</th>
+                <th className="p-2 text-right">Max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.map(summary => (
+                <tr
+                  key={summary.name}
+                  className={`border-b border-gray-800/50 hover:bg-[#2A305E] cursor-pointer ${
+                    summary.name === focusName ? 'bg-[#38003C]/60 text-white font-semibold' : ''
+                  }`}
+                  onClick={() => setFocus(summary.name === focusName ? '' : summary.name)}
+                >
+                  <td className="p-2 whitespace-nowrap">{summary.name}</td>
+                  <td className="p-2 text-center">{summary.matches}</td>
+                  <td className="p-2 text-right">{formatCrowd(summary.average)}</td>
+                  <td className="p-2 text-right text-gray-400">{formatCrowd(summary.min)}</td>
+                  <td className="p-2 text-right text-gray-400">{formatCrowd(summary.max)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <h3 className="text-xs uppercase text-gray-400">
+              {focused ? `${focused.name} crowds vs the league average` : 'League average crowd by gameweek'}
+            </h3>
+            <ChartExportMenu
+              chartRef={trendChartRef}
+              title={focused ? `${focused.name} attendance trend` : 'Attendance trend'}
+              getData={() => ({
+                headers: ['gameweek', 'league_average', 'matches', ...(focused ? [`${focused.name} attendance`] : [])],
+                rows: leagueTrend.map(week => {
+                  const point = focused && focused.trend.find(p => p.week === week.week);
+                  return [week.week, week.average, week.matches, ...(focused ? [point ? point.attendance : ''] : [])];
+                })
+              })}
+            />
+          </div>
+          <PlotlyChart chartRef={trendChartRef} figure={trendFigure} className="chart-container" />
+        </div>
+
+        <div className="lg:col-span-2">
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <h3 className="text-xs uppercase text-gray-400">Attendance vs goals and result</h3>
+            <ChartExportMenu
+              chartRef={outcomeChartRef}
+              title="Attendance vs goals"
+              getData={() => ({
+                headers: ['date', 'match', 'attendance', 'goals', 'outcome'],
+                rows: points.map(point => [point.date, point.match, point.attendance, point.goals, point.outcome])
+              })}
+            />
+          </div>
+          <PlotlyChart chartRef={outcomeChartRef} figure={outcomeFigure} className="chart-container" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AttendancePanel;
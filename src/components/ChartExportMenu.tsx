@@ -0,0 +1,92 @@
+import React, { RefObject, useEffect, useRef, useState } from 'react';
+import {
+  ChartImageFormat,
+  ChartTable,
+  chartFileName,
+  downloadChartData,
+  downloadChartImage
+} from '../utils/chartExport';
+
+interface ChartExportMenuProps {
+  // Element the chart is drawn into
+  chartRef: RefObject<HTMLDivElement>;
+  // Chart title, used for the downloaded file names
+  title: string;
+  // The chart's underlying data, built only when a CSV is requested
+  getData: () => ChartTable;
+}
+
+// Export button for a chart card: the chart as PNG or SVG, or its data as CSV
+const ChartExportMenu = ({ chartRef, title, getData }: ChartExportMenuProps): JSX.Element => {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else or pressing Escape
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setOpen(false);
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [open]);
+
+  const exportImage = async (format: ChartImageFormat) => {
+    setOpen(false);
+    setError('');
+    // Charts with nothing to show are cleared rather than drawn
+    if (!chartRef.current || !chartRef.current.classList.contains('js-plotly-plot') || chartRef.current.childElementCount === 0) {
+      setError('Nothing to export');
+      return;
+    }
+    try {
+      await downloadChartImage(chartRef.current, format, chartFileName(title));
+    } catch (err) {
+      console.error('Failed to export chart:', err);
+      setError('Export failed');
+    }
+  };
+
+  const exportData = () => {
+    setOpen(false);
+    setError('');
+    downloadChartData(getData(), chartFileName(title));
+  };
+
+  return (
+    <div ref={menuRef} className="relative shrink-0 print:hidden">
+      <button
+        className="text-xs bg-[#2D1F54] border border-[#38003C] text-gray-300 px-2 py-1 rounded hover:bg-[#38003C]/80"
+        onClick={() => setOpen(!open)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        title={error || 'Export chart'}
+      >
+        {error ? `⚠ ${error}` : 'Export ▾'}
+      </button>
+      {open && (
+        <div role="menu" className="absolute right-0 mt-1 z-20 w-36 bg-[#2D1F54] border border-[#38003C] rounded-lg shadow-lg overflow-hidden text-xs">
+          <button role="menuitem" className="block w-full text-left px-3 py-2 hover:bg-[#38003C]" onClick={() => exportImage('png')}>
+            Image (PNG)
+          </button>
+          <button role="menuitem" className="block w-full text-left px-3 py-2 hover:bg-[#38003C]" onClick={() => exportImage('svg')}>
+            Image (SVG)
+          </button>
+          <button role="menuitem" className="block w-full text-left px-3 py-2 hover:bg-[#38003C]" onClick={exportData}>
+            Data (CSV)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartExportMenu;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { MatchField } from '../types';
+import { ALL_FIELDS, ColumnMapping, REQUIRED_FIELDS, getMissingFields } from '../utils/csv';
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  headers: string[];
+  initialMapping: ColumnMapping;
+  onConfirm: (mapping: ColumnMapping, rememberAliases: boolean) => void;
+  onCancel: () => void;
+}
+
+// Interactive step shown when an uploaded CSV is missing required columns.
+// Lets the user point each MatchData field at one of the file's headers.
+const ColumnMappingDialog = ({ fileName, headers, initialMapping, onConfirm, onCancel }: ColumnMappingDialogProps): JSX.Element => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [rememberAliases, setRememberAliases] = useState<boolean>(true);
+  const missing = getMissingFields(mapping);
+
+  const updateField = (field: MatchField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-[#1A1E2E] border border-[#FF2882]/40 rounded-xl shadow-lg mb-4 sm:mb-6 overflow-hidden">
+      <div className="p-3 sm:p-4 border-b border-gray-800">
+        <h2 className="text-base sm:text-lg font-semibold text-white">Map CSV Columns</h2>
+        <p className="text-xs text-gray-400 mt-1">
+          Some required columns in <span className="text-white">{fileName}</span> could not be matched by name.
+          Choose which column holds each field.
+        </p>
+      </div>
+      <div className="p-3 sm:p-4 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+        {ALL_FIELDS.map(field => {
+          const required = REQUIRED_FIELDS.includes(field);
+          const unmapped = required && mapping[field] === undefined;
+          return (
+            <label key={field} className="flex flex-col text-xs text-gray-400 gap-1">
+              <span>
+                {field}
+                {required && <span className="text-[#FF2882]"> *</span>}
+              </span>
+              <select
+                value={mapping[field] === undefined ? '' : String(mapping[field])}
+                onChange={e => updateField(field, e.target.value)}
+                className={`appearance-none bg-[#2D1F54] border rounded-lg py-2 px-3 text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FF2882] ${
+                  unmapped ? 'border-[#FF2882]' : 'border-[#38003C]'
+                }`}
+              >
+                <option value="">{required ? 'Select column...' : '(not in file)'}</option>
+                {headers.map((header, idx) => (
+                  <option key={`${header}-${idx}`} value={idx}>{header || `Column ${idx + 1}`}</option>
+                ))}
+              </select>
+            </label>
+          );
+        })}
+      </div>
+      <div className="p-3 sm:p-4 border-t border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <label className="flex items-center text-xs text-gray-400 gap-2">
+          <input
+            type="checkbox"
+            checked={rememberAliases}
+            onChange={e => setRememberAliases(e.target.checked)}
+          />
+          Remember these column names for future uploads
+        </label>
+        <div className="flex gap-2 w-full sm:w-auto">
+          <button
+            className="text-sm bg-transparent border border-gray-600 text-gray-300 px-4 py-2 rounded-lg hover:bg-[#2A305E] flex-1 sm:flex-none"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            className="text-sm bg-[#38003C] text-white px-4 py-2 rounded-lg hover:bg-[#38003C]/80 disabled:opacity-50 disabled:cursor-not-allowed flex-1 sm:flex-none"
+            disabled={missing.length > 0}
+            onClick={() => onConfirm(mapping, rememberAliases)}
+          >
+            {missing.length > 0 ? `Map ${missing.length} more` : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import {
+  DATASET_CATALOG,
+  DATASET_SCHEMA_VERSION,
+  Dataset,
+  DatasetContext,
+  buildDataset,
+  datasetToCsv,
+  datasetToJson
+} from '../analytics';
+import { downloadText } from '../utils/chartExport';
+
+interface DataExportPanelProps {
+  context: DatasetContext;
+  // Human-readable filters in effect, recorded in JSON exports
+  filters: Record<string, string>;
+  // Appended to each file name, e.g. the season id
+  fileSuffix: string;
+  onClose: () => void;
+}
+
+// Downloads the dashboard's derived tables as CSV or JSON, with their column schema
+const DataExportPanel = ({ context, filters, fileSuffix, onClose }: DataExportPanelProps): JSX.Element => {
+  const datasets = useMemo(
+    () => DATASET_CATALOG.map(definition => buildDataset(definition.id, context)),
+    [context]
+  );
+
+  const download = (dataset: Dataset, format: 'csv' | 'json') => {
+    const fileName = `${dataset.definition.id}-${fileSuffix}.${format}`;
+    console.log('Exporting dataset:', { dataset: dataset.definition.id, format, rows: dataset.rows.length });
+    if (format === 'csv') {
+      downloadText(datasetToCsv(dataset), fileName, 'text/csv;charset=utf-8');
+    } else {
+      downloadText(datasetToJson(dataset, filters), fileName, 'application/json');
+    }
+  };
+
+  return (
+    <div className="bg-[#1A1E2E] border border-[#38003C] rounded-xl shadow-lg mb-4 sm:mb-6 overflow-hidden print:hidden">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex justify-between items-center">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">Export Data</h2>
+          <p className="text-xs text-gray-400 mt-1">
+            The tables behind the dashboard, for the current filters (schema version {DATASET_SCHEMA_VERSION})
+          </p>
+        </div>
+        <button className="text-gray-400 hover:text-white text-sm" onClick={onClose}>✕</button>
+      </div>
+
+      <ul className="divide-y divide-gray-800">
+        {datasets.map(dataset => (
+          <li key={dataset.definition.id} className="p-3 sm:p-4">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+              <div>
+                <div className="text-sm text-white font-medium">
+                  {dataset.definition.label}
+                  <span className="ml-2 text-xs text-gray-500 font-mono">{dataset.definition.id}</span>
+                </div>
+                <div className="text-xs text-gray-400">
+                  {dataset.definition.description} · {dataset.rows.length} rows
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {(['csv', 'json'] as const).map(format => (
+                  <button
+                    key={format}
+                    className="text-xs bg-[#38003C] text-white px-3 py-1 rounded hover:bg-[#38003C]/80 disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={() => download(dataset, format)}
+                    disabled={dataset.rows.length === 0}
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <details className="mt-2 text-xs">
+              <summary className="cursor-pointer text-gray-400 hover:text-white">Columns</summary>
+              <table className="mt-2 w-full text-left">
+                <tbody>
+                  {dataset.definition.columns.map(col => (
+                    <tr key={col.name} className="border-b border-gray-800/50">
+                      <td className="py-1 pr-3 font-mono text-[#00D3FF] whitespace-nowrap">{col.name}</td>
+                      <td className="py-1 pr-3 text-gray-500">{col.type}</td>
+                      <td className="py-1 text-gray-300">{col.description}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DataExportPanel;
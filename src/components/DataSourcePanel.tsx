@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { MatchField } from '../types';
+import { ALL_FIELDS, REQUIRED_FIELDS } from '../utils/csv';
+import {
+  HttpSourceConfig,
+  HttpSourceStatus,
+  LiveStreamStatus,
+  POLL_INTERVAL_OPTIONS,
+  loadHttpSourceConfig,
+  loadLiveStreamUrl
+} from '../sources';
+
+interface DataSourcePanelProps {
+  // Endpoint currently being polled, if any
+  connected: HttpSourceConfig | null;
+  status: HttpSourceStatus;
+  onConnect: (config: HttpSourceConfig) => void;
+  onDisconnect: () => void;
+  // Live-score stream currently open, if any
+  liveStreamUrl: string | null;
+  liveStreamStatus: LiveStreamStatus;
+  onConnectLiveStream: (url: string) => void;
+  onDisconnectLiveStream: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 px-3 text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FF2882]';
+
+const describeInterval = (seconds: number): string => {
+  if (seconds === 0) return 'Load once';
+  if (seconds < 60) return `Every ${seconds} seconds`;
+  return seconds === 60 ? 'Every minute' : `Every ${seconds / 60} minutes`;
+};
+
+// Where the dashboard's matches come from: a CSV upload, a JSON endpoint that is
+// polled for updates, and a stream of live scores on matchdays
+const DataSourcePanel = ({
+  connected,
+  status,
+  onConnect,
+  onDisconnect,
+  liveStreamUrl,
+  liveStreamStatus,
+  onConnectLiveStream,
+  onDisconnectLiveStream,
+  onClose
+}: DataSourcePanelProps): JSX.Element => {
+  const [draft, setDraft] = useState<HttpSourceConfig>(() => connected || loadHttpSourceConfig());
+  const [streamDraft, setStreamDraft] = useState<string>(() => liveStreamUrl || loadLiveStreamUrl());
+
+  const update = (changes: Partial<HttpSourceConfig>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateField = (field: MatchField, value: string) => {
+    setDraft(prev => {
+      const fieldMap = { ...prev.fieldMap };
+      if (value.trim() === '') {
+        delete fieldMap[field];
+      } else {
+        fieldMap[field] = value.trim();
+      }
+      return { ...prev, fieldMap };
+    });
+  };
+
+  const validUrl = /^https?:\/\/\S+$/i.test(draft.url.trim());
+  const validStreamUrl = /^(wss?|https?):\/\/\S+$/i.test(streamDraft.trim());
+
+  return (
+    <div className="bg-[#1A1E2E] border border-[#38003C] rounded-xl shadow-lg mb-4 sm:mb-6 overflow-hidden print:hidden">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex justify-between items-center">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">Data Sources</h2>
+          <p className="text-xs text-gray-400 mt-1">Load a season from a CSV file, keep one in sync with a JSON endpoint and follow live scores</p>
+        </div>
+        <button className="text-gray-400 hover:text-white text-sm" onClick={onClose}>✕</button>
+      </div>
+
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+        <div>
+          <h3 className="text-xs uppercase text-gray-400 mb-1">CSV file</h3>
+          <p className="text-xs text-gray-400">An FBref-style fixtures export; unrecognised columns can be mapped by hand</p>
+        </div>
+        <label
+          htmlFor="file-upload"
+          className="cursor-pointer text-sm bg-[#38003C] text-white px-4 py-2 rounded-lg hover:bg-[#38003C]/80"
+        >
+          Choose file
+        </label>
+      </div>
+
+      <div className="p-3 sm:p-4">
+        <h3 className="text-xs uppercase text-gray-400 mb-1">JSON endpoint</h3>
+        <p className="text-xs text-gray-400 mb-3">
+          Any URL returning an array of matches. Responses are validated, obvious fixes are applied and
+          rows that still fail are skipped.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="flex flex-col text-xs text-gray-400 gap-1 md:col-span-2">
+            URL
+            <input
+              type="url"
+              value={draft.url}
+              onChange={e => update({ url: e.target.value })}
+              placeholder="https://example.com/api/matches"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col text-xs text-gray-400 gap-1">
+            Auth header
+            <input
+              type="text"
+              value={draft.authHeaderName}
+              onChange={e => update({ authHeaderName: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col text-xs text-gray-400 gap-1">
+            Header value (not saved)
+            <input
+              type="password"
+              value={draft.authHeaderValue}
+              onChange={e => update({ authHeaderValue: e.target.value })}
+              placeholder="Bearer ..."
+              autoComplete="off"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col text-xs text-gray-400 gap-1">
+            Path to the matches
+            <input
+              type="text"
+              value={draft.recordsPath}
+              onChange={e => update({ recordsPath: e.target.value })}
+              placeholder="e.g. data.fixtures (empty if the response is the array)"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col text-xs text-gray-400 gap-1">
+            Check for updates
+            <select
+              value={draft.pollIntervalSeconds}
+              onChange={e => update({ pollIntervalSeconds: Number(e.target.value) })}
+              className={`appearance-none ${inputClass}`}
+            >
+              {POLL_INTERVAL_OPTIONS.map(seconds => (
+                <option key={seconds} value={seconds}>{describeInterval(seconds)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <details className="mt-3 text-xs">
+          <summary className="cursor-pointer text-gray-400 hover:text-white">
+            Field mapping{Object.keys(draft.fieldMap).length > 0 ? ` (${Object.keys(draft.fieldMap).length} mapped)` : ''}
+          </summary>
+          <p className="text-gray-500 mt-2">
+            The property (dot path) holding each field. Leave blank when the property has the field&apos;s own name.
+          </p>
+          <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+            {ALL_FIELDS.map(field => (
+              <label key={field} className="flex flex-col text-gray-400 gap-1">
+                <span>
+                  {field}
+                  {REQUIRED_FIELDS.includes(field) && <span className="text-[#FF2882]"> *</span>}
+                </span>
+                <input
+                  type="text"
+                  value={draft.fieldMap[field] || ''}
+                  onChange={e => updateField(field, e.target.value)}
+                  placeholder={field}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </details>
+
+        <div className="mt-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+          <div className="text-xs">
+            {connected ? (
+              <>
+                <span className="text-[#00D3FF]">Connected to {connected.url}</span>
+                {status.checkedAt !== null && (
+                  <span className="text-gray-400"> · last checked {new Date(status.checkedAt).toLocaleTimeString()}</span>
+                )}
+                {status.skippedRows > 0 && (
+                  <span className="text-yellow-300"> · {status.skippedRows} invalid rows skipped</span>
+                )}
+                {status.error && <div className="text-[#FF2882] mt-1">{status.error}</div>}
+              </>
+            ) : (
+              <span className="text-gray-400">Not connected</span>
+            )}
+          </div>
+          <div className="flex gap-2 w-full sm:w-auto">
+            {connected && (
+              <>
+                <button
+                  className="text-sm bg-transparent border border-gray-600 text-gray-300 px-4 py-2 rounded-lg hover:bg-[#2A305E] flex-1 sm:flex-none"
+                  onClick={onDisconnect}
+                >
+                  Disconnect
+                </button>
+                <button
+                  className="text-sm bg-transparent border border-gray-600 text-gray-300 px-4 py-2 rounded-lg hover:bg-[#2A305E] flex-1 sm:flex-none"
+                  onClick={() => onConnect(connected)}
+                >
+                  Check now
+                </button>
+              </>
+            )}
+            <button
+              className="text-sm bg-[#38003C] text-white px-4 py-2 rounded-lg hover:bg-[#38003C]/80 disabled:opacity-50 disabled:cursor-not-allowed flex-1 sm:flex-none"
+              disabled={!validUrl}
+              onClick={() => onConnect({ ...draft, url: draft.url.trim() })}
+            >
+              {connected ? 'Reconnect' : 'Connect'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-3 sm:p-4 border-t border-gray-800">
+        <h3 className="text-xs uppercase text-gray-400 mb-1">Live scores</h3>
+        <p className="text-xs text-gray-400 mb-3">
+          A WebSocket (<span className="font-mono">ws://</span>) or Server-Sent Events (<span className="font-mono">http://</span>)
+          stream of JSON updates with Home, Away, Score, Minute, xG, xG_away and Status. Matches in progress feed the
+          live table; &quot;FT&quot; records the result.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="url"
+            value={streamDraft}
+            onChange={e => setStreamDraft(e.target.value)}
+            placeholder="ws://localhost:8080/live"
+            className={`${inputClass} flex-1`}
+          />
+          {liveStreamUrl && (
+            <button
+              className="text-sm bg-transparent border border-gray-600 text-gray-300 px-4 py-2 rounded-lg hover:bg-[#2A305E]"
+              onClick={onDisconnectLiveStream}
+            >
+              Disconnect
+            </button>
+          )}
+          <button
+            className="text-sm bg-[#38003C] text-white px-4 py-2 rounded-lg hover:bg-[#38003C]/80 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={!validStreamUrl}
+            onClick={() => onConnectLiveStream(streamDraft.trim())}
+          >
+            {liveStreamUrl ? 'Reconnect' : 'Connect'}
+          </button>
+        </div>
+        <div className="text-xs mt-2">
+          {liveStreamUrl ? (
+            <>
+              <span className="text-[#00D3FF]">Listening to {liveStreamUrl}</span>
+              <span className="text-gray-400">
+                {liveStreamStatus.lastMessageAt !== null
+                  ? ` · last update ${new Date(liveStreamStatus.lastMessageAt).toLocaleTimeString()}`
+                  : ' · waiting for updates'}
+              </span>
+              {liveStreamStatus.error && <div className="text-[#FF2882] mt-1">{liveStreamStatus.error}</div>}
+            </>
+          ) : (
+            <span className="text-gray-400">Not connected</span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataSourcePanel;
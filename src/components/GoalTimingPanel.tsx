@@ -0,0 +1,160 @@
+import React, { useMemo, useRef } from 'react';
+import { MatchData } from '../types';
+import {
+  GoalEventIndex,
+  computeFirstGoalTime,
+  computeGameStates,
+  computeGoalBuckets,
+  eventsForMatch
+} from '../analytics';
+import ChartExportMenu from './ChartExportMenu';
+import PlotlyChart, { PlotlyFigure } from './PlotlyChart';
+
+interface GoalTimingPanelProps {
+  // Played matches in scope
+  matches: MatchData[];
+  index: GoalEventIndex;
+  selectedTeam: string;
+  onClear: () => void;
+}
+
+const GAME_STATE_ROWS = 8;
+
+// Analysis that needs goal timings: goals by 15-minute bucket, first-goal times and
+// points dropped from winning (or won from losing) positions
+const GoalTimingPanel = ({ matches, index, selectedTeam, onClear }: GoalTimingPanelProps): JSX.Element => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const team = selectedTeam || undefined;
+
+  const covered = useMemo(() => matches.filter(match => eventsForMatch(index, match) !== null).length, [matches, index]);
+  const buckets = useMemo(() => computeGoalBuckets(matches, index, team), [matches, index, team]);
+  const firstGoal = useMemo(() => computeFirstGoalTime(matches, index, team), [matches, index, team]);
+  const gameStates = useMemo(() => computeGameStates(matches, index), [matches, index]);
+
+  // Top of the table, plus the selected team if it isn't already shown
+  const gameStateRows = useMemo(() => {
+    const top = gameStates.slice(0, GAME_STATE_ROWS);
+    const selected = gameStates.find(row => row.team === selectedTeam);
+    return selected && !top.includes(selected) ? [...top, selected] : top;
+  }, [gameStates, selectedTeam]);
+
+  // Figure for the goals by 15-minute bucket chart
+  const bucketsFigure = useMemo((): PlotlyFigure | null => {
+    const colors = ['#00D3FF', '#FF2882'];
+    const chartData = buckets.series.map((series, idx) => ({
+      x: buckets.labels,
+      y: series.counts,
+      type: 'bar',
+      name: series.name,
+      marker: { color: colors[idx % colors.length] },
+      hovertemplate: `${series.name}: %{y}<br>Minutes %{x}<extra></extra>`
+    }));
+
+    const layout = {
+      title: '',
+      font: {
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      barmode: 'group',
+      xaxis: {
+        title: 'Minute',
+        gridcolor: 'transparent'
+      },
+      yaxis: {
+        title: 'Goals',
+        gridcolor: 'transparent'
+      },
+      margin: { t: 40, r: 20, l: 60, b: 60 },
+      legend: {
+        orientation: 'h',
+        xanchor: 'center',
+        x: 0.5,
+        y: 1.1,
+        bgcolor: 'rgba(26, 30, 46, 0)'
+      }
+    };
+
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [buckets]);
+
+  return (
+    <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">
+            {selectedTeam ? `${selectedTeam}: Goal Timing` : 'Goal Timing'}
+          </h2>
+          <p className="text-xs text-gray-400 mt-1">
+            Goal events cover {covered} of {matches.length} played matches
+            {index.unmatched.length > 0 && ` · ${index.unmatched.length} events didn't match a fixture`}
+            {index.inconsistent.length > 0 && ` · ${index.inconsistent.length} matches left out because their events don't add up to the score`}
+          </p>
+        </div>
+        <button className="text-xs text-gray-400 hover:text-[#FF2882]" onClick={onClear}>
+          Remove goal events
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-2 sm:p-4">
+        <div>
+          <div className="flex items-start justify-between gap-2 mb-2">
+            <div className="text-sm text-gray-300">
+              {Number.isFinite(firstGoal.average)
+                ? `${selectedTeam ? `${selectedTeam} score their first goal` : 'The first goal comes'} after ` +
+                  `${firstGoal.average.toFixed(0)} minutes on average (${firstGoal.matches} matches)`
+                : 'No first goals in the covered matches'}
+            </div>
+            <ChartExportMenu
+              chartRef={chartRef}
+              title={selectedTeam ? `${selectedTeam} goal timing` : 'Goal timing'}
+              getData={() => ({
+                headers: ['minutes', ...buckets.series.map(series => series.name)],
+                rows: buckets.labels.map((label, idx) => [label, ...buckets.series.map(series => series.counts[idx])])
+              })}
+            />
+          </div>
+          <PlotlyChart chartRef={chartRef} figure={bucketsFigure} className="chart-container" />
+        </div>
+
+        <div className="overflow-x-auto">
+          <h3 className="text-xs uppercase text-gray-400 mb-2">Points from winning and losing positions</h3>
+          <table className="w-full text-xs sm:text-sm text-left">
+            <thead className="bg-[#191D30] text-gray-400 uppercase text-xs">
+              <tr>
+                <th className="p-2">Team</th>
+                <th className="p-2 text-center" title="Matches in which the team led at some point">Led</th>
+                <th className="p-2 text-center" title="Points dropped after leading">Pts dropped</th>
+                <th className="p-2 text-center" title="Matches in which the team trailed at some point">Trailed</th>
+                <th className="p-2 text-center" title="Points won after trailing">Pts won</th>
+              </tr>
+            </thead>
+            <tbody>
+              {gameStateRows.map(row => (
+                <tr
+                  key={row.team}
+                  className={`border-b border-gray-800/50 ${row.team === selectedTeam ? 'bg-[#38003C]/60 text-white font-semibold' : ''}`}
+                >
+                  <td className="p-2 whitespace-nowrap">{row.team}</td>
+                  <td className="p-2 text-center">{row.led}</td>
+                  <td className="p-2 text-center text-[#FF2882]">{row.pointsDroppedFromWinning}</td>
+                  <td className="p-2 text-center">{row.trailed}</td>
+                  <td className="p-2 text-center text-[#00D3FF]">{row.pointsWonFromLosing}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalTimingPanel;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { HomeAwaySplit, VenueRecord } from '../analytics';
+
+interface HomeAwayCardProps {
+  split: HomeAwaySplit;
+}
+
+interface Metric {
+  label: string;
+  value: (record: VenueRecord) => string;
+  // Numeric value used to mark the better side (omitted for counts)
+  compare?: (record: VenueRecord) => number;
+  higherIsBetter?: boolean;
+}
+
+const METRICS: Metric[] = [
+  { label: 'Played', value: r => String(r.played) },
+  { label: 'W-D-L', value: r => `${r.won}-${r.drawn}-${r.lost}` },
+  { label: 'Points per game', value: r => r.ppg.toFixed(2), compare: r => r.ppg, higherIsBetter: true },
+  { label: 'Goals for / match', value: r => r.goalsForPerMatch.toFixed(2), compare: r => r.goalsForPerMatch, higherIsBetter: true },
+  { label: 'Goals against / match', value: r => r.goalsAgainstPerMatch.toFixed(2), compare: r => r.goalsAgainstPerMatch, higherIsBetter: false },
+  { label: 'xG / match', value: r => r.xGPerMatch.toFixed(2), compare: r => r.xGPerMatch, higherIsBetter: true },
+  { label: 'xGA / match', value: r => r.xGAPerMatch.toFixed(2), compare: r => r.xGAPerMatch, higherIsBetter: false }
+];
+
+const signed = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+// Side-by-side home and away record for one team, with its home advantage
+// (home PPG minus away PPG) against the league's
+const HomeAwayCard = ({ split }: HomeAwayCardProps): JSX.Element => {
+  const { home, away } = split;
+  const bothPlayed = home.played > 0 && away.played > 0;
+  const teamAdvantage = home.ppg - away.ppg;
+  const leagueAdvantage = split.leagueHomePpg - split.leagueAwayPpg;
+
+  const better = (metric: Metric, side: VenueRecord, other: VenueRecord): boolean => {
+    if (!metric.compare || !bothPlayed) return false;
+    const diff = metric.compare(side) - metric.compare(other);
+    return metric.higherIsBetter ? diff > 0 : diff < 0;
+  };
+
+  return (
+    <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+      <div className="p-3 sm:p-4 border-b border-gray-800">
+        <h2 className="text-base sm:text-lg font-semibold text-white">{split.team}: Home vs Away</h2>
+        <p className="text-xs text-gray-400 mt-1">
+          {bothPlayed
+            ? `Home advantage ${signed(teamAdvantage)} PPG vs a league average of ${signed(leagueAdvantage)}`
+            : 'Needs at least one home and one away result to compare'}
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs sm:text-sm text-left">
+          <thead className="bg-[#191D30] text-gray-400 uppercase text-xs">
+            <tr>
+              <th className="p-2 sm:p-3"></th>
+              <th className="p-2 sm:p-3 text-center">Home</th>
+              <th className="p-2 sm:p-3 text-center">Away</th>
+            </tr>
+          </thead>
+          <tbody>
+            {METRICS.map(metric => (
+              <tr key={metric.label} className="border-b border-gray-800/50">
+                <td className="p-2 sm:p-3 text-gray-400">{metric.label}</td>
+                <td className={`p-2 sm:p-3 text-center ${better(metric, home, away) ? 'text-[#00D3FF] font-semibold' : ''}`}>
+                  {home.played > 0 || !metric.compare ? metric.value(home) : '–'}
+                </td>
+                <td className={`p-2 sm:p-3 text-center ${better(metric, away, home) ? 'text-[#00D3FF] font-semibold' : ''}`}>
+                  {away.played > 0 || !metric.compare ? metric.value(away) : '–'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default HomeAwayCard;
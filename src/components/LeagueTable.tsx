@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { FormResult, StandingsRow } from '../analytics';
+
+type SortKey = 'position' | 'team' | 'played' | 'won' | 'drawn' | 'lost' | 'goalsFor' | 'goalsAgainst' | 'goalDifference' | 'points' | 'xPts' | 'form';
+
+interface LeagueTableProps {
+  standings: StandingsRow[];
+  selectedTeam: string;
+  onSelectTeam?: (team: string) => void;
+}
+
+interface Column {
+  key: SortKey;
+  label: string;
+  title: string;
+  // Columns where a higher value ranks first when the header is first clicked
+  descending: boolean;
+}
+
+const COLUMNS: Column[] = [
+  { key: 'position', label: '#', title: 'Position', descending: false },
+  { key: 'team', label: 'Team', title: 'Team', descending: false },
+  { key: 'played', label: 'P', title: 'Played', descending: true },
+  { key: 'won', label: 'W', title: 'Won', descending: true },
+  { key: 'drawn', label: 'D', title: 'Drawn', descending: true },
+  { key: 'lost', label: 'L', title: 'Lost', descending: true },
+  { key: 'goalsFor', label: 'GF', title: 'Goals For', descending: true },
+  { key: 'goalsAgainst', label: 'GA', title: 'Goals Against', descending: true },
+  { key: 'goalDifference', label: 'GD', title: 'Goal Difference', descending: true },
+  { key: 'points', label: 'Pts', title: 'Points', descending: true },
+  { key: 'xPts', label: 'xPts', title: 'Expected Points (from xG)', descending: true },
+  { key: 'form', label: 'Form', title: 'Last 5 matches', descending: true }
+];
+
+const FORM_COLORS: Record<FormResult, string> = {
+  W: 'bg-[#00D3FF] text-[#1A1E2E]',
+  D: 'bg-gray-400 text-[#1A1E2E]',
+  L: 'bg-[#FF2882] text-white'
+};
+
+const formPoints = (form: FormResult[]): number =>
+  form.reduce((sum, result) => sum + (result === 'W' ? 3 : result === 'D' ? 1 : 0), 0);
+
+// League standings with sortable columns and the selected team highlighted
+const LeagueTable = ({ standings, selectedTeam, onSelectTeam }: LeagueTableProps): JSX.Element => {
+  const [sortKey, setSortKey] = useState<SortKey>('position');
+  const [sortDescending, setSortDescending] = useState<boolean>(false);
+
+  const sortedRows = useMemo(() => {
+    const value = (row: StandingsRow): number | string =>
+      sortKey === 'form' ? formPoints(row.form) : row[sortKey];
+
+    return [...standings].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      const diff = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+      // Fall back to league position so ties keep table order
+      return (sortDescending ? -diff : diff) || a.position - b.position;
+    });
+  }, [standings, sortKey, sortDescending]);
+
+  const handleSort = (column: Column) => {
+    if (column.key === sortKey) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortKey(column.key);
+      setSortDescending(column.descending);
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs sm:text-sm text-left">
+        <thead className="bg-[#191D30] text-gray-400 uppercase text-xs">
+          <tr>
+            {COLUMNS.map(column => (
+              <th
+                key={column.key}
+                title={column.title}
+                className={`p-2 sm:p-3 cursor-pointer select-none whitespace-nowrap hover:text-white ${
+                  column.key === sortKey ? 'text-white' : ''
+                } ${column.key === 'team' ? '' : 'text-center'}`}
+                onClick={() => handleSort(column)}
+              >
+                {column.label}
+                {column.key === sortKey && (sortDescending ? ' ▼' : ' ▲')}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedRows.map(row => (
+            <tr
+              key={row.team}
+              className={`border-b border-gray-800/50 hover:bg-[#2A305E] ${onSelectTeam ? 'cursor-pointer' : ''} ${
+                row.team === selectedTeam ? 'bg-[#38003C]/60 text-white font-semibold' : ''
+              }`}
+              onClick={() => onSelectTeam?.(row.team === selectedTeam ? '' : row.team)}
+            >
+              <td className="p-2 sm:p-3 text-center text-gray-400">{row.position}</td>
+              <td className="p-2 sm:p-3 whitespace-nowrap font-medium">{row.team}</td>
+              <td className="p-2 sm:p-3 text-center">{row.played}</td>
+              <td className="p-2 sm:p-3 text-center">{row.won}</td>
+              <td className="p-2 sm:p-3 text-center">{row.drawn}</td>
+              <td className="p-2 sm:p-3 text-center">{row.lost}</td>
+              <td className="p-2 sm:p-3 text-center">{row.goalsFor}</td>
+              <td className="p-2 sm:p-3 text-center">{row.goalsAgainst}</td>
+              <td className="p-2 sm:p-3 text-center">{row.goalDifference > 0 ? `+${row.goalDifference}` : row.goalDifference}</td>
+              <td className="p-2 sm:p-3 text-center font-bold">{row.points}</td>
+              <td className="p-2 sm:p-3 text-center text-gray-300">{row.xPts.toFixed(1)}</td>
+              <td className="p-2 sm:p-3">
+                <div className="flex gap-1 justify-center">
+                  {row.form.map((result, idx) => (
+                    <span
+                      key={idx}
+                      className={`w-5 h-5 rounded-full text-[10px] font-bold flex items-center justify-center ${FORM_COLORS[result]}`}
+                    >
+                      {result}
+                    </span>
+                  ))}
+                </div>
+              </td>
+            </tr>
+          ))}
+          {sortedRows.length === 0 && (
+            <tr>
+              <td colSpan={COLUMNS.length} className="p-4 sm:p-8 text-center text-gray-400">No match data available</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LeagueTable;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { LiveTableRow } from '../analytics';
+
+interface LiveTablePanelProps {
+  rows: LiveTableRow[];
+  // Live matches in the table, for the subtitle
+  liveCount: number;
+  selectedTeam: string;
+  onSelectTeam?: (team: string) => void;
+}
+
+const movement = (change: number): JSX.Element => {
+  if (change > 0) return <span className="text-[#00D3FF]" title={`Up ${change}`}>▲{change}</span>;
+  if (change < 0) return <span className="text-[#FF2882]" title={`Down ${-change}`}>▼{-change}</span>;
+  return <span className="text-gray-600">–</span>;
+};
+
+// The table as it would stand if every live match ended now, with each team's
+// movement against the table on completed results
+const LiveTablePanel = ({ rows, liveCount, selectedTeam, onSelectTeam }: LiveTablePanelProps): JSX.Element => (
+  <div className="bg-[#1A1E2E] border border-[#FF2882]/40 rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+    <div className="p-3 sm:p-4 border-b border-gray-800">
+      <h2 className="text-base sm:text-lg font-semibold text-white flex items-center gap-2">
+        <span className="w-2 h-2 rounded-full bg-[#FF2882] animate-pulse" />
+        Live Table
+      </h2>
+      <p className="text-xs text-gray-400 mt-1">
+        Provisional, with {liveCount} {liveCount === 1 ? 'match' : 'matches'} in progress counted at the current score
+      </p>
+    </div>
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs sm:text-sm text-left">
+        <thead className="bg-[#191D30] text-gray-400 uppercase text-xs">
+          <tr>
+            <th className="p-2 sm:p-3 text-center" title="Provisional position">#</th>
+            <th className="p-2 sm:p-3 text-center" title="Change against the table on completed results">+/-</th>
+            <th className="p-2 sm:p-3">Team</th>
+            <th className="p-2 sm:p-3">Now</th>
+            <th className="p-2 sm:p-3 text-center" title="Played">P</th>
+            <th className="p-2 sm:p-3 text-center" title="Goal Difference">GD</th>
+            <th className="p-2 sm:p-3 text-center" title="Points">Pts</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr
+              key={row.team}
+              className={`border-b border-gray-800/50 hover:bg-[#2A305E] ${onSelectTeam ? 'cursor-pointer' : ''} ${
+                row.team === selectedTeam ? 'bg-[#38003C]/60 text-white font-semibold' : ''
+              }`}
+              onClick={() => onSelectTeam?.(row.team === selectedTeam ? '' : row.team)}
+            >
+              <td className="p-2 sm:p-3 text-center text-gray-400">{row.position}</td>
+              <td className="p-2 sm:p-3 text-center text-xs font-mono">{movement(row.change)}</td>
+              <td className="p-2 sm:p-3 whitespace-nowrap font-medium">{row.team}</td>
+              <td className="p-2 sm:p-3 whitespace-nowrap text-xs">
+                {row.liveMatch ? (
+                  <>
+                    <span className="font-mono text-white">{row.liveMatch.score}</span>
+                    <span className="text-gray-400"> {row.liveMatch.venue === 'Home' ? 'vs' : 'at'} {row.liveMatch.opponent}</span>
+                    {row.liveMatch.minute !== undefined && (
+                      <span className="text-[#FF2882] ml-1">{row.liveMatch.minute}&apos;</span>
+                    )}
+                  </>
+                ) : (
+                  <span className="text-gray-600">–</span>
+                )}
+              </td>
+              <td className="p-2 sm:p-3 text-center">{row.played}</td>
+              <td className="p-2 sm:p-3 text-center">{row.goalDifference > 0 ? `+${row.goalDifference}` : row.goalDifference}</td>
+              <td className="p-2 sm:p-3 text-center font-bold">{row.points}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export default LiveTablePanel;
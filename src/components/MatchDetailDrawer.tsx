@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { GoalEvent } from '../types';
+import { FormEntry, FormResult, MatchDetail, parseAttendance } from '../analytics';
+import { getStatusLabel, isPlayed } from '../utils/fixtures';
+import MatchTimeline from './MatchTimeline';
+
+interface MatchDetailDrawerProps {
+  detail: MatchDetail;
+  // The match's goal events: undefined when none are loaded for the season,
+  // null when the loaded events don't cover this match
+  goalEvents?: GoalEvent[] | null;
+  onClose: () => void;
+}
+
+const FORM_COLORS: Record<FormResult, string> = {
+  W: 'bg-[#00D3FF] text-[#1A1E2E]',
+  D: 'bg-gray-400 text-[#1A1E2E]',
+  L: 'bg-[#FF2882] text-white'
+};
+
+const percent = (value: number): string => `${(value * 100).toFixed(0)}%`;
+
+const formatDate = (dateStr: string): string =>
+  new Date(dateStr).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Two or three shares of a whole as one stacked bar
+const ShareBar = ({ parts }: { parts: { label: string, value: number, color: string }[] }): JSX.Element => (
+  <div>
+    <div className="flex h-3 rounded-full overflow-hidden">
+      {parts.map(part => (
+        <div key={part.label} className={part.color} style={{ width: `${part.value * 100}%` }} title={`${part.label}: ${percent(part.value)}`}></div>
+      ))}
+    </div>
+    <div className="flex justify-between text-xs text-gray-300 mt-1">
+      {parts.map(part => <span key={part.label}>{part.label} {percent(part.value)}</span>)}
+    </div>
+  </div>
+);
+
+const FormRow = ({ team, form }: { team: string, form: FormEntry[] }): JSX.Element => (
+  <div className="flex items-center justify-between gap-2">
+    <span className="text-sm truncate">{team}</span>
+    <div className="flex gap-1">
+      {form.map((entry, idx) => (
+        <span
+          key={idx}
+          className={`w-5 h-5 rounded-full text-[10px] font-bold flex items-center justify-center ${FORM_COLORS[entry.result]}`}
+          title={`${entry.score} ${entry.venue === 'Home' ? 'vs' : 'at'} ${entry.opponent}, ${formatDate(entry.date)}`}
+        >
+          {entry.result}
+        </span>
+      ))}
+      {form.length === 0 && <span className="text-xs text-gray-500">No earlier results</span>}
+    </div>
+  </div>
+);
+
+const Section = ({ title, children }: { title: string, children: React.ReactNode }): JSX.Element => (
+  <section className="p-3 sm:p-4 border-b border-gray-800">
+    <h3 className="text-xs uppercase text-gray-400 mb-2">{title}</h3>
+    {children}
+  </section>
+);
+
+// Side panel with everything known about one match. The page URL points at the open
+// match, so copying it lets a colleague open the same one.
+const MatchDetailDrawer = ({ detail, goalEvents, onClose }: MatchDetailDrawerProps): JSX.Element => {
+  const { match, xgShare, probabilities, headToHead } = detail;
+  const [copied, setCopied] = useState<boolean>(false);
+  const played = isPlayed(match);
+  const attendance = parseAttendance(match.Attendance);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  useEffect(() => setCopied(false), [match]);
+
+  const copyLink = () => {
+    const url = window.location.href;
+    navigator.clipboard.writeText(url)
+      .then(() => setCopied(true))
+      .catch(err => {
+        console.error('Failed to copy match link:', err);
+        window.prompt('Copy this link', url);
+      });
+  };
+
+  const fields: [string, string][] = [
+    ['Gameweek', String(match.Wk)],
+    ['Date', `${match.Day ? `${match.Day} ` : ''}${formatDate(match.Date)}`],
+    ['Kick-off', match.Time || '–'],
+    ['Status', match.Status],
+    ['Venue', match.Venue || '–'],
+    ['Referee', match.Referee || '–'],
+    ['Attendance', Number.isFinite(attendance) ? attendance.toLocaleString('en-GB') : '–'],
+    ['xG', played ? `${match.xG.toFixed(1)} – ${match.xG_away.toFixed(1)}` : '–']
+  ];
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose}></div>
+      <aside
+        className="relative w-full sm:w-[28rem] h-full overflow-y-auto bg-[#1A1E2E] shadow-2xl border-l border-[#38003C]"
+        role="dialog"
+        aria-label={`${match.Home} vs ${match.Away}`}
+      >
+        <div className="p-3 sm:p-4 border-b border-gray-800 bg-gradient-to-r from-[#38003C] to-[#2D1F54]">
+          <div className="flex justify-between items-center mb-3">
+            <span className="text-xs text-gray-300">Week {match.Wk}</span>
+            <div className="flex gap-3">
+              <button className="text-xs text-gray-300 hover:text-white" onClick={copyLink}>
+                {copied ? 'Link copied' : 'Copy link'}
+              </button>
+              <button className="text-gray-300 hover:text-white" onClick={onClose} aria-label="Close">✕</button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2 text-white">
+            <span className="flex-1 font-semibold">{match.Home}</span>
+            <span className="text-2xl font-bold font-mono">{played ? match.Score : getStatusLabel(match)}</span>
+            <span className="flex-1 font-semibold text-right">{match.Away}</span>
+          </div>
+        </div>
+
+        <Section title="Match">
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            {fields.map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-gray-400">{label}</dt>
+                <dd className="text-right capitalize">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+        </Section>
+
+        {xgShare && probabilities && (
+          <Section title="Expected goals">
+            <div className="space-y-3">
+              <ShareBar parts={[
+                { label: match.Home, value: xgShare.home, color: 'bg-[#00D3FF]' },
+                { label: match.Away, value: xgShare.away, color: 'bg-[#FF2882]' }
+              ]} />
+              <div>
+                <div className="text-xs text-gray-400 mb-1">Result probabilities from the xG</div>
+                <ShareBar parts={[
+                  { label: 'Home', value: probabilities.win, color: 'bg-[#00D3FF]' },
+                  { label: 'Draw', value: probabilities.draw, color: 'bg-gray-400' },
+                  { label: 'Away', value: probabilities.loss, color: 'bg-[#FF2882]' }
+                ]} />
+              </div>
+            </div>
+          </Section>
+        )}
+
+        {goalEvents !== undefined && played && (
+          <Section title="Goals">
+            <MatchTimeline match={match} events={goalEvents} />
+          </Section>
+        )}
+
+        <Section title="Form going in">
+          <div className="space-y-2">
+            <FormRow team={match.Home} form={detail.homeForm} />
+            <FormRow team={match.Away} form={detail.awayForm} />
+          </div>
+        </Section>
+
+        <Section title="Head to head">
+          {headToHead.meetings.length > 0 ? (
+            <>
+              <p className="text-sm mb-2">
+                {match.Home} {headToHead.wins}W {headToHead.draws}D {headToHead.losses}L,
+                goals {headToHead.goalsFor}–{headToHead.goalsAgainst}
+              </p>
+              <ul className="text-xs space-y-1">
+                {headToHead.meetings.map((meeting, idx) => (
+                  <li key={idx} className="flex gap-3">
+                    <span className="w-24 text-gray-400">{formatDate(meeting.Date)}</span>
+                    <span>{meeting.Home} <span className="font-mono">{meeting.Score}</span> {meeting.Away}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="text-xs text-gray-400">No other meetings in the loaded seasons.</p>
+          )}
+        </Section>
+      </aside>
+    </div>
+  );
+};
+
+export default MatchDetailDrawer;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { GoalEvent, MatchData } from '../types';
+import { computeScorelineTimeline } from '../analytics';
+
+interface MatchTimelineProps {
+  match: MatchData;
+  // The match's goals in order, or null when no goal events cover it
+  events: GoalEvent[] | null;
+}
+
+// Full time plus typical stoppage time, so late goals don't sit on the edge
+const TIMELINE_MINUTES = 95;
+
+// A match's goals on a 0-90 minute track (home above, away below) and the running score
+const MatchTimeline = ({ match, events }: MatchTimelineProps): JSX.Element => {
+  if (events === null) {
+    return <p className="text-xs text-gray-400">No goal events for this match.</p>;
+  }
+  if (events.length === 0) {
+    return <p className="text-xs text-gray-400">Goalless.</p>;
+  }
+
+  const steps = computeScorelineTimeline(match, events);
+  const position = (event: GoalEvent) => `${(Math.min(event.Minute + event.AddedTime, TIMELINE_MINUTES) / TIMELINE_MINUTES) * 100}%`;
+
+  return (
+    <div>
+      <div className="relative h-16 mx-2 mb-3">
+        <div className="absolute left-0 right-0 top-1/2 h-px bg-gray-600"></div>
+        <div className="absolute top-1/2 h-2 w-px bg-gray-500" style={{ left: `${(45 / TIMELINE_MINUTES) * 100}%` }} title="Half time"></div>
+        {events.map((event, idx) => (
+          <div
+            key={idx}
+            className={`absolute -translate-x-1/2 text-[10px] whitespace-nowrap ${
+              event.Team === match.Home ? 'bottom-1/2 mb-1 text-[#00D3FF]' : 'top-1/2 mt-1 text-[#FF2882]'
+            }`}
+            style={{ left: position(event) }}
+            title={`${steps[idx].minute} ${event.Player || event.Team}${event.OwnGoal ? ' (OG)' : ''}`}
+          >
+            ● {steps[idx].homeGoals}–{steps[idx].awayGoals}
+          </div>
+        ))}
+      </div>
+      <ol className="text-xs space-y-1">
+        {steps.map((step, idx) => (
+          <li key={idx} className="flex gap-3">
+            <span className="w-10 text-gray-400 font-mono">{step.minute}</span>
+            <span className="w-10 font-mono">{step.homeGoals}–{step.awayGoals}</span>
+            <span className={step.team === match.Home ? 'text-[#00D3FF]' : 'text-[#FF2882]'}>
+              {step.player || step.team}{step.ownGoal ? ' (OG)' : ''}
+              {step.player && <span className="text-gray-500"> · {step.team}</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default MatchTimeline;
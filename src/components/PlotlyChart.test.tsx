@@ -0,0 +1,167 @@
+/**
+ * @jest-environment jsdom
+ */
+import React, { act } from 'react';
+import { Root, createRoot } from 'react-dom/client';
+import Plotly from 'plotly.js-dist-min';
+import PlotlyChart, { PlotlyFigure, plotArguments } from './PlotlyChart';
+
+// The Plotly bundle needs a real browser; the chart's calls into it are checked instead
+jest.mock('plotly.js-dist-min', () => ({
+  react: jest.fn(),
+  purge: jest.fn(),
+  Plots: { resize: jest.fn() }
+}));
+
+const plotly = Plotly as unknown as { react: jest.Mock, purge: jest.Mock, Plots: { resize: jest.Mock } };
+
+const figure: PlotlyFigure = {
+  data: [{ x: ['Arsenal', 'Chelsea'], y: [1.8, 1.2], type: 'bar' }],
+  layout: { paper_bgcolor: '#1A1E2E', uirevision: 'from-the-figure' },
+  config: { displayModeBar: false, responsive: true }
+};
+
+describe('plotArguments', () => {
+  it('passes the traces through untouched', () => {
+    expect(plotArguments(figure, 'chart').data).toBe(figure.data);
+  });
+
+  it('tags the layout with the chart\'s uirevision', () => {
+    expect(plotArguments(figure, 'season-2024-25|home').layout).toEqual({ paper_bgcolor: '#1A1E2E', uirevision: 'season-2024-25|home' });
+    expect(plotArguments(figure, 3).layout.uirevision).toBe(3);
+  });
+
+  it('keeps the config but turns off Plotly\'s own resizing', () => {
+    expect(plotArguments(figure, 'chart').config).toEqual({ displayModeBar: false, responsive: false });
+    expect(plotArguments({ data: [], layout: {} }, 'chart').config).toEqual({ responsive: false });
+  });
+
+  it('leaves the figure unchanged, so memoised figures can be reused', () => {
+    const before = JSON.parse(JSON.stringify(figure));
+    plotArguments(figure, 'other');
+    expect(figure).toEqual(before);
+  });
+});
+
+describe('PlotlyChart', () => {
+  // jsdom has no ResizeObserver; this one lets a test report a resize
+  const observers: { callback: () => void, disconnected: boolean }[] = [];
+  class FakeResizeObserver {
+    private entry: { callback: () => void, disconnected: boolean };
+    constructor(callback: () => void) {
+      this.entry = { callback, disconnected: false };
+      observers.push(this.entry);
+    }
+    observe() {}
+    disconnect() {
+      this.entry.disconnected = true;
+    }
+  }
+
+  const plot = { on: jest.fn() };
+  let container: HTMLDivElement;
+  let root: Root;
+
+  const render = (element: JSX.Element) => act(async () => root.render(element));
+  const chartDiv = () => container.firstElementChild as HTMLDivElement;
+  const resizeAll = () => act(() => observers.forEach(observer => observer.callback()));
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+    (globalThis as { ResizeObserver?: unknown }).ResizeObserver = FakeResizeObserver;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    observers.length = 0;
+    plotly.react.mockResolvedValue(plot);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+  });
+
+  it('draws with the bundled Plotly, not one on window', async () => {
+    const globalPlotly = { react: jest.fn(), newPlot: jest.fn() };
+    (window as unknown as { Plotly?: unknown }).Plotly = globalPlotly;
+    await render(<PlotlyChart figure={figure} />);
+    delete (window as unknown as { Plotly?: unknown }).Plotly;
+
+    expect(plotly.react).toHaveBeenCalledTimes(1);
+    expect(globalPlotly.react).not.toHaveBeenCalled();
+    expect(globalPlotly.newPlot).not.toHaveBeenCalled();
+  });
+
+  it('diffs a new figure into the same plot instead of redrawing it', async () => {
+    const onRelayout = jest.fn();
+    await render(<PlotlyChart figure={figure} onRelayout={onRelayout} />);
+    const updated = { ...figure, data: [{ x: ['Arsenal'], y: [2.1], type: 'bar' }] };
+    await render(<PlotlyChart figure={updated} onRelayout={onRelayout} />);
+
+    expect(plotly.react).toHaveBeenCalledTimes(2);
+    expect(plotly.react.mock.calls[1].slice(0, 2)).toEqual([chartDiv(), updated.data]);
+    expect(plotly.purge).not.toHaveBeenCalled();
+    // The relayout listener is only attached on the first draw
+    expect(plot.on).toHaveBeenCalledTimes(1);
+    plot.on.mock.calls[0][1]({ 'xaxis.range[0]': 1 });
+    expect(onRelayout).toHaveBeenCalledWith({ 'xaxis.range[0]': 1 });
+  });
+
+  it('keeps the zoom when the figure changes but the uirevision does not', async () => {
+    // As when another team is picked in the scatter: same season and venue, new highlight
+    await render(<PlotlyChart figure={figure} uirevision="season-2024-25|all" />);
+    await render(<PlotlyChart figure={{ ...figure, data: [{ ...figure.data[0], marker: { color: 'red' } }] }} uirevision="season-2024-25|all" />);
+    await render(<PlotlyChart figure={figure} uirevision="season-2024-25|home" />);
+
+    const revisions = plotly.react.mock.calls.map(call => call[2].uirevision);
+    expect(revisions).toEqual(['season-2024-25|all', 'season-2024-25|all', 'season-2024-25|home']);
+    expect(plotly.purge).not.toHaveBeenCalled();
+  });
+
+  it('purges the plot when the figure becomes null, and draws afresh after', async () => {
+    await render(<PlotlyChart figure={figure} />);
+    await render(<PlotlyChart figure={null} />);
+    expect(plotly.purge).toHaveBeenCalledWith(chartDiv());
+
+    await render(<PlotlyChart figure={figure} />);
+    expect(plotly.react).toHaveBeenCalledTimes(2);
+    expect(plot.on).toHaveBeenCalledTimes(2);
+  });
+
+  it('never draws or purges for a null figure', async () => {
+    await render(<PlotlyChart figure={null} />);
+    expect(plotly.react).not.toHaveBeenCalled();
+    expect(plotly.purge).not.toHaveBeenCalled();
+  });
+
+  it('purges the plot and stops observing on unmount', async () => {
+    await render(<PlotlyChart figure={figure} />);
+    const element = chartDiv();
+    act(() => root.unmount());
+
+    expect(plotly.purge).toHaveBeenCalledWith(element);
+    expect(observers.every(observer => observer.disconnected)).toBe(true);
+    root = createRoot(container);
+  });
+
+  it('resizes a visible plot with its container', async () => {
+    await render(<PlotlyChart figure={figure} />);
+    // jsdom lays nothing out, so offsetParent is always null: stand in for a visible chart
+    Object.defineProperty(chartDiv(), 'offsetParent', { configurable: true, get: () => container });
+    resizeAll();
+    expect(plotly.Plots.resize).toHaveBeenCalledWith(chartDiv());
+  });
+
+  it('skips resizing a hidden or empty chart', async () => {
+    await render(<PlotlyChart figure={figure} />);
+    resizeAll();
+    await render(<PlotlyChart figure={null} />);
+    Object.defineProperty(chartDiv(), 'offsetParent', { configurable: true, get: () => container });
+    resizeAll();
+    expect(plotly.Plots.resize).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,89 @@
+import React, { RefObject, useEffect, useRef } from 'react';
+import Plotly from 'plotly.js-dist-min';
+
+// What a chart draws. Traces and layout are plain objects, checked by Plotly when drawn.
+export interface PlotlyFigure {
+  data: object[];
+  layout: object;
+  config?: object;
+}
+
+// What Plotly.react is given for a figure: its layout tagged with the uirevision that
+// keeps the user's zoom and pan, and its config without Plotly's own resize listener
+// (the ResizeObserver below replaces it)
+export const plotArguments = (figure: PlotlyFigure, uirevision: string | number) => ({
+  data: figure.data as Plotly.Data[],
+  layout: { ...figure.layout, uirevision } as Partial<Plotly.Layout>,
+  config: { ...figure.config, responsive: false } as Partial<Plotly.Config>
+});
+
+interface PlotlyChartProps {
+  // null clears the chart (e.g. no matches in scope)
+  figure: PlotlyFigure | null;
+  className?: string;
+  // The chart's div, for callers that export or print it
+  chartRef?: RefObject<HTMLDivElement>;
+  // The user's zoom and pan survive figure updates until this changes
+  uirevision?: string | number;
+  onRelayout?: (event: Plotly.PlotRelayoutEvent) => void;
+}
+
+// A Plotly chart that diffs each new figure into the existing plot with Plotly.react
+// instead of redrawing it, follows its container's size and is purged on unmount
+const PlotlyChart = ({ figure, className, chartRef, uirevision = 'chart', onRelayout }: PlotlyChartProps): JSX.Element => {
+  const ownRef = useRef<HTMLDivElement>(null);
+  const ref = chartRef || ownRef;
+  // Whether the div currently holds a plot
+  const plottedRef = useRef<boolean>(false);
+  // Plotly keeps the listener from the first draw, so it calls the latest handler through a ref
+  const relayoutRef = useRef(onRelayout);
+  relayoutRef.current = onRelayout;
+
+  // Resize with the container (window resizes, panels opening, the print layout);
+  // hidden charts are skipped as Plotly can't measure them
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => {
+      if (plottedRef.current && element.offsetParent !== null) {
+        Plotly.Plots.resize(element);
+      }
+    });
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+      Plotly.purge(element);
+      plottedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    if (!figure) {
+      if (plottedRef.current) {
+        Plotly.purge(element);
+        plottedRef.current = false;
+      }
+      return;
+    }
+
+    const firstDraw = !plottedRef.current;
+    plottedRef.current = true;
+    const { data, layout, config } = plotArguments(figure, uirevision);
+    Plotly.react(element, data, layout, config).then(plot => {
+      if (firstDraw) {
+        plot.on('plotly_relayout', event => relayoutRef.current?.(event));
+      }
+    }).catch(error => {
+      console.error('Failed to draw chart:', error);
+    });
+  }, [figure, uirevision]);
+
+  return <div ref={ref} className={className} />;
+};
+
+export default PlotlyChart;
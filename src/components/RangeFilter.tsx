@@ -0,0 +1,251 @@
+import React, { useMemo, useState } from 'react';
+import Plotly from 'plotly.js-dist-min';
+import { MatchData } from '../types';
+import { isPlayed } from '../utils/fixtures';
+import {
+  FULL_RANGE,
+  MatchRange,
+  describeRange,
+  filterMatchesByRange,
+  isInRange,
+  lastGameweeksRange,
+  parseScore
+} from '../analytics';
+import PlotlyChart, { PlotlyFigure } from './PlotlyChart';
+
+type RangeMode = 'weeks' | 'dates';
+
+interface RangeFilterProps {
+  // Every fixture in the season, not just the ones in range
+  matches: MatchData[];
+  range: MatchRange;
+  onChange: (range: MatchRange) => void;
+}
+
+const GAMEWEEK_PRESETS = [3, 6, 10];
+
+// One bar of the timeline: a gameweek or a matchday
+interface TimelineBucket {
+  key: number | string;
+  goals: number;
+  matches: number;
+  inRange: boolean;
+}
+
+const dayOf = (value: string): string => value.slice(0, 10);
+
+// Scopes every view to a window of the season: presets, from/to pickers by gameweek
+// or date, and a brushable timeline of goals per gameweek (or per matchday)
+const RangeFilter = ({ matches, range, onChange }: RangeFilterProps): JSX.Element => {
+  const [mode, setMode] = useState<RangeMode>(range.mode === 'dates' ? 'dates' : 'weeks');
+
+  const weeks = useMemo(() => [...new Set(matches.map(m => m.Wk))].sort((a, b) => a - b), [matches]);
+  const dates = useMemo(() => [...new Set(matches.map(m => dayOf(m.Date)))].sort(), [matches]);
+  const matchCount = useMemo(() => filterMatchesByRange(matches, range).length, [matches, range]);
+
+  // Goals (from results) and fixtures per timeline bucket
+  const timeline = useMemo<TimelineBucket[]>(() => {
+    const buckets = new Map<number | string, TimelineBucket>();
+    matches.forEach(match => {
+      const key = mode === 'weeks' ? match.Wk : dayOf(match.Date);
+      const bucket = buckets.get(key) || { key, goals: 0, matches: 0, inRange: false };
+      bucket.matches += 1;
+      if (isPlayed(match)) {
+        const { homeGoals, awayGoals } = parseScore(match.Score);
+        bucket.goals += homeGoals + awayGoals;
+      }
+      bucket.inRange = bucket.inRange || isInRange(match, range);
+      buckets.set(key, bucket);
+    });
+    return (mode === 'weeks' ? weeks : dates).map(key => buckets.get(key)!);
+  }, [matches, mode, range, weeks, dates]);
+
+  // Turn a brushed axis range back into a match range, snapped to whole gameweeks or days
+  const handleBrush = (start: number | string, end: number | string) => {
+    if (mode === 'weeks') {
+      const from = Math.max(weeks[0], Math.round(Number(start) + 0.5));
+      const to = Math.min(weeks[weeks.length - 1], Math.max(from, Math.round(Number(end) - 0.5)));
+      onChange(from <= weeks[0] && to >= weeks[weeks.length - 1] ? FULL_RANGE : { mode: 'weeks', from, to });
+    } else {
+      const from = dayOf(String(start));
+      const to = dayOf(String(end));
+      onChange(from <= dates[0] && to >= dates[dates.length - 1] ? FULL_RANGE : { mode: 'dates', from, to });
+    }
+  };
+
+  // Figure for the timeline with a range slider acting as the brush
+  const timelineFigure = useMemo((): PlotlyFigure | null => {
+    if (timeline.length === 0) return null;
+
+    const chartData = [{
+      x: timeline.map(b => b.key),
+      y: timeline.map(b => b.goals),
+      type: 'bar',
+      marker: { color: timeline.map(b => (b.inRange ? '#00D3FF' : 'rgba(255,255,255,0.2)')) },
+      customdata: timeline.map(b => [b.matches]),
+      hovertemplate: (mode === 'weeks' ? 'Week %{x}' : '%{x|%d %b %Y}') +
+                     '<br>Goals: %{y}<br>Fixtures: %{customdata[0]}<extra></extra>'
+    }];
+
+    // Show the active window, padded so the edge bars are fully visible
+    let xRange: (number | string)[] | undefined;
+    if (range.mode === 'weeks' && mode === 'weeks') {
+      xRange = [range.from - 0.5, range.to + 0.5];
+    } else if (range.mode === 'dates' && mode === 'dates') {
+      xRange = [range.from || dates[0], range.to || dates[dates.length - 1]];
+    }
+
+    const layout = {
+      font: {
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF',
+        size: 10
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      height: 150,
+      bargap: 0.15,
+      xaxis: {
+        type: mode === 'weeks' ? 'linear' : 'date',
+        dtick: mode === 'weeks' ? 1 : undefined,
+        gridcolor: 'transparent',
+        range: xRange,
+        autorange: xRange === undefined,
+        rangeslider: { visible: true, thickness: 0.25, bgcolor: '#191D30', bordercolor: '#38003C', borderwidth: 1 }
+      },
+      yaxis: {
+        gridcolor: 'transparent',
+        fixedrange: true,
+        showticklabels: false
+      },
+      margin: { t: 5, r: 10, l: 10, b: 10 },
+      showlegend: false
+    };
+
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [timeline, range, mode]);
+
+  // Dragging the range slider (or double-clicking to reset) moves the window
+  const handleRelayout = (relayout: Plotly.PlotRelayoutEvent) => {
+    const event = relayout as Record<string, any>;
+    if (event['xaxis.autorange']) {
+      onChange(FULL_RANGE);
+    } else if (event['xaxis.range']) {
+      handleBrush(event['xaxis.range'][0], event['xaxis.range'][1]);
+    } else if (event['xaxis.range[0]'] !== undefined) {
+      handleBrush(event['xaxis.range[0]'], event['xaxis.range[1]']);
+    }
+  };
+
+  // Clearing both date bounds is the same as the whole season
+  const setDates = (from: string | null, to: string | null) =>
+    onChange(from || to ? { mode: 'dates', from, to } : FULL_RANGE);
+
+  const selectClass = 'appearance-none bg-[#2D1F54] border border-[#38003C] rounded-lg py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882]';
+  const weekFrom = range.mode === 'weeks' ? range.from : weeks[0];
+  const weekTo = range.mode === 'weeks' ? range.to : weeks[weeks.length - 1];
+
+  return (
+    <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col lg:flex-row justify-between items-start lg:items-center gap-3">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">
+            {describeRange(range)}
+            <span className="text-xs font-normal text-gray-400 ml-2">{matchCount} of {matches.length} fixtures</span>
+          </h2>
+          <p className="text-xs text-gray-400 mt-1">Charts, summary cards and tables below cover this window only</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            className={`text-xs px-3 py-1 rounded ${range.mode === 'all' ? 'bg-[#FF2882] text-white' : 'bg-[#2D1F54] text-gray-300 hover:bg-[#38003C]'}`}
+            onClick={() => onChange(FULL_RANGE)}
+          >
+            Whole season
+          </button>
+          {GAMEWEEK_PRESETS.map(count => (
+            <button
+              key={count}
+              className="text-xs px-3 py-1 rounded bg-[#2D1F54] text-gray-300 hover:bg-[#38003C]"
+              onClick={() => {
+                setMode('weeks');
+                onChange(lastGameweeksRange(matches, count));
+              }}
+            >
+              Last {count} GWs
+            </button>
+          ))}
+          <div className="flex rounded overflow-hidden border border-[#38003C] ml-0 lg:ml-2">
+            {(['weeks', 'dates'] as RangeMode[]).map(option => (
+              <button
+                key={option}
+                className={`text-xs px-3 py-1 ${mode === option ? 'bg-[#38003C] text-white' : 'bg-[#191D30] text-gray-400 hover:text-white'}`}
+                onClick={() => setMode(option)}
+              >
+                {option === 'weeks' ? 'Gameweeks' : 'Dates'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="px-3 sm:px-4 pt-3 flex flex-wrap items-center gap-2 text-sm">
+        {mode === 'weeks' ? (
+          <>
+            <span className="text-gray-400 text-xs">Weeks</span>
+            <select
+              value={weekFrom}
+              onChange={e => {
+                const from = Number(e.target.value);
+                onChange({ mode: 'weeks', from, to: Math.max(from, weekTo) });
+              }}
+              className={selectClass}
+            >
+              {weeks.map(week => <option key={week} value={week}>{week}</option>)}
+            </select>
+            <span className="text-gray-400 text-xs">to</span>
+            <select
+              value={weekTo}
+              onChange={e => {
+                const to = Number(e.target.value);
+                onChange({ mode: 'weeks', from: Math.min(weekFrom, to), to });
+              }}
+              className={selectClass}
+            >
+              {weeks.map(week => <option key={week} value={week}>{week}</option>)}
+            </select>
+          </>
+        ) : (
+          <>
+            <span className="text-gray-400 text-xs">From</span>
+            <input
+              type="date"
+              value={range.mode === 'dates' && range.from ? range.from : ''}
+              onChange={e => setDates(e.target.value || null, range.mode === 'dates' ? range.to : null)}
+              className={selectClass}
+            />
+            <span className="text-gray-400 text-xs">to</span>
+            <input
+              type="date"
+              value={range.mode === 'dates' && range.to ? range.to : ''}
+              onChange={e => setDates(range.mode === 'dates' ? range.from : null, e.target.value || null)}
+              className={selectClass}
+            />
+            <span className="text-gray-500 text-xs">Leave either end empty for an open range, e.g. "since a manager change"</span>
+          </>
+        )}
+      </div>
+
+      <div className="p-2 sm:p-4">
+        {/* A new window (or mode) resets the slider to it */}
+        <PlotlyChart figure={timelineFigure} uirevision={`${mode}|${JSON.stringify(range)}`} onRelayout={handleRelayout} />
+      </div>
+    </div>
+  );
+};
+
+export default RangeFilter;
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { MatchData } from '../types';
+import {
+  ResultSplit,
+  computeRefereeStats,
+  computeResultSplit,
+  computeTeamRefereeRecords
+} from '../analytics';
+
+interface RefereePanelProps {
+  // Played matches in the selected range, across every referee
+  matches: MatchData[];
+  selectedTeam: string;
+  // Referee the dashboard is scoped to ('' = all)
+  referee: string;
+  onSelectReferee: (referee: string) => void;
+}
+
+const percent = (value: number): string => `${(value * 100).toFixed(0)}%`;
+const signed = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+// Highlight a rate that sits well away from the league's (10 points or more)
+const deviationClass = (value: number, baseline: number): string =>
+  value - baseline >= 0.1 ? 'text-[#00D3FF]' : baseline - value >= 0.1 ? 'text-[#FF2882]' : '';
+
+// Per-referee result splits against the league baseline, and the selected team's
+// record under each referee. Clicking a referee scopes the dashboard to their matches.
+const RefereePanel = ({ matches, selectedTeam, referee, onSelectReferee }: RefereePanelProps): JSX.Element => {
+  const league = useMemo(() => computeResultSplit(matches), [matches]);
+  const stats = useMemo(() => computeRefereeStats(matches), [matches]);
+  const teamRecords = useMemo(
+    () => new Map(selectedTeam ? computeTeamRefereeRecords(matches, selectedTeam).map(r => [r.referee, r]) : []),
+    [matches, selectedTeam]
+  );
+
+  const splitCells = (split: ResultSplit, compare: boolean) => (
+    <>
+      <td className="p-2 sm:p-3 text-center">{split.matches}</td>
+      <td className={`p-2 sm:p-3 text-center ${compare ? deviationClass(split.homeWinRate, league.homeWinRate) : ''}`}>{percent(split.homeWinRate)}</td>
+      <td className={`p-2 sm:p-3 text-center ${compare ? deviationClass(split.drawRate, league.drawRate) : ''}`}>{percent(split.drawRate)}</td>
+      <td className={`p-2 sm:p-3 text-center ${compare ? deviationClass(split.awayWinRate, league.awayWinRate) : ''}`}>{percent(split.awayWinRate)}</td>
+      <td className="p-2 sm:p-3 text-center">{split.goalsPerMatch.toFixed(2)}</td>
+      <td className="p-2 sm:p-3 text-center">{signed(split.xgDiffPerMatch)}</td>
+    </>
+  );
+
+  return (
+    <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">Referees</h2>
+          <p className="text-xs text-gray-400 mt-1">
+            Result split against the league, goals per game and home-minus-away xG per match.
+            Click a referee to scope the dashboard to their matches.
+          </p>
+        </div>
+        {referee && (
+          <button className="text-xs text-gray-400 hover:text-white whitespace-nowrap" onClick={() => onSelectReferee('')}>
+            Show all referees
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto max-h-96">
+        <table className="w-full text-xs sm:text-sm text-left">
+          <thead className="bg-[#191D30] text-gray-400 uppercase text-xs sticky top-0">
+            <tr>
+              <th className="p-2 sm:p-3">Referee</th>
+              <th className="p-2 sm:p-3 text-center" title="Matches officiated">M</th>
+              <th className="p-2 sm:p-3 text-center" title="Home wins">Home</th>
+              <th className="p-2 sm:p-3 text-center" title="Draws">Draw</th>
+              <th className="p-2 sm:p-3 text-center" title="Away wins">Away</th>
+              <th className="p-2 sm:p-3 text-center" title="Goals per game">G/M</th>
+              <th className="p-2 sm:p-3 text-center" title="Home xG minus away xG per match">xG diff</th>
+              {selectedTeam && (
+                <th className="p-2 sm:p-3 text-center" title={`${selectedTeam}'s record under the referee`}>
+                  {selectedTeam} W-D-L (PPG)
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-gray-800 bg-[#191D30]/60 text-gray-300 italic">
+              <td className="p-2 sm:p-3">League</td>
+              {splitCells(league, false)}
+              {selectedTeam && <td className="p-2 sm:p-3"></td>}
+            </tr>
+            {stats.map(row => {
+              const record = teamRecords.get(row.referee);
+              return (
+                <tr
+                  key={row.referee}
+                  className={`border-b border-gray-800/50 hover:bg-[#2A305E] cursor-pointer ${
+                    row.referee === referee ? 'bg-[#38003C]/60 text-white font-semibold' : ''
+                  }`}
+                  onClick={() => onSelectReferee(row.referee === referee ? '' : row.referee)}
+                >
+                  <td className="p-2 sm:p-3 whitespace-nowrap">{row.referee}</td>
+                  {splitCells(row, true)}
+                  {selectedTeam && (
+                    <td className="p-2 sm:p-3 text-center whitespace-nowrap">
+                      {record ? `${record.won}-${record.drawn}-${record.lost} (${record.ppg.toFixed(2)})` : '–'}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+            {stats.length === 0 && (
+              <tr>
+                <td colSpan={selectedTeam ? 8 : 7} className="p-4 text-center text-gray-400">
+                  No referees recorded for these matches
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default RefereePanel;
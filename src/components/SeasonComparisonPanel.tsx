@@ -0,0 +1,139 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Season } from '../utils/seasonStore';
+import { computePpgByGameweek } from '../analytics';
+import ChartExportMenu from './ChartExportMenu';
+import PlotlyChart, { PlotlyFigure } from './PlotlyChart';
+
+interface SeasonComparisonPanelProps {
+  team: string;
+  currentSeason: Season;
+  seasons: Season[];
+}
+
+// Compares a team's cumulative PPG by gameweek in the selected season against another season
+const SeasonComparisonPanel = ({ team, currentSeason, seasons }: SeasonComparisonPanelProps): JSX.Element | null => {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  // Other seasons the team appears in
+  const otherSeasons = useMemo(() => seasons.filter(season =>
+    season.id !== currentSeason.id && season.matches.some(m => m.Home === team || m.Away === team)
+  ), [seasons, currentSeason, team]);
+
+  const [compareSeasonId, setCompareSeasonId] = useState<string>('');
+  const compareSeason = otherSeasons.find(s => s.id === compareSeasonId) || otherSeasons[0];
+
+  const currentSeries = useMemo(() => computePpgByGameweek(currentSeason.matches, team), [currentSeason, team]);
+  const compareSeries = useMemo(
+    () => (compareSeason ? computePpgByGameweek(compareSeason.matches, team) : []),
+    [compareSeason, team]
+  );
+
+  // Same-gameweek comparison at the latest week played this season
+  const latest = currentSeries[currentSeries.length - 1];
+  const sameWeek = latest ? [...compareSeries].reverse().find(p => p.week <= latest.week) : undefined;
+
+  // Figure for the season comparison chart
+  const comparisonFigure = useMemo((): PlotlyFigure | null => {
+    if (!compareSeason || currentSeries.length === 0) return null;
+
+    const series = (name: string, points: typeof currentSeries, color: string, dash?: string) => ({
+      x: points.map(p => p.week),
+      y: points.map(p => p.ppg),
+      mode: 'lines+markers',
+      type: 'scatter',
+      name,
+      line: { width: 3, color, dash },
+      marker: { size: 7, color },
+      customdata: points.map(p => [p.points, p.matches]),
+      hovertemplate: `<b>${name}</b><br>Week %{x}<br>PPG: %{y:.2f}<br>` +
+                     'Points: %{customdata[0]} from %{customdata[1]} matches<extra></extra>'
+    });
+
+    const chartData = [
+      series(currentSeason.name, currentSeries, '#00D3FF'),
+      series(compareSeason.name, compareSeries, '#FF2882', 'dot')
+    ];
+
+    // Chart layout options
+    const layout = {
+      title: '',
+      font: {
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      xaxis: {
+        title: 'Gameweek',
+        gridcolor: 'transparent',
+        dtick: 1
+      },
+      yaxis: {
+        title: 'Points Per Game (PPG)',
+        gridcolor: 'transparent',
+        range: [0, 3.2]
+      },
+      margin: { t: 40, r: 20, l: 60, b: 60 },
+      legend: {
+        x: 0.02,
+        y: 0.98,
+        bgcolor: 'rgba(26, 30, 46, 0.7)',
+        bordercolor: 'rgba(255,255,255,0.2)',
+        borderwidth: 1
+      }
+    };
+
+    // Config options
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [currentSeason, compareSeason, currentSeries, compareSeries]);
+
+  if (otherSeasons.length === 0) return null;
+
+  return (
+    <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">{team}: Season vs Season</h2>
+          <p className="text-xs text-gray-400 mt-1">
+            {latest && sameWeek && compareSeason
+              ? `After Week ${latest.week}: ${latest.ppg.toFixed(2)} PPG in ${currentSeason.name} vs ` +
+                `${sameWeek.ppg.toFixed(2)} in ${compareSeason.name} at the same stage`
+              : 'Cumulative PPG by gameweek'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          <select
+            value={compareSeason ? compareSeason.id : ''}
+            onChange={e => setCompareSeasonId(e.target.value)}
+            className="appearance-none bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 px-4 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882] w-full sm:w-auto"
+          >
+            {otherSeasons.map(season => (
+              <option key={season.id} value={season.id}>vs {season.name}</option>
+            ))}
+          </select>
+          <ChartExportMenu
+            chartRef={chartRef}
+            title={`${team} season vs season`}
+            getData={() => ({
+              headers: ['season', 'gameweek', 'matches', 'points', 'ppg'],
+              rows: [
+                ...currentSeries.map(p => [currentSeason.name, p.week, p.matches, p.points, p.ppg]),
+                ...(compareSeason ? compareSeries.map(p => [compareSeason.name, p.week, p.matches, p.points, p.ppg]) : [])
+              ]
+            })}
+          />
+        </div>
+      </div>
+      <div className="p-2 sm:p-4">
+        <PlotlyChart chartRef={chartRef} figure={comparisonFigure} className="chart-container" />
+      </div>
+    </div>
+  );
+};
+
+export default SeasonComparisonPanel;
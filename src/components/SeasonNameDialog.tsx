@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Season, seasonIdFromName } from '../utils/seasonStore';
+
+interface SeasonNameDialogProps {
+  fileName: string;
+  matchCount: number;
+  // Name inferred from the match dates (or the file name)
+  initialName: string;
+  // Seasons already loaded, to warn before one is replaced
+  seasons: Season[];
+  onConfirm: (name: string) => void;
+  onCancel: () => void;
+}
+
+// Last step of a file import: name the season the matches are stored as. A name that
+// is already taken replaces that season, so the button says so.
+const SeasonNameDialog = ({ fileName, matchCount, initialName, seasons, onConfirm, onCancel }: SeasonNameDialogProps): JSX.Element => {
+  const [name, setName] = useState<string>(initialName);
+  const trimmed = name.trim();
+  const existing = trimmed === '' ? undefined : seasons.find(season => !season.builtIn && season.id === seasonIdFromName(trimmed));
+
+  return (
+    <div className="bg-[#1A1E2E] border border-[#FF2882]/40 rounded-xl shadow-lg mb-4 sm:mb-6 overflow-hidden">
+      <div className="p-3 sm:p-4 border-b border-gray-800">
+        <h2 className="text-base sm:text-lg font-semibold text-white">Name the Season</h2>
+        <p className="text-xs text-gray-400 mt-1">
+          {matchCount} {matchCount === 1 ? 'match' : 'matches'} from <span className="text-white">{fileName}</span> will
+          be stored under this name and offered in the season picker.
+        </p>
+      </div>
+      <div className="p-3 sm:p-4">
+        <label className="flex flex-col text-xs text-gray-400 gap-1 sm:w-1/2">
+          Season name
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && trimmed !== '') onConfirm(trimmed);
+            }}
+            className={`bg-[#2D1F54] border rounded-lg py-2 px-3 text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FF2882] ${
+              trimmed === '' ? 'border-[#FF2882]' : 'border-[#38003C]'
+            }`}
+            autoFocus
+          />
+        </label>
+        {existing && (
+          <p className="text-xs text-yellow-300 mt-2">
+            Season {existing.name} is already stored ({existing.matches.length} matches
+            {existing.source ? ` from ${existing.source.label}` : ''}, updated {new Date(existing.updatedAt).toLocaleString()}).
+            Importing replaces it, along with any goal events uploaded for it. Choose another name to keep both.
+          </p>
+        )}
+      </div>
+      <div className="p-3 sm:p-4 border-t border-gray-800 flex justify-end gap-2">
+        <button
+          className="text-sm bg-transparent border border-gray-600 text-gray-300 px-4 py-2 rounded-lg hover:bg-[#2A305E] flex-1 sm:flex-none"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+        <button
+          className="text-sm bg-[#38003C] text-white px-4 py-2 rounded-lg hover:bg-[#38003C]/80 disabled:opacity-50 disabled:cursor-not-allowed flex-1 sm:flex-none"
+          disabled={trimmed === ''}
+          onClick={() => onConfirm(trimmed)}
+        >
+          {existing ? `Replace ${existing.name}` : 'Import'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonNameDialog;
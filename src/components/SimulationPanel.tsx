@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MatchData } from '../types';
+import { SimulationResult, runSimulation } from '../utils/simulation';
+import ChartExportMenu from './ChartExportMenu';
+import PlotlyChart, { PlotlyFigure } from './PlotlyChart';
+
+interface SimulationPanelProps {
+  matches: MatchData[];
+  selectedTeam: string;
+}
+
+const ITERATION_OPTIONS = [1000, 5000, 10000];
+const DEFAULT_SEED = 2425;
+
+const formatPercent = (value: number): string => {
+  if (value === 0) return '–';
+  if (value < 0.001) return '<0.1%';
+  return `${(value * 100).toFixed(1)}%`;
+};
+
+// Monte Carlo season simulator: plays out the remaining fixtures many times from a
+// seeded model and shows each team's chances and finishing-position distribution
+const SimulationPanel = ({ matches, selectedTeam }: SimulationPanelProps): JSX.Element => {
+  const [iterations, setIterations] = useState<number>(ITERATION_OPTIONS[1]);
+  const [seed, setSeed] = useState<number>(DEFAULT_SEED);
+  const [progress, setProgress] = useState<number>(0);
+  const [running, setRunning] = useState<boolean>(false);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string>('');
+  const chartRef = useRef<HTMLDivElement>(null);
+  const runIdRef = useRef<number>(0);
+
+  // Results are stale once the underlying data changes
+  useEffect(() => {
+    runIdRef.current += 1;
+    setResult(null);
+    setError('');
+    setRunning(false);
+  }, [matches]);
+
+  // Stop any run in progress when the panel unmounts
+  useEffect(() => () => {
+    runIdRef.current += 1;
+  }, []);
+
+  const handleRun = () => {
+    const runId = runIdRef.current + 1;
+    runIdRef.current = runId;
+    setRunning(true);
+    setProgress(0);
+    setError('');
+
+    console.log('Starting season simulation:', { iterations, seed });
+    runSimulation(
+      matches,
+      { iterations, seed },
+      completed => {
+        if (runIdRef.current === runId) setProgress(completed / iterations);
+      },
+      () => runIdRef.current !== runId
+    ).then(simulation => {
+      if (!simulation || runIdRef.current !== runId) return;
+      console.log('Season simulation complete:', {
+        iterations: simulation.iterations,
+        remainingFixtures: simulation.remainingFixtures
+      });
+      setResult(simulation);
+    }).catch(failure => {
+      if (runIdRef.current !== runId) return;
+      console.error('Season simulation failed:', failure);
+      setError(failure instanceof Error ? failure.message : String(failure));
+    }).finally(() => {
+      if (runIdRef.current === runId) setRunning(false);
+    });
+  };
+
+  // Figure for the finishing-position heatmap
+  const heatmapFigure = useMemo((): PlotlyFigure | null => {
+    if (!result || result.teams.length === 0) return null;
+
+    const positions = result.teams.map((_, idx) => idx + 1);
+    const teams = result.teams.map(t => t.team === selectedTeam ? `<b>${t.team}</b>` : t.team);
+
+    const chartData = [{
+      z: result.teams.map(t => t.positions.map(p => p * 100)),
+      x: positions,
+      y: teams,
+      type: 'heatmap',
+      colorscale: [[0, '#1A1E2E'], [0.25, '#38003C'], [0.6, '#FF2882'], [1, '#00D3FF']],
+      zmin: 0,
+      zmax: 100,
+      hovertemplate: '<b>%{y}</b><br>Finish %{x}: %{z:.1f}%<extra></extra>',
+      colorbar: { title: '%', thickness: 10 }
+    }];
+
+    // Chart layout options
+    const layout = {
+      title: '',
+      font: {
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      xaxis: {
+        title: 'Finishing Position',
+        dtick: 1,
+        side: 'top'
+      },
+      yaxis: {
+        autorange: 'reversed',
+        tickfont: { size: 10 }
+      },
+      margin: { t: 60, r: 20, l: 120, b: 20 }
+    };
+
+    // Config options
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [result, selectedTeam]);
+
+  return (
+    <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">Season Simulator</h2>
+          <p className="text-xs text-gray-400 mt-1">
+            {result
+              ? `${result.iterations.toLocaleString()} simulations of ${result.remainingFixtures} remaining fixtures (seed ${result.seed})`
+              : 'Simulates the remaining fixtures from each team\'s xG and xGA per match'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 w-full sm:w-auto">
+          <select
+            value={iterations}
+            onChange={e => setIterations(Number(e.target.value))}
+            className="appearance-none bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-[#FF2882]"
+            disabled={running}
+          >
+            {ITERATION_OPTIONS.map(option => (
+              <option key={option} value={option}>{option.toLocaleString()} runs</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-gray-400">
+            Seed
+            <input
+              type="number"
+              value={seed}
+              onChange={e => setSeed(Number(e.target.value) || 0)}
+              className="bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 px-2 text-sm text-white w-20"
+              disabled={running}
+            />
+          </label>
+          <button
+            className="text-sm bg-[#38003C] text-white px-4 py-2 rounded-lg hover:bg-[#38003C]/80 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+            onClick={handleRun}
+            disabled={running || matches.length === 0}
+          >
+            {running ? `Running ${Math.round(progress * 100)}%` : 'Run Simulation'}
+          </button>
+          {result && (
+            <ChartExportMenu
+              chartRef={chartRef}
+              title="Season simulation"
+              getData={() => ({
+                headers: [
+                  'team', 'average_points', 'title', 'top_four', 'europe', 'relegation',
+                  ...result.teams.map((_, idx) => `finish_${idx + 1}`)
+                ],
+                rows: result.teams.map(t => [
+                  t.team, t.averagePoints, t.title, t.topFour, t.europe, t.relegation, ...t.positions
+                ])
+              })}
+            />
+          )}
+        </div>
+      </div>
+
+      {running && (
+        <div className="h-1 bg-[#2D1F54]">
+          <div className="h-1 bg-[#FF2882] transition-all" style={{ width: `${progress * 100}%` }}></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 sm:p-4 text-xs text-[#FF2882]">Simulation failed: {error}</div>
+      )}
+
+      {result && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-2 sm:p-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs sm:text-sm text-left">
+              <thead className="bg-[#191D30] text-gray-400 uppercase text-xs">
+                <tr>
+                  <th className="p-2">Team</th>
+                  <th className="p-2 text-center" title="Average final points">Pts</th>
+                  <th className="p-2 text-center">Title</th>
+                  <th className="p-2 text-center">Top 4</th>
+                  <th className="p-2 text-center">Europe</th>
+                  <th className="p-2 text-center">Relegated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.teams.map(team => (
+                  <tr
+                    key={team.team}
+                    className={`border-b border-gray-800/50 ${team.team === selectedTeam ? 'bg-[#38003C]/60 text-white font-semibold' : ''}`}
+                  >
+                    <td className="p-2 whitespace-nowrap">{team.team}</td>
+                    <td className="p-2 text-center">{team.averagePoints.toFixed(1)}</td>
+                    <td className="p-2 text-center">{formatPercent(team.title)}</td>
+                    <td className="p-2 text-center">{formatPercent(team.topFour)}</td>
+                    <td className="p-2 text-center">{formatPercent(team.europe)}</td>
+                    <td className="p-2 text-center">{formatPercent(team.relegation)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <PlotlyChart chartRef={chartRef} figure={heatmapFigure} className="chart-container" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SimulationPanel;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { HttpSourceConfig, HttpSourceStatus } from '../sources';
+import { Season } from '../utils/seasonStore';
+
+interface SourceIndicatorProps {
+  season: Season;
+  // Endpoint being polled, when it feeds the season on screen
+  endpoint: HttpSourceConfig | null;
+  status: HttpSourceStatus;
+}
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+// Where the season on screen came from and how fresh it is
+const SourceIndicator = ({ season, endpoint, status }: SourceIndicatorProps): JSX.Element => {
+  if (season.builtIn) {
+    return <p className="text-xs text-gray-500 mt-1">Sample data</p>;
+  }
+
+  if (endpoint && season.source?.kind === 'http' && season.source.label === endpoint.url) {
+    return (
+      <p className="text-xs text-gray-400 mt-1" title={endpoint.url}>
+        <span className={status.error ? 'text-[#FF2882]' : 'text-[#00D3FF]'}>●</span>
+        {' '}Live from {hostOf(endpoint.url)} · updated {formatTime(season.updatedAt)}
+        {status.checkedAt !== null && ` · checked ${formatTime(status.checkedAt)}`}
+        {endpoint.pollIntervalSeconds > 0 && ` · every ${endpoint.pollIntervalSeconds}s`}
+        {status.error && <span className="text-[#FF2882]"> · {status.error}</span>}
+      </p>
+    );
+  }
+
+  // Seasons saved before sources were recorded have none
+  let origin = 'Uploaded';
+  if (season.source?.kind === 'file') origin = `From file ${season.source.label}`;
+  if (season.source?.kind === 'http') origin = `From ${hostOf(season.source.label)}`;
+  return (
+    <p className="text-xs text-gray-500 mt-1">
+      {origin} · updated {formatTime(season.updatedAt)}
+    </p>
+  );
+};
+
+export default SourceIndicator;
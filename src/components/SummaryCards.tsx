@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { MatchData } from '../types';
+import { DEFAULT_KPI_IDS, GoalEventIndex, KPI_CATALOG, KpiId, computeKpiCards } from '../analytics';
+
+interface SummaryCardsProps {
+  // Every fixture in scope, played or not
+  matches: MatchData[];
+  selectedTeam: string;
+  goalEvents?: GoalEventIndex;
+}
+
+const SUMMARY_CARDS_STORAGE_KEY = 'pl-dashboard:summary-cards';
+
+// Card backgrounds, used in turn
+const CARD_GRADIENTS = [
+  'from-[#FF2882]/80 to-[#E90052]',
+  'from-[#00D3FF]/80 to-[#04BBE9]',
+  'from-[#38003C]/80 to-[#5F1C9B]'
+];
+
+const TREND_ICONS: Record<string, string> = { '1': '▲', '0': '=', '-1': '▼' };
+
+const loadCardIds = (): KpiId[] => {
+  try {
+    const stored = window.localStorage.getItem(SUMMARY_CARDS_STORAGE_KEY);
+    const ids: KpiId[] = stored ? JSON.parse(stored) : DEFAULT_KPI_IDS;
+    // Drop anything no longer in the catalog
+    return ids.filter(id => KPI_CATALOG.some(definition => definition.id === id));
+  } catch (error) {
+    console.error('Failed to load summary card choice:', error);
+    return DEFAULT_KPI_IDS;
+  }
+};
+
+const saveCardIds = (ids: KpiId[]) => {
+  try {
+    window.localStorage.setItem(SUMMARY_CARDS_STORAGE_KEY, JSON.stringify(ids));
+  } catch (error) {
+    console.error('Failed to save summary card choice:', error);
+  }
+};
+
+// The KPI cards at the top of the dashboard, chosen by the user from the catalog.
+// With a team selected each card shows the team's figure against the league's.
+const SummaryCards = ({ matches, selectedTeam, goalEvents }: SummaryCardsProps): JSX.Element => {
+  const [cardIds, setCardIds] = useState<KpiId[]>(loadCardIds);
+  const [showPicker, setShowPicker] = useState<boolean>(false);
+
+  const context = useMemo(
+    () => ({ matches, team: selectedTeam || undefined, goalEvents }),
+    [matches, selectedTeam, goalEvents]
+  );
+  const cards = useMemo(() => computeKpiCards(cardIds, context), [cardIds, context]);
+
+  const toggleCard = (id: KpiId) => {
+    // Keep catalog order so cards don't jump around as they're toggled
+    const next = cardIds.includes(id)
+      ? cardIds.filter(cardId => cardId !== id)
+      : KPI_CATALOG.map(definition => definition.id).filter(cardId => cardId === id || cardIds.includes(cardId));
+    setCardIds(next);
+    saveCardIds(next);
+  };
+
+  return (
+    <div className="mb-4 sm:mb-8">
+      <div className="flex justify-end mb-2">
+        <button
+          className="text-xs text-gray-400 hover:text-white"
+          onClick={() => setShowPicker(!showPicker)}
+        >
+          {showPicker ? 'Done' : 'Customise cards'}
+        </button>
+      </div>
+
+      {showPicker && (
+        <div className="bg-[#1A1E2E] rounded-xl shadow-lg p-3 sm:p-4 mb-3 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-2">
+          {KPI_CATALOG.map(definition => {
+            const supported = definition.isSupported(context);
+            return (
+              <label
+                key={definition.id}
+                className={`flex items-start gap-2 text-sm ${supported ? 'cursor-pointer' : 'opacity-50'}`}
+                title={supported ? undefined : 'The loaded data has nothing to compute this from'}
+              >
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={cardIds.includes(definition.id)}
+                  onChange={() => toggleCard(definition.id)}
+                />
+                <span>
+                  {definition.label}
+                  <span className="block text-xs text-gray-400">
+                    {definition.description}{supported ? '' : ' (not available for this data)'}
+                  </span>
+                </span>
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3 sm:gap-6">
+        {cards.map((card, idx) => (
+          <div
+            key={card.id}
+            className={`bg-gradient-to-br ${CARD_GRADIENTS[idx % CARD_GRADIENTS.length]} p-3 sm:p-5 rounded-xl shadow-lg`}
+          >
+            <div className="text-xs font-medium text-white/80 mb-1 sm:mb-2">{card.label}</div>
+            <div className="flex items-end flex-wrap">
+              <div className="text-2xl sm:text-4xl font-bold">{card.value}</div>
+              {card.unit && <div className="text-xs sm:text-sm ml-2 mb-1 font-medium opacity-80">{card.unit}</div>}
+              {card.detail && <div className="text-xs sm:text-sm ml-2 mb-1 font-medium opacity-80">{card.detail}</div>}
+            </div>
+            {card.leagueValue !== undefined && (
+              <div className="text-xs text-white/80 mt-1 sm:mt-2">
+                {card.trend !== undefined && <span className="mr-1">{TREND_ICONS[String(card.trend)]}</span>}
+                League: {card.leagueValue}
+              </div>
+            )}
+          </div>
+        ))}
+        {cards.length === 0 && (
+          <div className="bg-[#1A1E2E] p-3 sm:p-5 rounded-xl text-sm text-gray-400 sm:col-span-2 md:col-span-3">
+            No summary cards to show. Use "Customise cards" to pick some the loaded data supports.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SummaryCards;
@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from 'react';
+import { MatchData } from '../types';
+import { TeamRegistry, UserAlias, teamIdFromName } from '../utils/teams';
+
+interface TeamAliasManagerProps {
+  registry: TeamRegistry;
+  aliases: UserAlias[];
+  // Raw (un-normalised) matches, used to list names the registry doesn't recognise
+  matches: MatchData[];
+  onChange: (aliases: UserAlias[]) => void;
+  onClose: () => void;
+}
+
+// Lets the user view, add and remove their own team name aliases
+const TeamAliasManager = ({ registry, aliases, matches, onChange, onClose }: TeamAliasManagerProps): JSX.Element => {
+  const [aliasName, setAliasName] = useState<string>('');
+  const [target, setTarget] = useState<string>('');
+
+  // Names in the loaded data that don't resolve to a known club
+  const unknownNames = useMemo(() => {
+    const names = new Set(matches.flatMap(m => [m.Home, m.Away]));
+    return [...names].filter(name => name !== '' && !registry.resolve(name).known).sort();
+  }, [matches, registry]);
+
+  const addAlias = (alias: UserAlias) => {
+    onChange([...aliases.filter(a => a.alias.toLowerCase() !== alias.alias.toLowerCase()), alias]);
+  };
+
+  const handleAdd = () => {
+    const name = aliasName.trim();
+    if (name === '' || target === '') return;
+    const team = registry.teams.find(t => t.id === target);
+    // Targets outside the built-in registry (e.g. a non-league club) are identified by name
+    addAlias(team
+      ? { alias: name, teamId: team.id, teamName: team.name }
+      : { alias: name, teamId: teamIdFromName(target), teamName: target });
+    setAliasName('');
+    setTarget('');
+  };
+
+  return (
+    <div className="bg-[#1A1E2E] border border-[#38003C] rounded-xl shadow-lg mb-4 sm:mb-6 overflow-hidden">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex justify-between items-center">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">Team Aliases</h2>
+          <p className="text-xs text-gray-400 mt-1">Map alternative team names onto one club so sources can be mixed</p>
+        </div>
+        <button className="text-gray-400 hover:text-white text-sm" onClick={onClose}>✕</button>
+      </div>
+
+      <div className="p-3 sm:p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-xs uppercase text-gray-400 mb-2">Add alias</h3>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              list="unknown-team-names"
+              value={aliasName}
+              onChange={e => setAliasName(e.target.value)}
+              placeholder="Name in your data"
+              className="bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 px-3 text-sm text-white flex-1"
+            />
+            <datalist id="unknown-team-names">
+              {unknownNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <select
+              value={target}
+              onChange={e => setTarget(e.target.value)}
+              className="appearance-none bg-[#2D1F54] border border-[#38003C] rounded-lg py-2 px-3 text-sm flex-1"
+            >
+              <option value="">Maps to...</option>
+              {registry.teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+              {unknownNames.map(name => <option key={`custom-${name}`} value={name}>{name} (not built in)</option>)}
+            </select>
+            <button
+              className="text-sm bg-[#38003C] text-white px-4 py-2 rounded-lg hover:bg-[#38003C]/80 disabled:opacity-50"
+              disabled={aliasName.trim() === '' || target === ''}
+              onClick={handleAdd}
+            >
+              Add
+            </button>
+          </div>
+
+          {unknownNames.length > 0 && (
+            <div className="mt-3">
+              <h3 className="text-xs uppercase text-gray-400 mb-2">Unrecognised names in this season</h3>
+              <ul className="space-y-1 text-xs">
+                {unknownNames.map(name => {
+                  const suggestion = registry.suggest(name);
+                  return (
+                    <li key={name} className="flex items-center justify-between">
+                      <span>{name}</span>
+                      {suggestion && (
+                        <button
+                          className="underline text-[#00D3FF]"
+                          onClick={() => addAlias({ alias: name, teamId: suggestion.id, teamName: suggestion.name })}
+                        >
+                          map to {suggestion.name}
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-xs uppercase text-gray-400 mb-2">Your aliases</h3>
+          {aliases.length === 0 ? (
+            <p className="text-xs text-gray-500">No custom aliases yet. Built-in aliases cover the usual Premier League names.</p>
+          ) : (
+            <ul className="space-y-1 text-xs sm:text-sm">
+              {aliases.map(alias => (
+                <li key={alias.alias} className="flex items-center justify-between bg-[#191D30] rounded px-2 py-1">
+                  <span>
+                    {alias.alias} <span className="text-gray-500">→</span> {alias.teamName}
+                  </span>
+                  <button
+                    className="text-gray-400 hover:text-[#FF2882]"
+                    title="Remove alias"
+                    onClick={() => onChange(aliases.filter(a => a !== alias))}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamAliasManager;
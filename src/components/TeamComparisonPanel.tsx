@@ -0,0 +1,217 @@
+import React, { useMemo, useRef } from 'react';
+import { FormResult, RollingXgPoint, TeamComparison, TeamProfile } from '../analytics';
+import ChartExportMenu from './ChartExportMenu';
+import PlotlyChart, { PlotlyFigure } from './PlotlyChart';
+
+interface TeamComparisonPanelProps {
+  comparison: TeamComparison;
+  // Each team's rolling xG series, in the same order as comparison.teams
+  rolling: [RollingXgPoint[], RollingXgPoint[]];
+  rollingWindow: number;
+}
+
+interface Metric {
+  label: string;
+  value: (profile: TeamProfile) => string;
+  // Numeric value used to mark the better team (omitted for counts)
+  compare?: (profile: TeamProfile) => number;
+  higherIsBetter?: boolean;
+}
+
+const METRICS: Metric[] = [
+  { label: 'Played', value: p => String(p.played) },
+  { label: 'Points', value: p => String(p.points), compare: p => p.points, higherIsBetter: true },
+  { label: 'Points per game', value: p => p.ppg.toFixed(2), compare: p => p.ppg, higherIsBetter: true },
+  { label: 'Goals for', value: p => String(p.goalsFor), compare: p => p.goalsFor / Math.max(1, p.played), higherIsBetter: true },
+  { label: 'Goals against', value: p => String(p.goalsAgainst), compare: p => p.goalsAgainst / Math.max(1, p.played), higherIsBetter: false },
+  { label: 'xG / match', value: p => p.xGPerMatch.toFixed(2), compare: p => p.xGPerMatch, higherIsBetter: true },
+  { label: 'xGA / match', value: p => p.xGAPerMatch.toFixed(2), compare: p => p.xGAPerMatch, higherIsBetter: false },
+  { label: 'Clean sheets', value: p => String(p.cleanSheets), compare: p => p.cleanSheets / Math.max(1, p.played), higherIsBetter: true },
+  { label: 'Home PPG', value: p => p.homePpg.toFixed(2), compare: p => p.homePpg, higherIsBetter: true },
+  { label: 'Away PPG', value: p => p.awayPpg.toFixed(2), compare: p => p.awayPpg, higherIsBetter: true }
+];
+
+// Team colours, in comparison order
+const TEAM_COLORS = ['#00D3FF', '#FF2882'];
+
+const FORM_COLORS: Record<FormResult, string> = {
+  W: 'bg-[#00D3FF] text-[#1A1E2E]',
+  D: 'bg-gray-400 text-[#1A1E2E]',
+  L: 'bg-[#FF2882] text-white'
+};
+
+const formatDate = (dateStr: string): string =>
+  new Date(dateStr).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Two teams side by side: key figures, rolling xG on one chart and every meeting
+// between them
+const TeamComparisonPanel = ({ comparison, rolling, rollingWindow }: TeamComparisonPanelProps): JSX.Element => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [first, second] = comparison.teams;
+  const { headToHead } = comparison;
+
+  const better = (metric: Metric, side: TeamProfile, other: TeamProfile): boolean => {
+    if (!metric.compare || side.played === 0 || other.played === 0) return false;
+    const diff = metric.compare(side) - metric.compare(other);
+    return metric.higherIsBetter ? diff > 0 : diff < 0;
+  };
+
+  // Figure for the overlaid rolling xG chart
+  const rollingFigure = useMemo((): PlotlyFigure | null => {
+    if (rolling[0].length === 0 && rolling[1].length === 0) return null;
+
+    const chartData = comparison.teams.flatMap((profile, idx) => [
+      {
+        x: rolling[idx].map(point => point.date),
+        y: rolling[idx].map(point => point.xG),
+        text: rolling[idx].map(point => point.match),
+        type: 'scatter',
+        mode: 'lines',
+        name: `${profile.team} xG`,
+        line: { color: TEAM_COLORS[idx], width: 3 },
+        hovertemplate: `${profile.team}<br>%{text}<br>Rolling xG %{y:.2f}<extra></extra>`
+      },
+      {
+        x: rolling[idx].map(point => point.date),
+        y: rolling[idx].map(point => point.xGA),
+        text: rolling[idx].map(point => point.match),
+        type: 'scatter',
+        mode: 'lines',
+        name: `${profile.team} xGA`,
+        line: { color: TEAM_COLORS[idx], width: 2, dash: 'dash' },
+        hovertemplate: `${profile.team}<br>%{text}<br>Rolling xGA %{y:.2f}<extra></extra>`
+      }
+    ]);
+
+    const layout = {
+      title: '',
+      font: {
+        family: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        color: '#FFFFFF'
+      },
+      paper_bgcolor: '#1A1E2E',
+      plot_bgcolor: '#1A1E2E',
+      autosize: true,
+      xaxis: { title: 'Date', gridcolor: 'transparent' },
+      yaxis: { title: `xG per match (${rollingWindow}-match rolling)`, gridcolor: '#2A305E', rangemode: 'tozero' },
+      margin: { t: 40, r: 20, l: 60, b: 60 },
+      legend: {
+        orientation: 'h',
+        xanchor: 'center',
+        x: 0.5,
+        y: 1.12,
+        bgcolor: 'rgba(26, 30, 46, 0)'
+      },
+      hovermode: 'closest'
+    };
+
+    const config = {
+      displayModeBar: false
+    };
+
+    return { data: chartData, layout, config };
+  }, [comparison, rolling, rollingWindow]);
+
+  return (
+    <div className="bg-[#1A1E2E] rounded-xl shadow-lg overflow-hidden mb-4 sm:mb-6">
+      <div className="p-3 sm:p-4 border-b border-gray-800">
+        <h2 className="text-base sm:text-lg font-semibold text-white">
+          <span className="text-[#00D3FF]">{first.team}</span> vs <span className="text-[#FF2882]">{second.team}</span>
+        </h2>
+        <p className="text-xs text-gray-400 mt-1">Head-to-head comparison; the better figure is highlighted</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-2 sm:p-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm">
+            <thead className="bg-[#191D30] text-gray-400 uppercase text-xs">
+              <tr>
+                <th className="p-2 text-center w-1/3">{first.team}</th>
+                <th className="p-2 text-center"></th>
+                <th className="p-2 text-center w-1/3">{second.team}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {METRICS.map(metric => (
+                <tr key={metric.label} className="border-b border-gray-800/50">
+                  <td className={`p-2 text-center ${better(metric, first, second) ? 'text-[#00D3FF] font-semibold' : ''}`}>
+                    {metric.value(first)}
+                  </td>
+                  <td className="p-2 text-center text-gray-400">{metric.label}</td>
+                  <td className={`p-2 text-center ${better(metric, second, first) ? 'text-[#FF2882] font-semibold' : ''}`}>
+                    {metric.value(second)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-b border-gray-800/50">
+                {[first, second].map((profile, idx) => (
+                  <React.Fragment key={profile.team}>
+                    {idx === 1 && <td className="p-2 text-center text-gray-400">Form</td>}
+                    <td className="p-2">
+                      <div className="flex gap-1 justify-center">
+                        {profile.form.map((result, formIdx) => (
+                          <span
+                            key={formIdx}
+                            className={`w-5 h-5 rounded-full text-[10px] font-bold flex items-center justify-center ${FORM_COLORS[result]}`}
+                          >
+                            {result}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </React.Fragment>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <div className="flex items-start justify-between gap-2 mb-1">
+            <h3 className="text-xs uppercase text-gray-400">Rolling xG (solid) and xGA (dashed)</h3>
+            <ChartExportMenu
+              chartRef={chartRef}
+              title={`${first.team} vs ${second.team} rolling xG`}
+              getData={() => ({
+                headers: ['team', 'date', 'match', `rolling_xG_${rollingWindow}`, `rolling_xGA_${rollingWindow}`],
+                rows: comparison.teams.flatMap((profile, idx) =>
+                  rolling[idx].map(point => [profile.team, point.date, point.match, point.xG, point.xGA])
+                )
+              })}
+            />
+          </div>
+          <PlotlyChart chartRef={chartRef} figure={rollingFigure} className="chart-container" />
+        </div>
+
+        <div className="lg:col-span-2">
+          <h3 className="text-xs uppercase text-gray-400 mb-2">Meetings in the loaded seasons</h3>
+          {headToHead.meetings.length > 0 ? (
+            <>
+              <p className="text-sm mb-2">
+                {first.team} {headToHead.wins}W {headToHead.draws}D {headToHead.losses}L against {second.team},
+                goals {headToHead.goalsFor}–{headToHead.goalsAgainst}
+              </p>
+              <ul className="text-xs sm:text-sm space-y-1">
+                {headToHead.meetings.map((meeting, idx) => (
+                  <li key={idx} className="flex gap-3">
+                    <span className="w-28 text-gray-400">{formatDate(meeting.Date)}</span>
+                    <span>
+                      {meeting.Home} <span className="font-mono">{meeting.Score}</span> {meeting.Away}
+                      {Number.isFinite(meeting.xG) && Number.isFinite(meeting.xG_away) && (
+                        <span className="text-gray-500"> (xG {meeting.xG.toFixed(1)}–{meeting.xG_away.toFixed(1)})</span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="text-xs text-gray-400">The two teams haven't met in the loaded seasons.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TeamComparisonPanel;
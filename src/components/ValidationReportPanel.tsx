@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { MatchData, MatchField } from '../types';
+import { parseNumericCell } from '../utils/csv';
+import { inferMatchStatus } from '../utils/fixtures';
+import { validateMatches } from '../utils/validation';
+import { TeamRegistry, UserAlias } from '../utils/teams';
+
+interface ValidationReportPanelProps {
+  fileName: string;
+  matches: MatchData[];
+  registry: TeamRegistry;
+  onImport: (matches: MatchData[]) => void;
+  onCancel: () => void;
+  onAddAlias: (alias: UserAlias) => void;
+}
+
+const NUMERIC_FIELDS: MatchField[] = ['Wk', 'xG', 'xG_away'];
+
+// Per-row error/warning report for an upload. Rows can be fixed inline before
+// importing; rows that still have errors are left out of "Import valid rows".
+const ValidationReportPanel = ({ fileName, matches, registry, onImport, onCancel, onAddAlias }: ValidationReportPanelProps): JSX.Element => {
+  const [rows, setRows] = useState<MatchData[]>(matches);
+  const [showWarnings, setShowWarnings] = useState<boolean>(true);
+  const report = useMemo(() => validateMatches(rows, registry), [rows, registry]);
+
+  const flaggedRows = report.rows.filter(row =>
+    row.issues.some(issue => showWarnings || issue.severity === 'error')
+  );
+
+  const updateRow = (index: number, changes: Partial<MatchData>) => {
+    setRows(prev => prev.map((row, idx) => (idx === index ? { ...row, ...changes } : row)));
+  };
+
+  const updateField = (index: number, field: MatchField, value: string) => {
+    const changes: Partial<MatchData> = { [field]: NUMERIC_FIELDS.includes(field) ? parseNumericCell(value) : value };
+    // Editing a score can turn a scheduled fixture into a result (or back)
+    if (field === 'Score' && (rows[index].Status === 'played' || rows[index].Status === 'scheduled')) {
+      changes.Status = inferMatchStatus(value, '');
+    }
+    updateRow(index, changes);
+  };
+
+  const applyAllFixes = () => {
+    setRows(prev => prev.map((row, idx) => {
+      const fixes = report.rows[idx].issues.filter(issue => issue.fix);
+      return fixes.reduce((acc, issue) => ({ ...acc, ...issue.fix }), row);
+    }));
+  };
+
+  const fixableCount = report.rows.reduce((sum, row) => sum + row.issues.filter(issue => issue.fix).length, 0);
+  const formatValue = (value: string | number | undefined): string =>
+    value === undefined || (typeof value === 'number' && Number.isNaN(value)) ? '' : String(value);
+
+  return (
+    <div className="bg-[#1A1E2E] border border-[#FF2882]/40 rounded-xl shadow-lg mb-4 sm:mb-6 overflow-hidden">
+      <div className="p-3 sm:p-4 border-b border-gray-800 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-base sm:text-lg font-semibold text-white">Import Validation</h2>
+          <p className="text-xs text-gray-400 mt-1">
+            {fileName}: {rows.length} rows, {report.validRows.length} valid,{' '}
+            <span className="text-red-300">{report.errorCount} errors</span>,{' '}
+            <span className="text-yellow-300">{report.warningCount} warnings</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {fixableCount > 0 && (
+            <button
+              className="text-xs bg-[#2D1F54] text-white px-2 py-1 rounded hover:bg-[#2A305E]"
+              onClick={applyAllFixes}
+            >
+              Apply {fixableCount} suggested fixes
+            </button>
+          )}
+          <label className="flex items-center text-xs text-gray-400 gap-2">
+            <input type="checkbox" checked={showWarnings} onChange={e => setShowWarnings(e.target.checked)} />
+            Show warnings
+          </label>
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-96">
+        <table className="w-full text-xs sm:text-sm text-left">
+          <thead className="bg-[#191D30] text-gray-400 uppercase text-xs sticky top-0">
+            <tr>
+              <th className="p-2 sm:p-3">Row</th>
+              <th className="p-2 sm:p-3">Fixture</th>
+              <th className="p-2 sm:p-3">Issues</th>
+              <th className="p-2 sm:p-3">Fix</th>
+            </tr>
+          </thead>
+          <tbody>
+            {flaggedRows.map(row => {
+              const fields = [...new Set(row.issues.map(issue => issue.field))];
+              return (
+                <tr key={row.index} className="border-b border-gray-800/50 align-top">
+                  <td className="p-2 sm:p-3 text-gray-400">{row.index + 1}</td>
+                  <td className="p-2 sm:p-3 whitespace-nowrap">
+                    Wk {formatValue(row.match.Wk)}: {row.match.Home || '?'} vs {row.match.Away || '?'}
+                  </td>
+                  <td className="p-2 sm:p-3">
+                    <ul className="space-y-1">
+                      {row.issues.map((issue, idx) => (
+                        <li key={idx} className={issue.severity === 'error' ? 'text-red-300' : 'text-yellow-300'}>
+                          {issue.severity === 'error' ? 'Error' : 'Warning'}: {issue.message}
+                          {issue.fix && (
+                            <button
+                              className="ml-2 underline text-[#00D3FF]"
+                              onClick={() => updateRow(row.index, issue.fix as Partial<MatchData>)}
+                            >
+                              fix
+                            </button>
+                          )}
+                          {issue.alias && (
+                            <button
+                              className="ml-2 underline text-[#00D3FF]"
+                              title={`Always treat "${issue.alias.alias}" as ${issue.alias.teamName}`}
+                              onClick={() => onAddAlias(issue.alias as UserAlias)}
+                            >
+                              add alias
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="p-2 sm:p-3">
+                    <div className="flex flex-col gap-1">
+                      {fields.map(field => (
+                        <label key={field} className="flex items-center gap-2 text-gray-400">
+                          <span className="w-14">{field}</span>
+                          <input
+                            value={formatValue(row.match[field])}
+                            onChange={e => updateField(row.index, field, e.target.value)}
+                            className="bg-[#2D1F54] border border-[#38003C] rounded px-2 py-1 text-white w-32"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+            {flaggedRows.length === 0 && (
+              <tr>
+                <td colSpan={4} className="p-4 sm:p-8 text-center text-gray-400">All rows passed validation</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-3 sm:p-4 border-t border-gray-800 flex flex-col sm:flex-row justify-end gap-2">
+        <button
+          className="text-sm bg-transparent border border-gray-600 text-gray-300 px-4 py-2 rounded-lg hover:bg-[#2A305E]"
+          onClick={onCancel}
+        >
+          Abort Import
+        </button>
+        <button
+          className="text-sm bg-[#38003C] text-white px-4 py-2 rounded-lg hover:bg-[#38003C]/80 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={report.validRows.length === 0}
+          onClick={() => onImport(report.validRows)}
+        >
+          {report.errorCount > 0
+            ? `Import ${report.validRows.length} valid rows`
+            : `Import all ${rows.length} rows`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
@@ -0,0 +1,12 @@
+import { MatchData } from '../types';
+
+// Sample fixtures shown before any CSV is uploaded (also used as test fixtures)
+export const defaultData: MatchData[] = [
+  { Wk: 1, Day: 'Fri', Date: '2024-08-16', Time: '20:00', Home: 'Manchester Utd', xG: 2.4, Score: '1–0', xG_away: 0.4, Away: 'Fulham', Attendance: '73,297', Venue: 'Old Trafford', Referee: 'Robert Jones', Status: 'played' },
+  { Wk: 1, Day: 'Sat', Date: '2024-08-17', Time: '12:30', Home: 'Ipswich Town', xG: 0.5, Score: '0–2', xG_away: 2.6, Away: 'Liverpool', Attendance: '30,014', Venue: 'Portman Road Stadium', Referee: 'Tim Robinson', Status: 'played' },
+  { Wk: 1, Day: 'Sat', Date: '2024-08-17', Time: '15:00', Home: 'Newcastle Utd', xG: 0.3, Score: '1–0', xG_away: 1.8, Away: 'Southampton', Attendance: '52,196', Venue: 'St James\' Park', Referee: 'Craig Pawson', Status: 'played' },
+  { Wk: 1, Day: 'Sat', Date: '2024-08-17', Time: '15:00', Home: 'Everton', xG: 0.5, Score: '0–3', xG_away: 1.4, Away: 'Brighton', Attendance: '39,217', Venue: 'Goodison Park', Referee: 'Simon Hooper', Status: 'played' },
+  // Dummy data for additional weeks
+  { Wk: 2, Day: 'Sat', Date: '2024-08-24', Time: '15:00', Home: 'Manchester Utd', xG: 1.8, Score: '2–1', xG_away: 1.2, Away: 'Liverpool', Attendance: '74,000', Venue: 'Old Trafford', Referee: 'Anthony Taylor', Status: 'played' },
+  { Wk: 2, Day: 'Sun', Date: '2024-08-25', Time: '14:00', Home: 'Fulham', xG: 1.0, Score: '1–1', xG_away: 1.5, Away: 'Newcastle Utd', Attendance: '25,000', Venue: 'Craven Cottage', Referee: 'Michael Oliver', Status: 'played' },
+];
@@ -0,0 +1,20 @@
+import { defaultData } from '../data/defaultData';
+import { sameMatches } from './dataSource';
+
+describe('sameMatches', () => {
+  it('ignores the order of keys', () => {
+    const reordered = defaultData.map(match => Object.fromEntries(Object.entries(match).reverse())) as typeof defaultData;
+    expect(sameMatches(defaultData, reordered)).toBe(true);
+  });
+
+  it('treats missing xG as equal to itself', () => {
+    const fixture = { ...defaultData[0], Status: 'scheduled' as const, Score: '', xG: NaN, xG_away: NaN };
+    expect(sameMatches([fixture], [{ ...fixture }])).toBe(true);
+  });
+
+  it('spots a changed field, an added field and a different number of matches', () => {
+    expect(sameMatches(defaultData, [{ ...defaultData[0], Score: '2–0' }, ...defaultData.slice(1)])).toBe(false);
+    expect(sameMatches(defaultData, [{ ...defaultData[0], Minute: 12 }, ...defaultData.slice(1)])).toBe(false);
+    expect(sameMatches(defaultData, defaultData.slice(1))).toBe(false);
+  });
+});
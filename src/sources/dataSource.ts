@@ -0,0 +1,42 @@
+import { MatchData } from '../types';
+import type { LiveMatchUpdate } from './liveStream';
+
+// What a source hands the dashboard
+export type SourceData =
+  // A parsed table whose columns may still need mapping by hand (file uploads)
+  | { kind: 'rows', headers: string[], rows: string[][] }
+  // A whole season of already mapped matches (e.g. each response from an endpoint)
+  | { kind: 'matches', matches: MatchData[], checkedAt: number }
+  // A check that found nothing new
+  | { kind: 'unchanged', checkedAt: number }
+  // Scores of matches in progress, or just finished
+  | { kind: 'live', updates: LiveMatchUpdate[] };
+
+export interface DataSourceHandlers {
+  onData: (data: SourceData) => void;
+  onError: (error: Error) => void;
+  // The source is connected (again); sources that deliver once never call it
+  onOpen?: () => void;
+}
+
+// The contract every source implements. start() begins delivering data, once or
+// until stopped; after stop() no handler is called again. A new kind of feed only
+// needs a factory returning one of these.
+export interface DataSource {
+  // The slot a source fills: starting one replaces the running source of the same kind
+  kind: 'file' | 'http' | 'live';
+  // Where the data comes from (file name or URL)
+  label: string;
+  start: (handlers: DataSourceHandlers) => void;
+  stop: () => void;
+}
+
+const sameMatch = (a: MatchData, b: MatchData): boolean => {
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof MatchData>;
+  return [...fields].every(field => Object.is(a[field], b[field]));
+};
+
+// Whether two lists hold the same matches, field by field (missing xG is NaN, which
+// only Object.is treats as equal to itself)
+export const sameMatches = (a: MatchData[], b: MatchData[]): boolean =>
+  a.length === b.length && a.every((match, idx) => sameMatch(match, b[idx]));
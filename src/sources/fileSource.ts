@@ -0,0 +1,49 @@
+import { ParsedCsv, parseCsv } from '../utils/csv';
+import { DataSource } from './dataSource';
+
+// A CSV file picked by the user, parsed but not yet mapped to matches (its columns
+// may still need mapping by hand)
+export interface FileSourceResult extends ParsedCsv {
+  fileName: string;
+}
+
+export const readFileSource = (file: File): Promise<FileSourceResult> =>
+  new Promise((resolve, reject) => {
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      reject(new Error('Please upload a CSV file'));
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const { headers, rows } = parseCsv(reader.result as string);
+      if (rows.length === 0) {
+        reject(new Error('CSV file is empty or contains only headers'));
+        return;
+      }
+      resolve({ fileName: file.name, headers, rows });
+    };
+    reader.onerror = () => reject(new Error('Failed to read the selected file'));
+    reader.readAsText(file);
+  });
+
+// A file as a data source: delivers its rows once, for column mapping and review
+export const createFileSource = (file: File): DataSource => {
+  let stopped = false;
+  return {
+    kind: 'file',
+    label: file.name,
+    start: ({ onData, onError }) => {
+      readFileSource(file)
+        .then(({ headers, rows }) => {
+          if (!stopped) onData({ kind: 'rows', headers, rows });
+        })
+        .catch(error => {
+          if (!stopped) onError(error instanceof Error ? error : new Error(String(error)));
+        });
+    },
+    stop: () => {
+      stopped = true;
+    }
+  };
+};
@@ -0,0 +1,150 @@
+/// <reference types="node" />
+import { AddressInfo } from 'net';
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { SourceData } from './dataSource';
+import { DEFAULT_HTTP_SOURCE, HttpFetchResult, HttpSourceConfig, createHttpSource, fetchHttpSource, mapJsonMatches, startHttpPolling } from './httpSource';
+
+// Local mock endpoint: serves `body` with an ETag and answers 304 when the client
+// already has it. Requests are recorded for assertions.
+const ETAG = '"v1"';
+let server: Server;
+let baseUrl: string;
+let requests: IncomingMessage[] = [];
+let handler: (req: IncomingMessage, res: ServerResponse) => void;
+
+const fixtures = {
+  data: {
+    fixtures: [
+      { round: 1, kickoff: { date: '2024-08-16', time: '20:00' }, teams: { home: 'Manchester Utd', away: 'Fulham' }, result: '1–0', xg: { home: 2.4, away: 0.4 }, status: 'FT' },
+      { round: 2, kickoff: { date: '2024-08-24', time: '15:00' }, teams: { home: 'Fulham', away: 'Liverpool' }, result: null, xg: { home: null, away: null } }
+    ]
+  }
+};
+
+const mappedConfig = (url: string): HttpSourceConfig => ({
+  ...DEFAULT_HTTP_SOURCE,
+  url,
+  recordsPath: 'data.fixtures',
+  fieldMap: {
+    Wk: 'round', Date: 'kickoff.date', Time: 'kickoff.time', Home: 'teams.home', Away: 'teams.away',
+    Score: 'result', xG: 'xg.home', xG_away: 'xg.away', Status: 'status'
+  }
+});
+
+beforeAll(done => {
+  server = createServer((req, res) => {
+    requests.push(req);
+    handler(req, res);
+  });
+  server.listen(0, '127.0.0.1', () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(() => done());
+});
+
+beforeEach(() => {
+  requests = [];
+  handler = (req, res) => {
+    if (req.headers['if-none-match'] === ETAG) {
+      res.writeHead(304);
+      res.end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json', ETag: ETAG, 'Last-Modified': 'Mon, 06 Jan 2025 09:00:00 GMT' });
+    res.end(JSON.stringify(fixtures));
+  };
+});
+
+describe('mapJsonMatches', () => {
+  it('reads a top-level array with MatchData field names', () => {
+    const [match] = mapJsonMatches([{ Wk: 3, Date: '2024-09-01', Home: 'Arsenal', Away: 'Chelsea', Score: '2–2', xG: '1.5', xG_away: 0.9 }], '', {});
+    expect(match).toMatchObject({ Wk: 3, Home: 'Arsenal', Score: '2–2', xG: 1.5, xG_away: 0.9, Status: 'played', Venue: '' });
+  });
+
+  it('rejects a body without a match array', () => {
+    expect(() => mapJsonMatches({ data: {} }, 'data.fixtures', {})).toThrow('Expected an array of matches at "data.fixtures"');
+  });
+});
+
+describe('fetchHttpSource', () => {
+  it('maps a nested JSON shape and returns the cache validators', async () => {
+    const result = await fetchHttpSource(mappedConfig(`${baseUrl}/matches`));
+    expect(result.status).toBe('updated');
+    if (result.status !== 'updated') return;
+    expect(result.matches).toHaveLength(2);
+    expect(result.matches[0]).toMatchObject({ Wk: 1, Home: 'Manchester Utd', Away: 'Fulham', Score: '1–0', xG: 2.4, Status: 'played' });
+    expect(result.matches[1]).toMatchObject({ Home: 'Fulham', Score: '', Status: 'scheduled' });
+    expect(result.validators).toEqual({ etag: ETAG, lastModified: 'Mon, 06 Jan 2025 09:00:00 GMT' });
+  });
+
+  it('sends the auth header and conditional headers, and reports 304 as not modified', async () => {
+    const config = { ...mappedConfig(`${baseUrl}/matches`), authHeaderName: 'X-Api-Key', authHeaderValue: 'secret' };
+    const result = await fetchHttpSource(config, { etag: ETAG, lastModified: 'Mon, 06 Jan 2025 09:00:00 GMT' });
+    expect(result.status).toBe('not-modified');
+    expect(requests[0].headers['x-api-key']).toBe('secret');
+    expect(requests[0].headers['if-modified-since']).toBe('Mon, 06 Jan 2025 09:00:00 GMT');
+  });
+
+  it('fails on an error status', async () => {
+    handler = (_, res) => {
+      res.writeHead(401, 'Unauthorized');
+      res.end();
+    };
+    await expect(fetchHttpSource(mappedConfig(`${baseUrl}/matches`))).rejects.toThrow('responded 401 Unauthorized');
+  });
+});
+
+describe('startHttpPolling', () => {
+  it('polls with the validators from the previous response', async () => {
+    const results: HttpFetchResult[] = [];
+    const config = { ...mappedConfig(`${baseUrl}/matches`), pollIntervalSeconds: 0.05 };
+    await new Promise<void>((resolve, reject) => {
+      const stop = startHttpPolling(config, result => {
+        results.push(result);
+        if (results.length === 2) {
+          stop();
+          resolve();
+        }
+      }, reject);
+    });
+    expect(results.map(result => result.status)).toEqual(['updated', 'not-modified']);
+    expect(requests[1].headers['if-none-match']).toBe(ETAG);
+  });
+});
+
+describe('createHttpSource', () => {
+  it('delivers the season, then reports unchanged checks', async () => {
+    const received: SourceData[] = [];
+    const source = createHttpSource({ ...mappedConfig(`${baseUrl}/matches`), pollIntervalSeconds: 0.05 });
+    expect(source).toMatchObject({ kind: 'http', label: `${baseUrl}/matches` });
+    await new Promise<void>((resolve, reject) => {
+      source.start({
+        onData: data => {
+          received.push(data);
+          if (received.length === 2) {
+            source.stop();
+            resolve();
+          }
+        },
+        onError: reject
+      });
+    });
+    expect(received.map(data => data.kind)).toEqual(['matches', 'unchanged']);
+    expect(received[0].kind === 'matches' && received[0].matches).toHaveLength(2);
+  });
+
+  it('reports failed checks through onError', async () => {
+    handler = (req, res) => {
+      res.writeHead(500);
+      res.end();
+    };
+    const source = createHttpSource({ ...mappedConfig(`${baseUrl}/matches`), pollIntervalSeconds: 0 });
+    const error = await new Promise<Error>(resolve => source.start({ onData: () => undefined, onError: resolve }));
+    source.stop();
+    expect(error.message).toContain('responded 500');
+  });
+});
@@ -0,0 +1,205 @@
+import { MatchData, MatchField } from '../types';
+import { ALL_FIELDS, ColumnMapping, mapRowsToMatches } from '../utils/csv';
+import { DataSource } from './dataSource';
+
+// A JSON endpoint serving a season of matches
+export interface HttpSourceConfig {
+  url: string;
+  // Extra header sent with every request, e.g. Authorization: Bearer <token>
+  authHeaderName: string;
+  authHeaderValue: string;
+  // Dot path to the array of matches in the response body ('' = the body is the array)
+  recordsPath: string;
+  // Property (dot path) holding each MatchData field; unmapped fields are read from
+  // a property with the field's own name
+  fieldMap: Partial<Record<MatchField, string>>;
+  // Seconds between checks for new data; 0 loads once
+  pollIntervalSeconds: number;
+}
+
+export const DEFAULT_HTTP_SOURCE: HttpSourceConfig = {
+  url: '',
+  authHeaderName: 'Authorization',
+  authHeaderValue: '',
+  recordsPath: '',
+  fieldMap: {},
+  pollIntervalSeconds: 60
+};
+
+export const POLL_INTERVAL_OPTIONS = [0, 15, 30, 60, 300, 900];
+
+// Validators from the last response, sent back so an unchanged feed costs a 304
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export type HttpFetchResult =
+  | { status: 'updated', matches: MatchData[], validators: CacheValidators, checkedAt: number }
+  | { status: 'not-modified', validators: CacheValidators, checkedAt: number };
+
+// Outcome of the latest check, for the "last updated" indicator
+export interface HttpSourceStatus {
+  checkedAt: number | null;
+  // Message from the last failed check ('' when it succeeded)
+  error: string;
+  // Rows in the last update that failed validation and were left out
+  skippedRows: number;
+}
+
+export const INITIAL_HTTP_STATUS: HttpSourceStatus = { checkedAt: null, error: '', skippedRows: 0 };
+
+export type FetchLike = (url: string, init: { headers: Record<string, string> }) => Promise<Response>;
+
+const CONFIG_STORAGE_KEY = 'pl-dashboard:http-source';
+
+// Read a dot path ("data.fixtures", "teams.home.name") from a parsed JSON value
+export const getPath = (value: unknown, path: string): unknown =>
+  path.split('.').filter(key => key !== '').reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+
+// Turn a response body into matches: find the record array, read each field through
+// the field map, then parse the values exactly as a CSV import would
+export const mapJsonMatches = (
+  body: unknown,
+  recordsPath: string,
+  fieldMap: Partial<Record<MatchField, string>>
+): MatchData[] => {
+  const records = recordsPath.trim() === '' ? body : getPath(body, recordsPath.trim());
+  if (!Array.isArray(records)) {
+    throw new Error(recordsPath.trim() === ''
+      ? 'Expected the response to be an array of matches'
+      : `Expected an array of matches at "${recordsPath.trim()}"`);
+  }
+
+  const mapping: ColumnMapping = {};
+  ALL_FIELDS.forEach((field, idx) => {
+    mapping[field] = idx;
+  });
+  const rows = records.map(record => ALL_FIELDS.map(field => {
+    const value = getPath(record, fieldMap[field] || field);
+    return value === null || value === undefined ? '' : String(value);
+  }));
+  return mapRowsToMatches(rows, mapping);
+};
+
+const requestHeaders = (config: HttpSourceConfig, validators: CacheValidators): Record<string, string> => {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (config.authHeaderName.trim() !== '' && config.authHeaderValue !== '') {
+    headers[config.authHeaderName.trim()] = config.authHeaderValue;
+  }
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+  return headers;
+};
+
+// One conditional request against the endpoint
+export const fetchHttpSource = async (
+  config: HttpSourceConfig,
+  validators: CacheValidators = {},
+  fetchImpl: FetchLike = (url, init) => fetch(url, init)
+): Promise<HttpFetchResult> => {
+  const response = await fetchImpl(config.url, { headers: requestHeaders(config, validators) });
+  const checkedAt = Date.now();
+
+  if (response.status === 304) {
+    return { status: 'not-modified', validators, checkedAt };
+  }
+  if (!response.ok) {
+    throw new Error(`${config.url} responded ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new Error(`${config.url} did not return valid JSON`);
+  }
+
+  return {
+    status: 'updated',
+    matches: mapJsonMatches(body, config.recordsPath, config.fieldMap),
+    validators: {
+      etag: response.headers.get('ETag') || undefined,
+      lastModified: response.headers.get('Last-Modified') || undefined
+    },
+    checkedAt
+  };
+};
+
+// Fetch now, then every pollIntervalSeconds until stopped. Checks never overlap, and
+// a failed check keeps the schedule so a flaky endpoint recovers on its own.
+// Returns the stop function.
+export const startHttpPolling = (
+  config: HttpSourceConfig,
+  onResult: (result: HttpFetchResult) => void,
+  onError: (error: Error) => void,
+  fetchImpl?: FetchLike
+): (() => void) => {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let validators: CacheValidators = {};
+
+  const check = async () => {
+    try {
+      const result = await fetchHttpSource(config, validators, fetchImpl);
+      if (stopped) return;
+      validators = result.validators;
+      onResult(result);
+    } catch (error) {
+      if (stopped) return;
+      onError(error instanceof Error ? error : new Error(String(error)));
+    }
+    if (!stopped && config.pollIntervalSeconds > 0) {
+      timer = setTimeout(check, config.pollIntervalSeconds * 1000);
+    }
+  };
+
+  check();
+  return () => {
+    stopped = true;
+    if (timer !== undefined) clearTimeout(timer);
+  };
+};
+
+// The endpoint as a data source: every response is the whole season, and checks
+// that find nothing new (304) are reported as unchanged
+export const createHttpSource = (config: HttpSourceConfig, fetchImpl?: FetchLike): DataSource => {
+  let stop = () => {};
+  return {
+    kind: 'http',
+    label: config.url,
+    start: ({ onData, onError }) => {
+      stop = startHttpPolling(
+        config,
+        result => onData(result.status === 'updated'
+          ? { kind: 'matches', matches: result.matches, checkedAt: result.checkedAt }
+          : { kind: 'unchanged', checkedAt: result.checkedAt }),
+        onError,
+        fetchImpl
+      );
+    },
+    stop: () => stop()
+  };
+};
+
+// The last endpoint settings, without the auth header value (secrets stay out of storage)
+export const loadHttpSourceConfig = (): HttpSourceConfig => {
+  try {
+    const stored = window.localStorage.getItem(CONFIG_STORAGE_KEY);
+    return stored ? { ...DEFAULT_HTTP_SOURCE, ...JSON.parse(stored), authHeaderValue: '' } : DEFAULT_HTTP_SOURCE;
+  } catch (error) {
+    console.error('Failed to load endpoint settings:', error);
+    return DEFAULT_HTTP_SOURCE;
+  }
+};
+
+export const saveHttpSourceConfig = (config: HttpSourceConfig): void => {
+  try {
+    window.localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({ ...config, authHeaderValue: '' }));
+  } catch (error) {
+    console.error('Failed to save endpoint settings:', error);
+  }
+};
@@ -0,0 +1,7 @@
+// Pluggable data sources: each one turns an external feed (a picked CSV file, a
+// JSON endpoint, a live-score stream) into match data for the season store, behind
+// the DataSource contract
+export * from './dataSource';
+export * from './fileSource';
+export * from './httpSource';
+export * from './liveStream';
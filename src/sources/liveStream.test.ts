@@ -0,0 +1,107 @@
+import { MatchData } from '../types';
+import { defaultData } from '../data/defaultData';
+import { createTeamRegistry } from '../utils/teams';
+import { applyLiveUpdates, parseLiveMessage, recordFinalResults, separateLiveMatches } from './liveStream';
+
+const fixture: MatchData = {
+  Wk: 3, Day: 'Sat', Date: '2024-08-31', Time: '15:00', Home: 'Everton', xG: NaN, Score: '', xG_away: NaN,
+  Away: 'Ipswich Town', Attendance: '', Venue: 'Goodison Park', Referee: '', Status: 'scheduled'
+};
+
+describe('parseLiveMessage', () => {
+  it('reads single updates, arrays and { matches } envelopes', () => {
+    const update = { Home: 'Everton', Away: 'Ipswich Town', Score: '1-0', Minute: '34', xG: 0.8, xG_away: '0.2' };
+    expect(parseLiveMessage(JSON.stringify(update))).toEqual([
+      { Home: 'Everton', Away: 'Ipswich Town', Status: 'live', Score: '1–0', Minute: 34, xG: 0.8, xG_away: 0.2 }
+    ]);
+    expect(parseLiveMessage(JSON.stringify([update, update]))).toHaveLength(2);
+    expect(parseLiveMessage(JSON.stringify({ matches: [{ ...update, Status: 'FT' }] }))[0].Status).toBe('played');
+  });
+
+  it('rejects messages that are not JSON or lack the teams', () => {
+    expect(() => parseLiveMessage('goal!')).toThrow('not JSON');
+    expect(() => parseLiveMessage(JSON.stringify({ Score: '1–0' }))).toThrow('missing Home or Away');
+  });
+});
+
+describe('applyLiveUpdates', () => {
+  it('overlays updates on the matching fixture, resolving team names', () => {
+    const canonical = (team: string) => (team === 'Ipswich' ? 'Ipswich Town' : team);
+    const matches = applyLiveUpdates([...defaultData, fixture], [
+      { Home: 'Everton', Away: 'Ipswich', Status: 'live', Score: '2–0', Minute: 71, xG: 1.6, xG_away: 0.4 },
+      { Home: 'Arsenal', Away: 'Chelsea', Status: 'live', Score: '0–0', Minute: 5, xG: 0.1, xG_away: 0 }
+    ], canonical);
+
+    expect(matches).toHaveLength(defaultData.length + 1);
+    expect(matches[matches.length - 1]).toMatchObject({ Status: 'live', Score: '2–0', Minute: 71, xG: 1.6, Venue: 'Goodison Park' });
+    expect(matches.slice(0, defaultData.length)).toEqual(defaultData);
+  });
+
+  it('records the final whistle as a played match without a clock', () => {
+    const [match] = applyLiveUpdates([{ ...fixture, Status: 'live', Minute: 90 }], [
+      { Home: 'Everton', Away: 'Ipswich Town', Status: 'played', Score: '2–1', xG: 1.8, xG_away: 0.9 }
+    ]);
+    expect(match).toMatchObject({ Status: 'played', Score: '2–1' });
+    expect(match.Minute).toBeUndefined();
+  });
+
+  it('keeps the fixture\'s xG when an update has none', () => {
+    const [match] = applyLiveUpdates([{ ...fixture, Status: 'live', xG: 1.2, xG_away: 0.3 }], [
+      { Home: 'Everton', Away: 'Ipswich Town', Status: 'played', Score: '1–0', xG: NaN, xG_away: NaN }
+    ]);
+    expect(match).toMatchObject({ Status: 'played', Score: '1–0', xG: 1.2, xG_away: 0.3 });
+  });
+});
+
+describe('recordFinalResults', () => {
+  const registry = createTeamRegistry();
+
+  it('records valid results, repairing the score', () => {
+    const { matches, rejected } = recordFinalResults([...defaultData, fixture], [
+      { Home: 'Everton', Away: 'Ipswich', Status: 'played', Score: '2-0', xG: 1.7, xG_away: 0.5 }
+    ], registry);
+    expect(rejected).toEqual([]);
+    expect(matches.slice(0, defaultData.length)).toEqual(defaultData);
+    expect(matches[defaultData.length]).toMatchObject({ Status: 'played', Score: '2–0', xG: 1.7 });
+  });
+
+  it('keeps an unknown club\'s name rather than a suggested one', () => {
+    const unknown: MatchData = { ...fixture, Home: 'Sheffield Wed', Away: 'Barnsley' };
+    const { matches, rejected } = recordFinalResults([unknown], [
+      { Home: 'Sheffield Wed', Away: 'Barnsley', Status: 'played', Score: '2–0', xG: 1.4, xG_away: 0.6 }
+    ], registry);
+    expect(rejected).toEqual([]);
+    expect(matches[0]).toMatchObject({ Home: 'Sheffield Wed', Away: 'Barnsley', Status: 'played', Score: '2–0' });
+  });
+
+  it('leaves fixtures unchanged when their result fails validation', () => {
+    const season = [...defaultData, fixture];
+    const { matches, rejected } = recordFinalResults(season, [
+      { Home: 'Everton', Away: 'Ipswich Town', Status: 'played', Score: 'abandoned', xG: 1.7, xG_away: 0.5 }
+    ], registry);
+    expect(matches).toBe(season);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].index).toBe(defaultData.length);
+    expect(rejected[0].issues[0].field).toBe('Score');
+  });
+
+  it('rejects a final score without xG on a fixture that has none', () => {
+    const { matches, rejected } = recordFinalResults([fixture], [
+      { Home: 'Everton', Away: 'Ipswich Town', Status: 'played', Score: '1–1', xG: NaN, xG_away: NaN }
+    ]);
+    expect(matches).toEqual([fixture]);
+    expect(rejected[0].issues.map(issue => issue.field)).toEqual(['xG', 'xG_away']);
+  });
+});
+
+describe('separateLiveMatches', () => {
+  it('turns live rows back into fixtures and returns them as updates', () => {
+    const live: MatchData = { ...fixture, Status: 'live', Score: '1–1', Minute: 55, xG: 0.9, xG_away: 1.1 };
+    const { fixtures, live: updates } = separateLiveMatches([...defaultData, live]);
+
+    expect(fixtures.slice(0, defaultData.length)).toEqual(defaultData);
+    expect(fixtures[fixtures.length - 1]).toMatchObject({ Status: 'scheduled', Score: '' });
+    expect(fixtures[fixtures.length - 1].Minute).toBeUndefined();
+    expect(updates).toEqual([{ Home: 'Everton', Away: 'Ipswich Town', Status: 'live', Score: '1–1', Minute: 55, xG: 0.9, xG_away: 1.1 }]);
+  });
+});
@@ -0,0 +1,239 @@
+import { MatchData } from '../types';
+import { isLive } from '../utils/fixtures';
+import { parseNumericCell } from '../utils/csv';
+import { TeamRegistry } from '../utils/teams';
+import { RowValidation, validateWithScoreFixes } from '../utils/validation';
+import { DataSource } from './dataSource';
+
+// The in-progress state of one fixture, matched to the season by home and away team
+export interface LiveMatchUpdate {
+  Home: string;
+  Away: string;
+  // 'played' marks the final whistle
+  Status: 'live' | 'played';
+  Score: string;
+  Minute?: number;
+  xG: number;
+  xG_away: number;
+}
+
+// Connection state of the live stream, for the data source panel
+export interface LiveStreamStatus {
+  lastMessageAt: number | null;
+  // Message from the last failure ('' while healthy)
+  error: string;
+}
+
+export const INITIAL_LIVE_STATUS: LiveStreamStatus = { lastMessageAt: null, error: '' };
+
+const CONFIG_STORAGE_KEY = 'pl-dashboard:live-stream';
+// A dropped WebSocket is reopened after this long (EventSource reconnects by itself)
+const RECONNECT_DELAY_MS = 5000;
+
+const FINISHED_STATUSES = ['played', 'ft', 'full time', 'full-time', 'finished', 'aet'];
+
+export const liveUpdateKey = (home: string, away: string): string =>
+  `${home.toLowerCase()}|${away.toLowerCase()}`;
+
+const readNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : parseNumericCell(value === null || value === undefined ? '' : String(value));
+
+// Normalise scores like "2-1" or "2 - 1" to the en dash the rest of the dashboard uses
+const readScore = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  const parts = text.match(/^(\d+)\s*[-–—−]\s*(\d+)$/);
+  return parts ? `${parts[1]}–${parts[2]}` : text;
+};
+
+const withoutMinute = (match: MatchData): MatchData => {
+  const copy = { ...match };
+  delete copy.Minute;
+  return copy;
+};
+
+// Parse one stream message: a single update, an array of them, or { matches: [...] }.
+// Each needs Home and Away; Status defaults to live.
+export const parseLiveMessage = (text: string): LiveMatchUpdate[] => {
+  let message: unknown;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    throw new Error('Live stream sent a message that is not JSON');
+  }
+
+  const records = Array.isArray(message)
+    ? message
+    : message !== null && typeof message === 'object' && Array.isArray((message as { matches?: unknown }).matches)
+      ? (message as { matches: unknown[] }).matches
+      : [message];
+
+  return records.map(record => {
+    const fields = (record !== null && typeof record === 'object' ? record : {}) as Record<string, unknown>;
+    if (typeof fields.Home !== 'string' || typeof fields.Away !== 'string') {
+      throw new Error('Live update is missing Home or Away');
+    }
+    const minute = readNumber(fields.Minute);
+    const status = String(fields.Status ?? '').trim().toLowerCase();
+    return {
+      Home: fields.Home,
+      Away: fields.Away,
+      Status: FINISHED_STATUSES.includes(status) ? 'played' : 'live',
+      Score: readScore(fields.Score),
+      ...(Number.isFinite(minute) ? { Minute: minute } : {}),
+      xG: readNumber(fields.xG),
+      xG_away: readNumber(fields.xG_away)
+    };
+  });
+};
+
+// Overlay updates on a season's fixtures. Names go through `canonical` (e.g. the team
+// registry) on both sides; updates for fixtures not in the season are ignored. An
+// update without xG keeps whatever xG the fixture already has.
+export const applyLiveUpdates = (
+  matches: MatchData[],
+  updates: LiveMatchUpdate[],
+  canonical: (team: string) => string = team => team
+): MatchData[] => {
+  if (updates.length === 0) return matches;
+  const byFixture = new Map(updates.map(update => [liveUpdateKey(canonical(update.Home), canonical(update.Away)), update]));
+
+  return matches.map(match => {
+    const update = byFixture.get(liveUpdateKey(canonical(match.Home), canonical(match.Away)));
+    if (!update) return match;
+    return {
+      ...withoutMinute(match),
+      Status: update.Status,
+      Score: update.Score,
+      xG: Number.isFinite(update.xG) ? update.xG : match.xG,
+      xG_away: Number.isFinite(update.xG_away) ? update.xG_away : match.xG_away,
+      ...(update.Status === 'live' && update.Minute !== undefined ? { Minute: update.Minute } : {})
+    };
+  });
+};
+
+// Write final scores into a season's fixtures. The changed rows are validated like a
+// polled import: a hyphenated score is repaired, but team names are never rewritten
+// to a suggested club. Rows that still fail keep their fixture unchanged and are
+// returned as rejected.
+export const recordFinalResults = (
+  matches: MatchData[],
+  results: LiveMatchUpdate[],
+  registry?: TeamRegistry
+): { matches: MatchData[], rejected: RowValidation[] } => {
+  const canonical = registry ? (team: string) => registry.resolve(team).name : undefined;
+  const applied = applyLiveUpdates(matches, results, canonical);
+  const changed = applied.flatMap((match, idx) => (match === matches[idx] ? [] : [idx]));
+  if (changed.length === 0) return { matches, rejected: [] };
+
+  const report = validateWithScoreFixes(changed.map(idx => applied[idx]), registry);
+  const recorded = [...matches];
+  const rejected: RowValidation[] = [];
+  report.rows.forEach((row, idx) => {
+    if (row.issues.some(issue => issue.severity === 'error')) {
+      rejected.push({ ...row, index: changed[idx] });
+    } else {
+      recorded[changed[idx]] = row.match;
+    }
+  });
+
+  return { matches: rejected.length === changed.length ? matches : recorded, rejected };
+};
+
+// Split a feed's matches into settled fixtures and live updates. Live rows go back to
+// being scheduled fixtures, so the stored season (and every chart drawn from it) only
+// changes when a result does.
+export const separateLiveMatches = (matches: MatchData[]): { fixtures: MatchData[], live: LiveMatchUpdate[] } => ({
+  fixtures: matches.map(match => {
+    if (!isLive(match)) return match;
+    return { ...withoutMinute(match), Status: 'scheduled', Score: '', xG: NaN, xG_away: NaN };
+  }),
+  live: matches.filter(isLive).map(match => ({
+    Home: match.Home,
+    Away: match.Away,
+    Status: 'live',
+    Score: match.Score,
+    ...(match.Minute !== undefined ? { Minute: match.Minute } : {}),
+    xG: match.xG,
+    xG_away: match.xG_away
+  }))
+});
+
+// Listen to a WebSocket (ws:// or wss://) or Server-Sent Events (http:// or https://)
+// stream of live updates. Returns the function that closes it.
+export const connectLiveStream = (
+  url: string,
+  onUpdates: (updates: LiveMatchUpdate[]) => void,
+  onError: (error: Error) => void,
+  onOpen: () => void
+): (() => void) => {
+  let closed = false;
+  const handleMessage = (data: string) => {
+    try {
+      onUpdates(parseLiveMessage(data));
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error(String(error)));
+    }
+  };
+
+  if (/^wss?:\/\//i.test(url)) {
+    let socket: WebSocket;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const open = () => {
+      socket = new WebSocket(url);
+      socket.onopen = onOpen;
+      socket.onmessage = event => handleMessage(String(event.data));
+      socket.onclose = () => {
+        if (closed) return;
+        onError(new Error(`Lost the live stream at ${url}; reconnecting`));
+        timer = setTimeout(open, RECONNECT_DELAY_MS);
+      };
+    };
+    open();
+    return () => {
+      closed = true;
+      if (timer !== undefined) clearTimeout(timer);
+      socket.close();
+    };
+  }
+
+  const source = new EventSource(url);
+  source.onopen = onOpen;
+  source.onmessage = event => handleMessage(event.data);
+  source.onerror = () => {
+    if (!closed) onError(new Error(`Lost the live stream at ${url}; reconnecting`));
+  };
+  return () => {
+    closed = true;
+    source.close();
+  };
+};
+
+// The live stream as a data source delivering batches of score updates
+export const createLiveStreamSource = (url: string): DataSource => {
+  let stop = () => {};
+  return {
+    kind: 'live',
+    label: url,
+    start: ({ onData, onError, onOpen }) => {
+      stop = connectLiveStream(url, updates => onData({ kind: 'live', updates }), onError, () => onOpen?.());
+    },
+    stop: () => stop()
+  };
+};
+
+export const loadLiveStreamUrl = (): string => {
+  try {
+    return window.localStorage.getItem(CONFIG_STORAGE_KEY) || '';
+  } catch (error) {
+    console.error('Failed to load live stream settings:', error);
+    return '';
+  }
+};
+
+export const saveLiveStreamUrl = (url: string): void => {
+  try {
+    window.localStorage.setItem(CONFIG_STORAGE_KEY, url);
+  } catch (error) {
+    console.error('Failed to save live stream settings:', error);
+  }
+};
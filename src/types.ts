@@ -0,0 +1,42 @@
+// Shared data types used across the dashboard
+
+// Lifecycle of a fixture. Only played matches count towards results and aggregates;
+// live ones carry the score so far and feed the provisional live table.
+export type MatchStatus = 'played' | 'live' | 'scheduled' | 'postponed' | 'abandoned';
+
+// A single fixture row as loaded from CSV (FBref "Scores & Fixtures" layout)
+export interface MatchData {
+  Wk: number;
+  Day: string;
+  Date: string;
+  Time: string;
+  Home: string;
+  xG: number;
+  Score: string;
+  xG_away: number;
+  Away: string;
+  Attendance: string;
+  Venue: string;
+  Referee: string;
+  Status: MatchStatus;
+  // Minutes played, for live matches
+  Minute?: number;
+}
+
+// One goal from a goal-event file, keyed to its fixture by home and away team
+export interface GoalEvent {
+  // Optional; when given it must match the fixture's date
+  Date: string;
+  Home: string;
+  Away: string;
+  // Side the goal counts for (the opponent of the scorer for an own goal)
+  Team: string;
+  Minute: number;
+  // Stoppage-time minutes, e.g. 2 for "45+2"
+  AddedTime: number;
+  Player: string;
+  OwnGoal: boolean;
+}
+
+// Keys of MatchData that can be mapped from a CSV column
+export type MatchField = keyof MatchData;
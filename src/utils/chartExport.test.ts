@@ -0,0 +1,31 @@
+import { chartFileName, chartTableCsv } from './chartExport';
+import { parseCsv } from './csv';
+
+// The Plotly bundle needs a browser; these tests only cover the data side of exports
+jest.mock('plotly.js-dist-min', () => ({}));
+
+describe('chartFileName', () => {
+  it('turns a chart title into a file name', () => {
+    expect(chartFileName('xG vs xGA - Arsenal')).toBe('xg-vs-xga-arsenal');
+    expect(chartFileName("PPG Nott'ham Forest vs Brighton & Hove Albion")).toBe('ppg-nott-ham-forest-vs-brighton-hove-albion');
+  });
+
+  it('falls back to "chart" for a title without letters or digits', () => {
+    expect(chartFileName(' – ')).toBe('chart');
+  });
+});
+
+describe('chartTableCsv', () => {
+  it('writes a header row, then one row per data point', () => {
+    const csv = chartTableCsv({
+      headers: ['team', 'xg', 'xga'],
+      rows: [['Arsenal', 1.8, 0.9], ['Brighton & Hove Albion, "Seagulls"', 1.2, NaN]]
+    });
+    expect(csv).toBe('team,xg,xga\r\nArsenal,1.8,0.9\r\n"Brighton & Hove Albion, ""Seagulls""",1.2,\r\n');
+    expect(parseCsv(csv).rows[1]).toEqual(['Brighton & Hove Albion, "Seagulls"', '1.2', '']);
+  });
+
+  it('writes just the headers for a chart with no data', () => {
+    expect(chartTableCsv({ headers: ['team', 'points'], rows: [] })).toBe('team,points\r\n');
+  });
+});
@@ -0,0 +1,59 @@
+import Plotly from 'plotly.js-dist-min';
+import { formatCsv } from './csv';
+
+export type ChartImageFormat = 'png' | 'svg';
+
+// The numbers behind a chart, as they are offered for CSV download
+export interface ChartTable {
+  headers: string[];
+  rows: (string | number)[][];
+}
+
+// File name (without extension) for a chart title: "xG vs xGA - Arsenal" -> "xg-vs-xga-arsenal"
+export const chartFileName = (title: string): string =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'chart';
+
+// Save a rendered Plotly chart as a PNG or SVG at its on-screen size
+export const downloadChartImage = async (
+  element: HTMLElement,
+  format: ChartImageFormat,
+  fileName: string
+): Promise<void> => {
+  await Plotly.downloadImage(element, {
+    format,
+    filename: fileName,
+    width: element.clientWidth || 800,
+    height: element.clientHeight || 400,
+    // Twice the resolution so PNGs stay sharp in slides and print
+    scale: format === 'png' ? 2 : 1
+  } as Plotly.DownloadImgopts);
+};
+
+// Offer text content to the browser as a file download
+export const downloadText = (content: string, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// CSV text for a chart's data table
+export const chartTableCsv = (table: ChartTable): string => formatCsv(table.headers, table.rows);
+
+export const downloadChartData = (table: ChartTable, fileName: string): void =>
+  downloadText(chartTableCsv(table), `${fileName}.csv`, 'text/csv;charset=utf-8');
+
+// Re-fit every rendered chart to its container, e.g. when the page switches to
+// the narrower print layout and back
+export const resizeAllCharts = (): void => {
+  document.querySelectorAll<HTMLElement>('.js-plotly-plot').forEach(element => {
+    Plotly.Plots.resize(element);
+  });
+};
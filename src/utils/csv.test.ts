@@ -0,0 +1,123 @@
+import {
+  DEFAULT_COLUMN_ALIASES,
+  deduplicateHeaders,
+  formatCsv,
+  getMissingFields,
+  mapRowsToMatches,
+  mergeAliases,
+  parseCsv,
+  parseNumericCell,
+  resolveColumnMapping
+} from './csv';
+
+const FBREF_HEADER = 'Wk,Day,Date,Time,Home,xG,Score,xG,Away,Attendance,Venue,Referee,Match Report,Notes';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with separators, escaped quotes and line breaks', () => {
+    const { headers, rows } = parseCsv('Home,Venue,Notes\nArsenal,"Emirates Stadium, London","He said ""wow""\nthen left"\n');
+    expect(headers).toEqual(['Home', 'Venue', 'Notes']);
+    expect(rows).toEqual([['Arsenal', 'Emirates Stadium, London', 'He said "wow"\nthen left']]);
+  });
+
+  it('accepts CRLF and CR line endings and a missing final newline', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n3,4').rows).toEqual([['1', '2'], ['3', '4']]);
+    expect(parseCsv('a,b\r1,2\r').rows).toEqual([['1', '2']]);
+  });
+
+  it('strips a UTF-8 BOM and trims headers', () => {
+    expect(parseCsv('\uFEFF Wk ,Home\n1,Arsenal\n').headers).toEqual(['Wk', 'Home']);
+  });
+
+  it('drops the blank separator lines between gameweeks', () => {
+    const { rows } = parseCsv('Wk,Home\n1,Arsenal\n\n,\n2,Chelsea\n');
+    expect(rows).toEqual([['1', 'Arsenal'], ['2', 'Chelsea']]);
+  });
+
+  it('keeps empty fields, including a trailing one', () => {
+    expect(parseCsv('a,b,c\n1,,\n').rows).toEqual([['1', '', '']]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseCsv('')).toEqual({ headers: [], rows: [] });
+    expect(parseCsv('\n\n')).toEqual({ headers: [], rows: [] });
+  });
+
+  it('names the repeated FBref xG header xG.1', () => {
+    expect(parseCsv(`${FBREF_HEADER}\n`).headers.slice(5, 8)).toEqual(['xG', 'Score', 'xG.1']);
+  });
+});
+
+describe('deduplicateHeaders', () => {
+  it('numbers every repeat like pandas', () => {
+    expect(deduplicateHeaders(['xG', 'Score', 'xG', 'xG'])).toEqual(['xG', 'Score', 'xG.1', 'xG.2']);
+  });
+});
+
+describe('formatCsv', () => {
+  it('round-trips through parseCsv', () => {
+    const headers = ['team', 'venue', 'note', 'xg'];
+    const rows = [
+      ['Brighton & Hove Albion', 'Amex, Falmer', 'A "lucky" win', '1.2'],
+      ['Arsenal', '', 'Line one\r\nline two', '0']
+    ];
+    expect(parseCsv(formatCsv(headers, rows))).toEqual({ headers, rows });
+  });
+
+  it('writes numbers as-is and missing numbers as empty cells', () => {
+    expect(formatCsv(['a', 'b'], [[1.5, NaN]])).toBe('a,b\r\n1.5,\r\n');
+  });
+});
+
+describe('resolveColumnMapping', () => {
+  it('maps an FBref export, using xG.1 for the away side', () => {
+    const { headers } = parseCsv(`${FBREF_HEADER}\n`);
+    const mapping = resolveColumnMapping(headers, DEFAULT_COLUMN_ALIASES);
+    expect(mapping).toMatchObject({ Wk: 0, Home: 4, xG: 5, Score: 6, xG_away: 7, Away: 8, Referee: 11, Status: 13 });
+    expect(getMissingFields(mapping)).toEqual([]);
+  });
+
+  it('matches aliases case-insensitively and never reuses a column', () => {
+    const mapping = resolveColumnMapping([' home team ', 'AWAY TEAM', 'Result', 'xGA'], DEFAULT_COLUMN_ALIASES);
+    expect(mapping).toMatchObject({ Home: 0, Away: 1, Score: 2, xG_away: 3 });
+    expect(mapping.Status).toBeUndefined();
+    expect(getMissingFields(mapping)).toEqual(['Wk', 'Date', 'xG']);
+  });
+
+  it('tries user aliases first', () => {
+    const aliases = mergeAliases(DEFAULT_COLUMN_ALIASES, { Home: ['Hosts'] });
+    expect(resolveColumnMapping(['Home', 'Hosts'], aliases).Home).toBe(1);
+  });
+});
+
+describe('parseNumericCell', () => {
+  it('allows thousands separators and turns empty cells into NaN', () => {
+    expect(parseNumericCell(' 60,704 ')).toBe(60704);
+    expect(parseNumericCell('')).toBeNaN();
+  });
+});
+
+describe('mapRowsToMatches', () => {
+  const { headers, rows } = parseCsv([
+    FBREF_HEADER,
+    '1,Fri,2024-08-16,20:00,Manchester Utd,2.4,1–0,0.4,Fulham,"73,297",Old Trafford,Robert Jones,Match Report,',
+    '',
+    '2,Sat,2024-08-24,15:00,Arsenal,,,,Chelsea,,Emirates Stadium,,Head-to-Head,Match Postponed',
+    '3,Sat,2024-08-31,15:00,Everton,0.6,1–0,0.2,Ipswich Town,,Goodison Park,,,Live'
+  ].join('\r\n'));
+  const mapping = { ...resolveColumnMapping(headers, DEFAULT_COLUMN_ALIASES), Minute: 12 };
+  const [played, postponed, live] = mapRowsToMatches(rows.map(row => [...row.slice(0, 12), '34', row[13]]), mapping);
+
+  it('parses numbers and infers the status of each fixture', () => {
+    expect(played).toEqual({
+      Wk: 1, Day: 'Fri', Date: '2024-08-16', Time: '20:00', Home: 'Manchester Utd', xG: 2.4, Score: '1–0', xG_away: 0.4,
+      Away: 'Fulham', Attendance: '73,297', Venue: 'Old Trafford', Referee: 'Robert Jones', Status: 'played'
+    });
+    expect(postponed).toMatchObject({ Status: 'postponed', Score: '' });
+    expect(postponed.xG).toBeNaN();
+  });
+
+  it('only keeps the minute on live matches', () => {
+    expect(live).toMatchObject({ Status: 'live', Minute: 34 });
+    expect('Minute' in played).toBe(false);
+  });
+});
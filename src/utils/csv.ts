@@ -0,0 +1,230 @@
+import { MatchData, MatchField } from '../types';
+import { inferMatchStatus } from './fixtures';
+
+// Column mapping: which CSV column index feeds each MatchData field
+export type ColumnMapping = Partial<Record<MatchField, number>>;
+
+// Alias table: MatchData field -> list of header names that should map to it
+export type ColumnAliases = Record<MatchField, string[]>;
+
+// Result of reading a CSV file before rows are turned into MatchData
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+// Fields that must be mapped before an import can go ahead
+export const REQUIRED_FIELDS: MatchField[] = ['Wk', 'Date', 'Home', 'Score', 'Away', 'xG', 'xG_away'];
+
+// Every field in the order it appears in an FBref export, then the live-feed extras
+export const ALL_FIELDS: MatchField[] = [
+  'Wk', 'Day', 'Date', 'Time', 'Home', 'xG', 'Score', 'xG_away', 'Away', 'Attendance', 'Venue', 'Referee', 'Status', 'Minute'
+];
+
+// Built-in header aliases. Matching is case-insensitive and ignores surrounding whitespace.
+// FBref repeats the "xG" header for the away side, which deduplicateHeaders turns into "xG.1".
+export const DEFAULT_COLUMN_ALIASES: ColumnAliases = {
+  Wk: ['Wk', 'Week', 'Gameweek', 'GW', 'Round', 'Matchweek'],
+  Day: ['Day', 'Weekday'],
+  Date: ['Date', 'Match Date'],
+  Time: ['Time', 'Kickoff', 'Kick Off', 'KO'],
+  Home: ['Home', 'Home Team', 'HomeTeam'],
+  xG: ['xG', 'xG_home', 'xG Home', 'Home xG', 'xGH'],
+  Score: ['Score', 'Result', 'FT'],
+  xG_away: ['xG_away', 'xG.1', 'xG Away', 'Away xG', 'xGA'],
+  Away: ['Away', 'Away Team', 'AwayTeam'],
+  Attendance: ['Attendance', 'Att', 'Crowd'],
+  Venue: ['Venue', 'Stadium', 'Ground'],
+  Referee: ['Referee', 'Ref', 'Official'],
+  // Status is inferred from the score; a status or notes column refines it (postponed/abandoned)
+  Status: ['Status', 'Notes', 'Match Status'],
+  Minute: ['Minute', 'Min', 'Clock', 'Elapsed']
+};
+
+const ALIAS_STORAGE_KEY = 'pl-dashboard:column-aliases';
+
+// Parse CSV text following RFC 4180: quoted fields, escaped quotes ("") and
+// embedded separators/newlines. Also tolerates a UTF-8 BOM and CR, LF or CRLF line endings.
+export const parseCsv = (text: string): ParsedCsv => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          // Escaped quote inside a quoted field
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+      // Treat CRLF as a single line break
+      if (char === '\r' && input[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  // Flush the last record when the file does not end with a newline
+  if (field.length > 0 || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // FBref leaves blank separator lines between gameweeks - drop them
+  const nonEmpty = records.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) return { headers: [], rows: [] };
+
+  return {
+    headers: deduplicateHeaders(nonEmpty[0].map(h => h.trim())),
+    rows: nonEmpty.slice(1)
+  };
+};
+
+// Write rows as RFC 4180 CSV (the inverse of parseCsv). Fields containing a
+// separator, quote or line break are quoted; numbers are written as-is.
+export const formatCsv = (headers: string[], rows: (string | number)[][]): string => {
+  const escape = (value: string | number): string => {
+    const text = typeof value === 'number' ? (Number.isFinite(value) ? String(value) : '') : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+};
+
+// Give repeated header names a numeric suffix (xG, xG -> xG, xG.1), matching pandas
+export const deduplicateHeaders = (headers: string[]): string[] => {
+  const seen = new Map<string, number>();
+  return headers.map(header => {
+    const count = seen.get(header) || 0;
+    seen.set(header, count + 1);
+    return count === 0 ? header : `${header}.${count}`;
+  });
+};
+
+const normaliseHeader = (header: string): string => header.trim().toLowerCase();
+
+// Resolve each MatchData field to a CSV column index using the alias table.
+// A column is only ever assigned to one field; the first alias that matches wins.
+export const resolveColumnMapping = (headers: string[], aliases: ColumnAliases): ColumnMapping => {
+  const normalised = headers.map(normaliseHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  ALL_FIELDS.forEach(field => {
+    for (const alias of aliases[field]) {
+      const index = normalised.findIndex((h, idx) => h === normaliseHeader(alias) && !used.has(idx));
+      if (index >= 0) {
+        mapping[field] = index;
+        used.add(index);
+        break;
+      }
+    }
+  });
+
+  return mapping;
+};
+
+// Required fields that the mapping does not cover yet
+export const getMissingFields = (mapping: ColumnMapping): MatchField[] =>
+  REQUIRED_FIELDS.filter(field => mapping[field] === undefined);
+
+// Parse a numeric cell, allowing thousands separators. Empty cells become NaN.
+export const parseNumericCell = (value: string): number => {
+  const cleaned = value.replace(/,/g, '').trim();
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+// Turn parsed CSV rows into MatchData using a complete column mapping
+export const mapRowsToMatches = (rows: string[][], mapping: ColumnMapping): MatchData[] => {
+  const cell = (row: string[], field: MatchField): string => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows.map(row => {
+    const status = inferMatchStatus(cell(row, 'Score'), cell(row, 'Status'));
+    const minute = parseNumericCell(cell(row, 'Minute'));
+    return {
+      Wk: parseNumericCell(cell(row, 'Wk')),
+      Day: cell(row, 'Day'),
+      Date: cell(row, 'Date'),
+      Time: cell(row, 'Time'),
+      Home: cell(row, 'Home'),
+      xG: parseNumericCell(cell(row, 'xG')),
+      Score: cell(row, 'Score'),
+      xG_away: parseNumericCell(cell(row, 'xG_away')),
+      Away: cell(row, 'Away'),
+      Attendance: cell(row, 'Attendance'),
+      Venue: cell(row, 'Venue'),
+      Referee: cell(row, 'Referee'),
+      Status: status,
+      ...(status === 'live' && Number.isFinite(minute) ? { Minute: minute } : {})
+    };
+  });
+};
+
+// Merge user-defined aliases into the built-in table (user aliases are tried first)
+export const mergeAliases = (base: ColumnAliases, extra: Partial<ColumnAliases>): ColumnAliases => {
+  const merged = { ...base };
+  (Object.keys(extra) as MatchField[]).forEach(field => {
+    merged[field] = [...(extra[field] || []), ...base[field]];
+  });
+  return merged;
+};
+
+// Load aliases the user saved from the interactive mapping step
+export const loadCustomAliases = (): Partial<ColumnAliases> => {
+  try {
+    const stored = window.localStorage.getItem(ALIAS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to load custom column aliases:', error);
+    return {};
+  }
+};
+
+// Remember the headers the user picked so the same file layout maps automatically next time
+export const saveCustomAliases = (headers: string[], mapping: ColumnMapping): Partial<ColumnAliases> => {
+  const aliases = loadCustomAliases();
+  (Object.keys(mapping) as MatchField[]).forEach(field => {
+    const index = mapping[field];
+    if (index === undefined) return;
+    const header = headers[index];
+    const existing = aliases[field] || [];
+    if (!existing.includes(header)) {
+      aliases[field] = [header, ...existing];
+    }
+  });
+
+  try {
+    window.localStorage.setItem(ALIAS_STORAGE_KEY, JSON.stringify(aliases));
+  } catch (error) {
+    console.error('Failed to save custom column aliases:', error);
+  }
+  return aliases;
+};
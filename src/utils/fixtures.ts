@@ -0,0 +1,39 @@
+import { MatchData, MatchStatus } from '../types';
+
+// Work out a fixture's status from its score and the free-text notes column.
+// FBref leaves the score blank for future fixtures and writes "Match Postponed" /
+// "Match Abandoned" in Notes. Live feeds mark games in progress "Live", "In progress" or "HT".
+export const inferMatchStatus = (score: string, notes: string): MatchStatus => {
+  const note = notes.toLowerCase();
+  if (note.includes('postpone')) return 'postponed';
+  if (note.includes('abandon')) return 'abandoned';
+  if (/\blive\b|in progress|^ht$|half[- ]time/.test(note.trim())) return 'live';
+  if (score.trim() === '') return 'scheduled';
+  // Any non-empty score is treated as a result; validation reports malformed ones
+  return 'played';
+};
+
+// Whether a match has a final result that should count towards aggregates
+export const isPlayed = (match: MatchData): boolean => match.Status === 'played';
+
+export const isLive = (match: MatchData): boolean => match.Status === 'live';
+
+// "67'" for a live match's clock, '' when the feed gives no minute
+export const formatMinute = (match: MatchData): string =>
+  match.Minute !== undefined && Number.isFinite(match.Minute) ? `${match.Minute}'` : '';
+
+// Short label for fixtures without a result, shown in place of the score
+export const getStatusLabel = (match: MatchData): string => {
+  switch (match.Status) {
+    case 'postponed':
+      return 'P–P';
+    case 'abandoned':
+      return 'A–A';
+    case 'live':
+      return match.Score || '0–0';
+    case 'scheduled':
+      return match.Time || 'TBC';
+    default:
+      return match.Score;
+  }
+};
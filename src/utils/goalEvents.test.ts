@@ -0,0 +1,39 @@
+import { createTeamRegistry } from './teams';
+import { parseGoalEventsCsv, parseGoalEventsJson, parseMinute } from './goalEvents';
+
+describe('parseMinute', () => {
+  it('reads stoppage time and trailing apostrophes', () => {
+    expect(parseMinute('23')).toEqual({ minute: 23, addedTime: 0 });
+    expect(parseMinute("90+4'")).toEqual({ minute: 90, addedTime: 4 });
+    expect(parseMinute('half time')).toBeNull();
+  });
+});
+
+describe('parseGoalEventsCsv', () => {
+  const csv = 'Home,Away,Team,Minute,Player\nManchester United,Fulham,Man Utd,87,Joshua Zirkzee\n';
+
+  it('accepts a scoring team written as an alias of a club in the fixture', () => {
+    const { events, errors } = parseGoalEventsCsv(csv, createTeamRegistry());
+    expect(errors).toEqual([]);
+    expect(events).toEqual([expect.objectContaining({ Home: 'Manchester United', Team: 'Manchester United', Minute: 87 })]);
+  });
+
+  it('rejects a team that is not playing', () => {
+    const { events, errors } = parseGoalEventsCsv('Home,Away,Team,Minute\nArsenal,Chelsea,Liverpool,12\n', createTeamRegistry());
+    expect(events).toEqual([]);
+    expect(errors).toEqual(['Row 2: team "Liverpool" is not playing in Arsenal vs Chelsea']);
+  });
+
+  it('compares spellings only without a registry', () => {
+    expect(parseGoalEventsCsv(csv).errors).toHaveLength(1);
+  });
+});
+
+describe('parseGoalEventsJson', () => {
+  it('reads { goals } envelopes with an own-goal flag', () => {
+    const { events } = parseGoalEventsJson(JSON.stringify({
+      goals: [{ home: 'Arsenal FC', away: 'Wolves', team: 'Wolverhampton Wanderers', minute: '45+1', ownGoal: true }]
+    }), createTeamRegistry());
+    expect(events).toEqual([expect.objectContaining({ Team: 'Wolves', Minute: 45, AddedTime: 1, OwnGoal: true })]);
+  });
+});
@@ -0,0 +1,127 @@
+import { GoalEvent } from '../types';
+import { parseCsv } from './csv';
+import { TeamRegistry, teamIdFromName } from './teams';
+
+type GoalEventField = 'Date' | 'Home' | 'Away' | 'Team' | 'Minute' | 'Player' | 'Type';
+
+// Header (or JSON key) aliases for each goal event field, matched case-insensitively
+const GOAL_EVENT_ALIASES: Record<GoalEventField, string[]> = {
+  Date: ['Date', 'Match Date'],
+  Home: ['Home', 'Home Team', 'HomeTeam'],
+  Away: ['Away', 'Away Team', 'AwayTeam'],
+  Team: ['Team', 'Squad', 'Scoring Team', 'For'],
+  Minute: ['Minute', 'Min', 'Time'],
+  Player: ['Player', 'Scorer'],
+  // "Own Goal" as a type, or a true/false own-goal flag
+  Type: ['Type', 'Event', 'Goal Type', 'OwnGoal', 'Own Goal']
+};
+
+const REQUIRED_GOAL_EVENT_FIELDS: GoalEventField[] = ['Home', 'Away', 'Team', 'Minute'];
+
+// Result of reading a goal event file
+export interface ParsedGoalEvents {
+  events: GoalEvent[];
+  // One message per row that couldn't be read
+  errors: string[];
+}
+
+// Parse a minute such as "23", "45+2" or "90+4'" into the minute and stoppage time
+export const parseMinute = (value: string): { minute: number, addedTime: number } | null => {
+  const match = value.trim().replace(/[’']/g, '').match(/^(\d{1,3})(?:\s*\+\s*(\d{1,2}))?$/);
+  if (!match) return null;
+  return { minute: Number(match[1]), addedTime: match[2] ? Number(match[2]) : 0 };
+};
+
+const normaliseKey = (key: string): string => key.trim().toLowerCase();
+
+// Turn one record (CSV row or JSON object, keyed by normalised header) into a goal event.
+// Teams are compared by identity, so the scoring team may be written as an alias.
+const toGoalEvent = (
+  read: (field: GoalEventField) => string,
+  rowLabel: string,
+  teamId: (name: string) => string
+): GoalEvent | string => {
+  const missing = REQUIRED_GOAL_EVENT_FIELDS.filter(field => read(field) === '');
+  if (missing.length > 0) return `${rowLabel}: missing ${missing.join(', ')}`;
+
+  const time = parseMinute(read('Minute'));
+  if (!time) return `${rowLabel}: can't read minute "${read('Minute')}"`;
+
+  const team = read('Team');
+  const scoringId = teamId(team);
+  if (scoringId !== teamId(read('Home')) && scoringId !== teamId(read('Away'))) {
+    return `${rowLabel}: team "${team}" is not playing in ${read('Home')} vs ${read('Away')}`;
+  }
+
+  return {
+    Date: read('Date'),
+    Home: read('Home'),
+    Away: read('Away'),
+    // Spelled as the home or away column so the team registry resolves both the same way
+    Team: scoringId === teamId(read('Home')) ? read('Home') : read('Away'),
+    Minute: time.minute,
+    AddedTime: time.addedTime,
+    Player: read('Player'),
+    OwnGoal: /own|^true$/i.test(read('Type'))
+  };
+};
+
+// Identity of a team name: its canonical club with a registry, else the name itself
+const teamIdentity = (registry?: TeamRegistry) =>
+  registry ? (name: string) => registry.resolve(name).id : teamIdFromName;
+
+const collect = (results: (GoalEvent | string)[]): ParsedGoalEvents => ({
+  events: results.filter((result): result is GoalEvent => typeof result !== 'string'),
+  errors: results.filter((result): result is string => typeof result === 'string')
+});
+
+export const parseGoalEventsCsv = (text: string, registry?: TeamRegistry): ParsedGoalEvents => {
+  const { headers, rows } = parseCsv(text);
+  const normalised = headers.map(normaliseKey);
+  const columns = {} as Record<GoalEventField, number>;
+  (Object.keys(GOAL_EVENT_ALIASES) as GoalEventField[]).forEach(field => {
+    columns[field] = normalised.findIndex(header => GOAL_EVENT_ALIASES[field].some(alias => normaliseKey(alias) === header));
+  });
+
+  const missing = REQUIRED_GOAL_EVENT_FIELDS.filter(field => columns[field] < 0);
+  if (missing.length > 0) {
+    return { events: [], errors: [`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`] };
+  }
+
+  return collect(rows.map((row, idx) =>
+    toGoalEvent(field => (columns[field] >= 0 ? (row[columns[field]] || '').trim() : ''), `Row ${idx + 2}`, teamIdentity(registry))
+  ));
+};
+
+// JSON is either an array of goal objects or { goals: [...] } / { events: [...] }
+export const parseGoalEventsJson = (text: string, registry?: TeamRegistry): ParsedGoalEvents => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { events: [], errors: ['The file is not valid JSON'] };
+  }
+
+  const container = parsed as { goals?: unknown, events?: unknown };
+  const records = Array.isArray(parsed) ? parsed : container && (container.goals || container.events);
+  if (!Array.isArray(records)) {
+    return { events: [], errors: ['Expected an array of goal events'] };
+  }
+
+  return collect(records.map((record, idx) => {
+    const values = new Map<string, string>();
+    if (record && typeof record === 'object') {
+      Object.entries(record as Record<string, unknown>).forEach(([key, value]) => {
+        values.set(normaliseKey(key), value === null || value === undefined ? '' : String(value).trim());
+      });
+    }
+    const read = (field: GoalEventField) => {
+      const alias = GOAL_EVENT_ALIASES[field].find(name => values.has(normaliseKey(name)));
+      return alias ? values.get(normaliseKey(alias))! : '';
+    };
+    return toGoalEvent(read, `Event ${idx + 1}`, teamIdentity(registry));
+  }));
+};
+
+export const parseGoalEvents = (fileName: string, text: string, registry?: TeamRegistry): ParsedGoalEvents =>
+  fileName.toLowerCase().endsWith('.json') ? parseGoalEventsJson(text, registry) : parseGoalEventsCsv(text, registry);
@@ -0,0 +1,108 @@
+import { GoalEvent, MatchData } from '../types';
+
+// Where a season's matches came from
+export interface SeasonSource {
+  kind: 'file' | 'http';
+  // File name or endpoint URL
+  label: string;
+}
+
+// A named season of match data
+export interface Season {
+  id: string;
+  name: string;
+  matches: MatchData[];
+  // Goal events uploaded for this season, if any
+  goalEvents?: GoalEvent[];
+  // When the season's data last changed (for an endpoint: when new data last arrived)
+  updatedAt: number;
+  source?: SeasonSource;
+  // Built-in seasons ship with the app and are never written to IndexedDB
+  builtIn?: boolean;
+}
+
+const DB_NAME = 'pl-dashboard';
+const DB_VERSION = 1;
+const STORE_NAME = 'seasons';
+const SELECTED_SEASON_KEY = 'pl-dashboard:selected-season';
+
+// Infer a season label ("2024/25") from the earliest match date. Seasons start in
+// August, so anything from July onwards belongs to the season starting that year.
+export const inferSeasonName = (matches: MatchData[]): string | null => {
+  const times = matches
+    .map(m => new Date(m.Date).getTime())
+    .filter(t => !Number.isNaN(t));
+  if (times.length === 0) return null;
+
+  const first = new Date(Math.min(...times));
+  const startYear = first.getMonth() >= 6 ? first.getFullYear() : first.getFullYear() - 1;
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+export const seasonIdFromName = (name: string): string =>
+  `season-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+
+// Newest season first (season names sort chronologically)
+export const sortSeasons = (seasons: Season[]): Season[] =>
+  [...seasons].sort((a, b) => b.name.localeCompare(a.name) || Number(!!a.builtIn) - Number(!!b.builtIn));
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run a single request against the seasons store and close the connection afterwards
+const withStore = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDatabase().then(db => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  }));
+
+// Load every saved season
+export const loadSeasons = (): Promise<Season[]> =>
+  withStore<Season[]>('readonly', store => store.getAll());
+
+// Insert or replace a season
+export const saveSeason = (season: Season): Promise<IDBValidKey> =>
+  withStore('readwrite', store => store.put(season));
+
+export const deleteSeason = (id: string): Promise<undefined> =>
+  withStore('readwrite', store => store.delete(id));
+
+// The last season the user picked, so it can be restored on reload
+export const loadSelectedSeasonId = (): string | null => {
+  try {
+    return window.localStorage.getItem(SELECTED_SEASON_KEY);
+  } catch (error) {
+    console.error('Failed to load selected season:', error);
+    return null;
+  }
+};
+
+export const saveSelectedSeasonId = (id: string) => {
+  try {
+    window.localStorage.setItem(SELECTED_SEASON_KEY, id);
+  } catch (error) {
+    console.error('Failed to save selected season:', error);
+  }
+};
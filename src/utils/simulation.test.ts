@@ -0,0 +1,68 @@
+import { defaultData } from '../data/defaultData';
+import { MatchData } from '../types';
+import { RELEGATION_PLACES, TOP_FOUR_POSITIONS, getRemainingFixtures, runSimulation, simulateSeason } from './simulation';
+
+const options = { iterations: 200, seed: 7 };
+
+describe('simulateSeason', () => {
+  it('gives identical results for the same seed', () => {
+    expect(simulateSeason(defaultData, options)).toEqual(simulateSeason(defaultData, options));
+  });
+
+  it('changes with the seed', () => {
+    expect(simulateSeason(defaultData, options)).not.toEqual(simulateSeason(defaultData, { ...options, seed: 8 }));
+  });
+
+  it('gives each team a finishing-position distribution that sums to one', () => {
+    simulateSeason(defaultData, options).teams.forEach(team => {
+      expect(team.positions.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 10);
+    });
+  });
+
+  it('nests the title inside the top four inside the European places', () => {
+    const { teams } = simulateSeason(defaultData, options);
+    teams.forEach(team => {
+      expect(team.title).toBeLessThanOrEqual(team.topFour);
+      expect(team.topFour).toBeLessThanOrEqual(team.europe);
+      expect(team.relegation).toBeLessThanOrEqual(1);
+    });
+    const total = (pick: (t: typeof teams[number]) => number) => teams.reduce((sum, t) => sum + pick(t), 0);
+    expect(total(t => t.title)).toBeCloseTo(1, 10);
+    expect(total(t => t.topFour)).toBeCloseTo(TOP_FOUR_POSITIONS, 10);
+    expect(total(t => t.relegation)).toBeCloseTo(RELEGATION_PLACES, 10);
+  });
+});
+
+describe('runSimulation', () => {
+  it('matches the synchronous run when batched', async () => {
+    const progress: number[] = [];
+    const result = await runSimulation(defaultData, { ...options, batchSize: 30 }, completed => progress.push(completed));
+    expect(result).toEqual(simulateSeason(defaultData, options));
+    expect(progress[progress.length - 1]).toBe(options.iterations);
+    expect(progress).toHaveLength(Math.ceil(options.iterations / 30));
+  });
+
+  it('resolves to null when cancelled', async () => {
+    await expect(runSimulation(defaultData, options, undefined, () => true)).resolves.toBeNull();
+  });
+});
+
+describe('getRemainingFixtures', () => {
+  it('adds every double round-robin pairing the data does not list', () => {
+    const matches: MatchData[] = [
+      { ...defaultData[0], Home: 'Arsenal', Away: 'Chelsea' },
+      { ...defaultData[0], Home: 'Chelsea', Away: 'Everton', Status: 'scheduled', Score: '' },
+      { ...defaultData[0], Home: 'Everton', Away: 'Arsenal' }
+    ];
+    const pairings = getRemainingFixtures(matches).map(f => `${f.home}|${f.away}`).sort();
+    expect(pairings).toEqual(['Arsenal|Everton', 'Chelsea|Arsenal', 'Chelsea|Everton', 'Everton|Chelsea']);
+  });
+
+  it('leaves nothing to play once every pairing is listed and played', () => {
+    const matches: MatchData[] = [
+      { ...defaultData[0], Home: 'Arsenal', Away: 'Chelsea' },
+      { ...defaultData[0], Home: 'Chelsea', Away: 'Arsenal' }
+    ];
+    expect(getRemainingFixtures(matches)).toEqual([]);
+  });
+});
@@ -0,0 +1,313 @@
+import { MatchData } from '../types';
+import { isPlayed } from './fixtures';
+import { parseScore } from '../analytics';
+
+// League positions that count for each outcome
+export const TITLE_POSITIONS = 1;
+export const TOP_FOUR_POSITIONS = 4;
+export const EUROPE_POSITIONS = 7;
+export const RELEGATION_PLACES = 3;
+
+// Matches a team needs before its own averages carry as much weight as the league's
+const STRENGTH_PRIOR_MATCHES = 5;
+
+export interface SimulationOptions {
+  iterations: number;
+  seed: number;
+  // Iterations per chunk before yielding back to the browser (async runner only)
+  batchSize?: number;
+}
+
+// Attack/defence multipliers relative to the league average
+export interface TeamStrength {
+  team: string;
+  attack: number;
+  defence: number;
+}
+
+export interface TeamSimulationResult {
+  team: string;
+  averagePoints: number;
+  title: number;
+  topFour: number;
+  europe: number;
+  relegation: number;
+  // Probability of finishing in each position (index 0 = 1st)
+  positions: number[];
+}
+
+export interface SimulationResult {
+  iterations: number;
+  seed: number;
+  remainingFixtures: number;
+  // Sorted by average points, best first
+  teams: TeamSimulationResult[];
+}
+
+// Small, fast seedable PRNG (mulberry32) so runs are reproducible
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Knuth's method - fine for the small means football scores need
+const samplePoisson = (lambda: number, random: () => number): number => {
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = random();
+  while (p > limit) {
+    k++;
+    p *= random();
+  }
+  return k;
+};
+
+interface LeagueAverages {
+  homeXG: number;
+  awayXG: number;
+}
+
+// Fit attack and defence ratings from each team's xG and xGA per match (the same
+// averages as the xG vs xGA scatter), shrunk towards 1.0 for teams with few matches
+export const fitTeamStrengths = (matches: MatchData[]): { strengths: Map<string, TeamStrength>, averages: LeagueAverages } => {
+  const withXG = matches.filter(m => isPlayed(m) && Number.isFinite(m.xG) && Number.isFinite(m.xG_away));
+  const totals = new Map<string, { xG: number, xGA: number, matches: number }>();
+
+  let homeXG = 0;
+  let awayXG = 0;
+  withXG.forEach(match => {
+    homeXG += match.xG;
+    awayXG += match.xG_away;
+
+    const home = totals.get(match.Home) || { xG: 0, xGA: 0, matches: 0 };
+    home.xG += match.xG;
+    home.xGA += match.xG_away;
+    home.matches += 1;
+    totals.set(match.Home, home);
+
+    const away = totals.get(match.Away) || { xG: 0, xGA: 0, matches: 0 };
+    away.xG += match.xG_away;
+    away.xGA += match.xG;
+    away.matches += 1;
+    totals.set(match.Away, away);
+  });
+
+  // Fall back to typical Premier League values when there is nothing to fit
+  const averages = withXG.length > 0
+    ? { homeXG: homeXG / withXG.length, awayXG: awayXG / withXG.length }
+    : { homeXG: 1.5, awayXG: 1.2 };
+  const perTeamAverage = (averages.homeXG + averages.awayXG) / 2;
+
+  const strengths = new Map<string, TeamStrength>();
+  const teams = new Set(matches.flatMap(m => [m.Home, m.Away]));
+  teams.forEach(team => {
+    const stats = totals.get(team) || { xG: 0, xGA: 0, matches: 0 };
+    const weight = stats.matches / (stats.matches + STRENGTH_PRIOR_MATCHES);
+    const attack = stats.matches > 0 ? stats.xG / stats.matches / perTeamAverage : 1;
+    const defence = stats.matches > 0 ? stats.xGA / stats.matches / perTeamAverage : 1;
+    strengths.set(team, {
+      team,
+      attack: weight * attack + (1 - weight),
+      defence: weight * defence + (1 - weight)
+    });
+  });
+
+  return { strengths, averages };
+};
+
+// Fixtures still to be played: unplayed rows in the data, plus any home/away pairing
+// of a double round-robin that the data doesn't list at all (results-only files)
+export const getRemainingFixtures = (matches: MatchData[]): { home: string, away: string }[] => {
+  const listed = new Set(matches.map(m => `${m.Home}|${m.Away}`));
+  const remaining = matches
+    .filter(m => !isPlayed(m))
+    .map(m => ({ home: m.Home, away: m.Away }));
+
+  const teams = [...new Set(matches.flatMap(m => [m.Home, m.Away]))];
+  teams.forEach(home => {
+    teams.forEach(away => {
+      if (home !== away && !listed.has(`${home}|${away}`)) {
+        remaining.push({ home, away });
+      }
+    });
+  });
+
+  return remaining;
+};
+
+interface BaseRecord {
+  points: number;
+  goalsFor: number;
+  goalsAgainst: number;
+}
+
+// Simulation state shared by the sync and async runners
+const prepareSimulation = (matches: MatchData[]) => {
+  const { strengths, averages } = fitTeamStrengths(matches);
+  const teams = Array.from(strengths.keys());
+  const teamIndex = new Map(teams.map((team, idx) => [team, idx]));
+
+  const base: BaseRecord[] = teams.map(() => ({ points: 0, goalsFor: 0, goalsAgainst: 0 }));
+  matches.filter(isPlayed).forEach(match => {
+    const { homeGoals, awayGoals } = parseScore(match.Score);
+    const home = base[teamIndex.get(match.Home)!];
+    const away = base[teamIndex.get(match.Away)!];
+    home.goalsFor += homeGoals;
+    home.goalsAgainst += awayGoals;
+    away.goalsFor += awayGoals;
+    away.goalsAgainst += homeGoals;
+    if (homeGoals > awayGoals) home.points += 3;
+    else if (homeGoals < awayGoals) away.points += 3;
+    else {
+      home.points += 1;
+      away.points += 1;
+    }
+  });
+
+  const fixtures = getRemainingFixtures(matches).map(fixture => {
+    const home = strengths.get(fixture.home)!;
+    const away = strengths.get(fixture.away)!;
+    return {
+      home: teamIndex.get(fixture.home)!,
+      away: teamIndex.get(fixture.away)!,
+      homeRate: home.attack * away.defence * averages.homeXG,
+      awayRate: away.attack * home.defence * averages.awayXG
+    };
+  });
+
+  return {
+    teams,
+    base,
+    fixtures,
+    positionCounts: teams.map(() => new Array<number>(teams.length).fill(0)),
+    pointsTotals: new Array<number>(teams.length).fill(0)
+  };
+};
+
+type SimulationState = ReturnType<typeof prepareSimulation>;
+
+// Play out the remaining fixtures once and record where every team finished.
+// Ties after points, goal difference and goals scored are broken at random.
+const runIteration = (state: SimulationState, random: () => number) => {
+  const points = state.base.map(r => r.points);
+  const goalsFor = state.base.map(r => r.goalsFor);
+  const goalsAgainst = state.base.map(r => r.goalsAgainst);
+
+  state.fixtures.forEach(fixture => {
+    const homeGoals = samplePoisson(fixture.homeRate, random);
+    const awayGoals = samplePoisson(fixture.awayRate, random);
+    goalsFor[fixture.home] += homeGoals;
+    goalsAgainst[fixture.home] += awayGoals;
+    goalsFor[fixture.away] += awayGoals;
+    goalsAgainst[fixture.away] += homeGoals;
+    if (homeGoals > awayGoals) points[fixture.home] += 3;
+    else if (homeGoals < awayGoals) points[fixture.away] += 3;
+    else {
+      points[fixture.home] += 1;
+      points[fixture.away] += 1;
+    }
+  });
+
+  const tieBreak = state.teams.map(() => random());
+  const order = state.teams.map((_, idx) => idx).sort((a, b) =>
+    points[b] - points[a] ||
+    (goalsFor[b] - goalsAgainst[b]) - (goalsFor[a] - goalsAgainst[a]) ||
+    goalsFor[b] - goalsFor[a] ||
+    tieBreak[b] - tieBreak[a]
+  );
+
+  order.forEach((team, position) => {
+    state.positionCounts[team][position] += 1;
+    state.pointsTotals[team] += points[team];
+  });
+};
+
+const summarise = (state: SimulationState, options: SimulationOptions, iterations: number): SimulationResult => {
+  const teamCount = state.teams.length;
+  const share = (counts: number[], from: number, to: number) =>
+    counts.slice(from, to).reduce((sum, c) => sum + c, 0) / iterations;
+
+  return {
+    iterations,
+    seed: options.seed,
+    remainingFixtures: state.fixtures.length,
+    teams: state.teams
+      .map((team, idx) => {
+        const counts = state.positionCounts[idx];
+        return {
+          team,
+          averagePoints: state.pointsTotals[idx] / iterations,
+          title: share(counts, 0, TITLE_POSITIONS),
+          topFour: share(counts, 0, TOP_FOUR_POSITIONS),
+          europe: share(counts, 0, EUROPE_POSITIONS),
+          relegation: share(counts, Math.max(0, teamCount - RELEGATION_PLACES), teamCount),
+          positions: counts.map(c => c / iterations)
+        };
+      })
+      .sort((a, b) => b.averagePoints - a.averagePoints)
+  };
+};
+
+// Run the whole simulation synchronously. The same seed always gives the same result.
+export const simulateSeason = (matches: MatchData[], options: SimulationOptions): SimulationResult => {
+  const state = prepareSimulation(matches);
+  const random = createRandom(options.seed);
+  for (let i = 0; i < options.iterations; i++) {
+    runIteration(state, random);
+  }
+  return summarise(state, options, options.iterations);
+};
+
+// Run the simulation in batches, yielding to the browser between them so the UI stays
+// responsive. Produces exactly the same result as simulateSeason for the same seed.
+export const runSimulation = (
+  matches: MatchData[],
+  options: SimulationOptions,
+  onProgress?: (completed: number) => void,
+  isCancelled?: () => boolean
+): Promise<SimulationResult | null> => {
+  const batchSize = options.batchSize || 250;
+  let completed = 0;
+
+  // A failure in any batch rejects the promise rather than escaping from a timer
+  return new Promise((resolve, reject) => {
+    let state: SimulationState;
+    let random: () => number;
+    const step = () => {
+      try {
+        if (isCancelled?.()) {
+          resolve(null);
+          return;
+        }
+        const end = Math.min(options.iterations, completed + batchSize);
+        for (; completed < end; completed++) {
+          runIteration(state, random);
+        }
+        onProgress?.(completed);
+
+        if (completed < options.iterations) {
+          setTimeout(step, 0);
+        } else {
+          resolve(summarise(state, options, completed));
+        }
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    try {
+      state = prepareSimulation(matches);
+      random = createRandom(options.seed);
+    } catch (error) {
+      reject(error);
+      return;
+    }
+    setTimeout(step, 0);
+  });
+};
@@ -0,0 +1,75 @@
+import { defaultData } from '../data/defaultData';
+import { createTeamRegistry, normaliseMatchTeams, normaliseTeamKey } from './teams';
+
+describe('normaliseTeamKey', () => {
+  it('ignores case, punctuation and club suffixes', () => {
+    expect(normaliseTeamKey('  Arsenal FC ')).toBe('arsenal');
+    expect(normaliseTeamKey('AFC Bournemouth')).toBe('bournemouth');
+    expect(normaliseTeamKey("Nott'ham Forest")).toBe('nottham forest');
+    expect(normaliseTeamKey('Man. City')).toBe('man city');
+  });
+
+  it('reads "&" as "and"', () => {
+    expect(normaliseTeamKey('Brighton & Hove Albion')).toBe(normaliseTeamKey('Brighton and Hove Albion'));
+  });
+});
+
+describe('createTeamRegistry', () => {
+  const registry = createTeamRegistry();
+
+  describe('resolve', () => {
+    it('maps aliases onto the canonical club', () => {
+      expect(registry.resolve('Man Utd')).toEqual({ id: 'manchester-united', name: 'Manchester United', known: true });
+      expect(registry.resolve('Tottenham Hotspur FC').id).toBe('tottenham');
+    });
+
+    it('gives unknown names their own identity', () => {
+      expect(registry.resolve(' Forest Green Rovers ')).toEqual({ id: 'forest-green-rovers', name: 'Forest Green Rovers', known: false });
+    });
+
+    it('applies user aliases, which win over built-in ones', () => {
+      const withAliases = createTeamRegistry([
+        { alias: 'The Gunners', teamId: 'arsenal', teamName: 'Arsenal' },
+        { alias: 'Forest', teamId: 'forest-green-rovers', teamName: 'Forest Green Rovers' }
+      ]);
+      expect(withAliases.resolve('the gunners')).toMatchObject({ id: 'arsenal', known: true });
+      expect(withAliases.resolve('Forest')).toEqual({ id: 'forest-green-rovers', name: 'Forest Green Rovers', known: false });
+    });
+  });
+
+  describe('suggest', () => {
+    it('suggests the club for a misspelling', () => {
+      expect(registry.suggest('Liverpol')?.id).toBe('liverpool');
+      expect(registry.suggest('Chelsae')?.id).toBe('chelsea');
+      expect(registry.suggest('Leicester Cty')?.id).toBe('leicester-city');
+    });
+
+    it('suggests the club for a word-by-word abbreviation', () => {
+      expect(registry.suggest('Wolverhampton W')?.id).toBe('wolves');
+      expect(registry.suggest('Sheffield U')?.id).toBe('sheffield-united');
+    });
+
+    it('does not take longer names for a club they merely start with', () => {
+      expect(registry.suggest('Villarreal')).toBeNull();
+      expect(registry.suggest('Forest Green Rovers')).toBeNull();
+    });
+
+    it('suggests nothing for an abbreviation of more than one club', () => {
+      expect(registry.suggest('Manchester')).toBeNull();
+    });
+
+    it('suggests nothing for known or empty names', () => {
+      expect(registry.suggest('Spurs')).toBeNull();
+      expect(registry.suggest('  ')).toBeNull();
+    });
+  });
+});
+
+describe('normaliseMatchTeams', () => {
+  it('rewrites names to the canonical club and keeps unchanged rows', () => {
+    const matches = normaliseMatchTeams(defaultData, createTeamRegistry());
+    expect(matches[0]).toMatchObject({ Home: 'Manchester United', Away: 'Fulham' });
+    const unchanged = matches.findIndex((match, idx) => match.Home === defaultData[idx].Home && match.Away === defaultData[idx].Away);
+    expect(matches[unchanged]).toBe(defaultData[unchanged]);
+  });
+});
@@ -0,0 +1,192 @@
+import { GoalEvent, MatchData } from '../types';
+
+// A club with a stable identity across data sources
+export interface TeamIdentity {
+  id: string;
+  name: string;
+  // Whether the club comes from the built-in registry (or a user alias pointing at one)
+  known: boolean;
+}
+
+interface TeamDefinition {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+// User-defined alias: maps a raw name from a data source onto a team
+export interface UserAlias {
+  alias: string;
+  teamId: string;
+  teamName: string;
+}
+
+// Premier League clubs (recent seasons) and the names different sources use for them
+export const BUILT_IN_TEAMS: TeamDefinition[] = [
+  { id: 'arsenal', name: 'Arsenal', aliases: ['Arsenal FC'] },
+  { id: 'aston-villa', name: 'Aston Villa', aliases: ['Villa'] },
+  { id: 'bournemouth', name: 'Bournemouth', aliases: ['AFC Bournemouth'] },
+  { id: 'brentford', name: 'Brentford', aliases: [] },
+  { id: 'brighton', name: 'Brighton', aliases: ['Brighton & Hove Albion', 'Brighton and Hove Albion', 'Brighton Hove'] },
+  { id: 'burnley', name: 'Burnley', aliases: [] },
+  { id: 'chelsea', name: 'Chelsea', aliases: [] },
+  { id: 'crystal-palace', name: 'Crystal Palace', aliases: ['Palace'] },
+  { id: 'everton', name: 'Everton', aliases: [] },
+  { id: 'fulham', name: 'Fulham', aliases: [] },
+  { id: 'ipswich-town', name: 'Ipswich Town', aliases: ['Ipswich'] },
+  { id: 'leeds-united', name: 'Leeds United', aliases: ['Leeds', 'Leeds Utd'] },
+  { id: 'leicester-city', name: 'Leicester City', aliases: ['Leicester'] },
+  { id: 'liverpool', name: 'Liverpool', aliases: [] },
+  { id: 'luton-town', name: 'Luton Town', aliases: ['Luton'] },
+  { id: 'manchester-city', name: 'Manchester City', aliases: ['Man City', 'Manchester C', 'Man. City'] },
+  { id: 'manchester-united', name: 'Manchester United', aliases: ['Manchester Utd', 'Man United', 'Man Utd', 'Man. United', 'Manchester U'] },
+  { id: 'newcastle-united', name: 'Newcastle United', aliases: ['Newcastle Utd', 'Newcastle'] },
+  { id: 'norwich-city', name: 'Norwich City', aliases: ['Norwich'] },
+  { id: 'nottingham-forest', name: 'Nottingham Forest', aliases: ["Nott'ham Forest", 'Nottm Forest', "Nott'm Forest", 'Forest'] },
+  { id: 'sheffield-united', name: 'Sheffield United', aliases: ['Sheffield Utd', 'Sheff Utd'] },
+  { id: 'southampton', name: 'Southampton', aliases: ['Saints'] },
+  { id: 'sunderland', name: 'Sunderland', aliases: [] },
+  { id: 'tottenham', name: 'Tottenham', aliases: ['Tottenham Hotspur', 'Spurs'] },
+  { id: 'watford', name: 'Watford', aliases: [] },
+  { id: 'west-brom', name: 'West Brom', aliases: ['West Bromwich Albion', 'West Bromwich'] },
+  { id: 'west-ham', name: 'West Ham', aliases: ['West Ham United', 'West Ham Utd'] },
+  { id: 'wolves', name: 'Wolves', aliases: ['Wolverhampton Wanderers', 'Wolverhampton'] }
+];
+
+const USER_ALIAS_STORAGE_KEY = 'pl-dashboard:team-aliases';
+
+// How different (as a share of the name's length) a name can be and still count as a near-match
+const NEAR_MATCH_THRESHOLD = 0.34;
+// Score of an abbreviation match: close, but behind a name that is only a letter or so out
+const ABBREVIATION_SCORE = 0.1;
+
+// Reduce a name to a comparison key: lower case, "&" as "and", no punctuation or club suffixes
+export const normaliseTeamKey = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[.'’]/g, '')
+    .replace(/\b(fc|afc)\b/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+export const teamIdFromName = (name: string): string =>
+  normaliseTeamKey(name).replace(/ /g, '-');
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+// Whether `key` abbreviates `candidate` word by word, e.g. "wolverhampton w" for
+// "wolverhampton wanderers" or "man u" for "man united". The unknown name has to be
+// the shorter one, so "villarreal" is not taken for "villa".
+const abbreviates = (key: string, candidate: string): boolean => {
+  if (key.length < 4 || key.length >= candidate.length) return false;
+  const keyWords = key.split(' ');
+  const candidateWords = candidate.split(' ');
+  return keyWords.length <= candidateWords.length &&
+    keyWords.every((word, idx) => candidateWords[idx].startsWith(word));
+};
+
+export interface TeamRegistry {
+  // Canonical identity for a raw name; unknown names become their own identity
+  resolve: (name: string) => TeamIdentity;
+  // Closest known team for an unknown name, if any is close enough
+  suggest: (name: string) => TeamIdentity | null;
+  // Every built-in club, for pickers
+  teams: TeamIdentity[];
+}
+
+// Build a registry from the built-in table plus the user's own aliases (which win on conflict)
+export const createTeamRegistry = (userAliases: UserAlias[] = []): TeamRegistry => {
+  const byKey = new Map<string, TeamIdentity>();
+  const teams = BUILT_IN_TEAMS.map(team => ({ id: team.id, name: team.name, known: true }));
+
+  BUILT_IN_TEAMS.forEach((team, idx) => {
+    [team.name, ...team.aliases].forEach(alias => byKey.set(normaliseTeamKey(alias), teams[idx]));
+  });
+  userAliases.forEach(alias => {
+    const builtIn = teams.find(team => team.id === alias.teamId);
+    byKey.set(normaliseTeamKey(alias.alias), builtIn || { id: alias.teamId, name: alias.teamName, known: false });
+  });
+
+  const resolve = (name: string): TeamIdentity => {
+    const key = normaliseTeamKey(name);
+    return byKey.get(key) || { id: teamIdFromName(name), name: name.trim(), known: false };
+  };
+
+  const suggest = (name: string): TeamIdentity | null => {
+    const key = normaliseTeamKey(name);
+    if (key === '' || byKey.has(key)) return null;
+
+    let best: TeamIdentity | null = null;
+    let bestScore = Infinity;
+    // An abbreviation that fits more than one club (e.g. "Manc") suggests neither
+    let ambiguous = false;
+    for (const [candidate, team] of byKey) {
+      const score = abbreviates(key, candidate)
+        ? ABBREVIATION_SCORE
+        : levenshtein(key, candidate) / Math.max(key.length, candidate.length);
+      if (score < bestScore) {
+        best = team;
+        bestScore = score;
+        ambiguous = false;
+      } else if (score === bestScore && best && team.id !== best.id) {
+        ambiguous = true;
+      }
+    }
+
+    return bestScore <= NEAR_MATCH_THRESHOLD && !ambiguous ? best : null;
+  };
+
+  return { resolve, suggest, teams };
+};
+
+// Rewrite Home/Away to canonical team names so every aggregate keys on the same identity
+export const normaliseMatchTeams = (matches: MatchData[], registry: TeamRegistry): MatchData[] =>
+  matches.map(match => {
+    const home = registry.resolve(match.Home).name;
+    const away = registry.resolve(match.Away).name;
+    return home === match.Home && away === match.Away ? match : { ...match, Home: home, Away: away };
+  });
+
+// Same for goal events, so they key onto the normalised fixtures
+export const normaliseGoalEventTeams = (events: GoalEvent[], registry: TeamRegistry): GoalEvent[] =>
+  events.map(event => ({
+    ...event,
+    Home: registry.resolve(event.Home).name,
+    Away: registry.resolve(event.Away).name,
+    Team: registry.resolve(event.Team).name
+  }));
+
+export const loadUserAliases = (): UserAlias[] => {
+  try {
+    const stored = window.localStorage.getItem(USER_ALIAS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load team aliases:', error);
+    return [];
+  }
+};
+
+export const saveUserAliases = (aliases: UserAlias[]) => {
+  try {
+    window.localStorage.setItem(USER_ALIAS_STORAGE_KEY, JSON.stringify(aliases));
+  } catch (error) {
+    console.error('Failed to save team aliases:', error);
+  }
+};
@@ -0,0 +1,58 @@
+import { DashboardUrlState, parseUrlState, serialiseUrlState } from './urlState';
+
+const defaults: DashboardUrlState = {
+  seasonId: undefined,
+  team: '',
+  compareTeam: '',
+  venue: 'all',
+  range: { mode: 'all' },
+  referee: '',
+  rollingWindow: undefined,
+  showMatchMarkers: true,
+  activeWeek: undefined,
+  tableWeek: null,
+  match: null
+};
+
+describe('serialiseUrlState', () => {
+  it('leaves defaults out of the query string', () => {
+    expect(serialiseUrlState(defaults)).toBe('');
+  });
+
+  it('writes a single gameweek without a range', () => {
+    expect(serialiseUrlState({ ...defaults, range: { mode: 'weeks', from: 5, to: 5 } })).toBe('?weeks=5');
+  });
+});
+
+describe('parseUrlState', () => {
+  it('round-trips every selection', () => {
+    const state: DashboardUrlState = {
+      seasonId: 'season-2024-25',
+      team: 'Nott\'ham Forest',
+      compareTeam: 'Brighton & Hove Albion',
+      venue: 'away',
+      range: { mode: 'weeks', from: 5, to: 10 },
+      referee: 'Michael Oliver',
+      rollingWindow: 10,
+      showMatchMarkers: false,
+      activeWeek: 7,
+      tableWeek: 6,
+      match: { home: 'Arsenal', away: 'Chelsea' }
+    };
+    expect(parseUrlState(serialiseUrlState(state))).toEqual(state);
+    expect(parseUrlState(serialiseUrlState(defaults))).toEqual(defaults);
+  });
+
+  it('round-trips open-ended date ranges', () => {
+    const state: DashboardUrlState = { ...defaults, range: { mode: 'dates', from: '2024-09-01', to: null } };
+    expect(parseUrlState(serialiseUrlState(state))).toEqual(state);
+  });
+
+  it('falls back to defaults for malformed values', () => {
+    expect(parseUrlState('?venue=moon&weeks=x&from=yesterday&window=-3&week=1.5&table=0&match=Arsenal')).toEqual(defaults);
+  });
+
+  it('orders a reversed week range', () => {
+    expect(parseUrlState('?weeks=10-5').range).toEqual({ mode: 'weeks', from: 5, to: 10 });
+  });
+});
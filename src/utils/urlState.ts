@@ -0,0 +1,121 @@
+import { MatchRange, VenueFilter } from '../analytics';
+
+// Dashboard selections mirrored in the query string, so a view can be bookmarked,
+// shared, and stepped through with back/forward
+export interface DashboardUrlState {
+  seasonId?: string;
+  team: string;
+  compareTeam: string;
+  venue: VenueFilter;
+  range: MatchRange;
+  // Referee the views are scoped to ('' = all)
+  referee: string;
+  rollingWindow?: number;
+  showMatchMarkers: boolean;
+  activeWeek?: number;
+  // Gameweek the league table is shown as of (null = latest results)
+  tableWeek: number | null;
+  // Match open in the detail drawer
+  match: { home: string, away: string } | null;
+}
+
+// ?season=season-2024-25&team=Arsenal&compare=Chelsea&venue=home&weeks=5-10&window=10
+//  &referee=Michael+Oliver&markers=0&week=7&table=6&match=Arsenal|Chelsea
+// Dates use from/to instead of weeks; either end can be left out.
+const PARAMS = {
+  season: 'season',
+  team: 'team',
+  compare: 'compare',
+  venue: 'venue',
+  weeks: 'weeks',
+  from: 'from',
+  to: 'to',
+  referee: 'referee',
+  window: 'window',
+  markers: 'markers',
+  week: 'week',
+  table: 'table',
+  match: 'match'
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const positiveInt = (value: string | null): number | undefined => {
+  const number = Number(value);
+  return value !== null && Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+const parseRange = (params: URLSearchParams): MatchRange => {
+  const weeks = (params.get(PARAMS.weeks) || '').match(/^(\d+)(?:-(\d+))?$/);
+  if (weeks) {
+    const from = Number(weeks[1]);
+    const to = weeks[2] ? Number(weeks[2]) : from;
+    return { mode: 'weeks', from: Math.min(from, to), to: Math.max(from, to) };
+  }
+
+  const from = params.get(PARAMS.from);
+  const to = params.get(PARAMS.to);
+  const validFrom = from && DATE_PATTERN.test(from) ? from : null;
+  const validTo = to && DATE_PATTERN.test(to) ? to : null;
+  return validFrom || validTo ? { mode: 'dates', from: validFrom, to: validTo } : { mode: 'all' };
+};
+
+// Read dashboard state from a query string; anything missing or malformed falls back to the default
+export const parseUrlState = (search: string): DashboardUrlState => {
+  const params = new URLSearchParams(search);
+  const venue = params.get(PARAMS.venue);
+  const [home, away] = (params.get(PARAMS.match) || '').split('|');
+
+  return {
+    seasonId: params.get(PARAMS.season) || undefined,
+    team: params.get(PARAMS.team) || '',
+    compareTeam: params.get(PARAMS.compare) || '',
+    venue: venue === 'home' || venue === 'away' ? venue : 'all',
+    range: parseRange(params),
+    referee: params.get(PARAMS.referee) || '',
+    rollingWindow: positiveInt(params.get(PARAMS.window)),
+    showMatchMarkers: params.get(PARAMS.markers) !== '0',
+    activeWeek: positiveInt(params.get(PARAMS.week)),
+    tableWeek: positiveInt(params.get(PARAMS.table)) ?? null,
+    match: home && away ? { home, away } : null
+  };
+};
+
+// Query string for a dashboard state, leaving out defaults to keep links short
+export const serialiseUrlState = (state: DashboardUrlState): string => {
+  const params = new URLSearchParams();
+  if (state.seasonId) params.set(PARAMS.season, state.seasonId);
+  if (state.team) params.set(PARAMS.team, state.team);
+  if (state.compareTeam) params.set(PARAMS.compare, state.compareTeam);
+  if (state.venue !== 'all') params.set(PARAMS.venue, state.venue);
+  if (state.range.mode === 'weeks') {
+    params.set(PARAMS.weeks, state.range.from === state.range.to ? String(state.range.from) : `${state.range.from}-${state.range.to}`);
+  } else if (state.range.mode === 'dates') {
+    if (state.range.from) params.set(PARAMS.from, state.range.from);
+    if (state.range.to) params.set(PARAMS.to, state.range.to);
+  }
+  if (state.referee) params.set(PARAMS.referee, state.referee);
+  if (state.rollingWindow !== undefined) params.set(PARAMS.window, String(state.rollingWindow));
+  if (!state.showMatchMarkers) params.set(PARAMS.markers, '0');
+  if (state.activeWeek !== undefined) params.set(PARAMS.week, String(state.activeWeek));
+  if (state.tableWeek !== null) params.set(PARAMS.table, String(state.tableWeek));
+  if (state.match) params.set(PARAMS.match, `${state.match.home}|${state.match.away}`);
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+export const readUrlState = (): DashboardUrlState => parseUrlState(window.location.search);
+
+// Mirror a state in the address bar. A new history entry is added unless replace
+// is set; nothing happens when the URL already matches.
+export const writeUrlState = (state: DashboardUrlState, replace = false) => {
+  const search = serialiseUrlState(state);
+  if (search === window.location.search) return;
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  if (replace) {
+    window.history.replaceState(null, '', url);
+  } else {
+    window.history.pushState(null, '', url);
+  }
+};
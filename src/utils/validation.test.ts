@@ -0,0 +1,132 @@
+import { defaultData } from '../data/defaultData';
+import { MatchData } from '../types';
+import { createTeamRegistry } from './teams';
+import { unattendedRows, validateMatch, validateMatches, validateWithScoreFixes } from './validation';
+
+const played: MatchData = defaultData[0];
+const fixture: MatchData = { ...played, Status: 'scheduled', Score: '', xG: NaN, xG_away: NaN };
+
+const fields = (match: MatchData) => validateMatch(match).map(issue => issue.field);
+
+describe('validateMatch', () => {
+  it('passes a well-formed played match and an unplayed fixture without xG', () => {
+    expect(validateMatch(played)).toEqual([]);
+    expect(validateMatch(fixture)).toEqual([]);
+  });
+
+  it('offers the en dash fix for a hyphenated score', () => {
+    const [issue] = validateMatch({ ...played, Score: '2 - 1' });
+    expect(issue).toMatchObject({ field: 'Score', severity: 'error', fix: { Score: '2–1' } });
+  });
+
+  it('rejects a score it cannot repair', () => {
+    const [issue] = validateMatch({ ...played, Score: '2:1' });
+    expect(issue.field).toBe('Score');
+    expect(issue.fix).toBeUndefined();
+  });
+
+  it('warns about a score on a fixture that has not been played', () => {
+    expect(validateMatch({ ...fixture, Status: 'postponed', Score: '1–0' })).toEqual([
+      expect.objectContaining({ field: 'Score', severity: 'warning' })
+    ]);
+  });
+
+  it('allows a live match without a score yet', () => {
+    expect(validateMatch({ ...fixture, Status: 'live' })).toEqual([]);
+  });
+
+  it('needs non-negative xG on a played match', () => {
+    expect(fields({ ...played, xG: NaN, xG_away: -0.2 })).toEqual(['xG', 'xG_away']);
+  });
+
+  it('checks the week and date', () => {
+    expect(fields({ ...played, Wk: 1.5 })).toEqual(['Wk']);
+    expect(fields({ ...played, Wk: NaN })).toEqual(['Wk']);
+    expect(fields({ ...played, Date: '31/02/banana' })).toEqual(['Date']);
+    expect(fields({ ...played, Date: '' })).toEqual(['Date']);
+  });
+
+  it('rejects missing teams and a team playing itself', () => {
+    expect(fields({ ...played, Home: '', Away: '' })).toEqual(['Home', 'Away']);
+    expect(validateMatch({ ...played, Away: 'manchester utd' })).toEqual([
+      expect.objectContaining({ field: 'Away', message: 'Manchester Utd cannot play itself' })
+    ]);
+  });
+});
+
+describe('validateMatches', () => {
+  it('accepts the sample season', () => {
+    const report = validateMatches(defaultData, createTeamRegistry());
+    expect(report).toMatchObject({ errorCount: 0, warningCount: 0 });
+    expect(report.validRows).toEqual(defaultData);
+  });
+
+  it('flags the later row of a repeated fixture', () => {
+    const report = validateMatches([played, defaultData[1], { ...played, Score: '3–3' }]);
+    expect(report.rows[2].issues).toEqual([expect.objectContaining({ field: 'Home', message: expect.stringContaining('row 1') })]);
+    expect(report.errorCount).toBe(1);
+    expect(report.validRows).toEqual([played, defaultData[1]]);
+  });
+
+  it('spots duplicates spelled differently through the registry', () => {
+    const respelled = { ...played, Home: 'Man Utd', Score: '2–0' };
+    expect(validateMatches([played, respelled]).errorCount).toBe(0);
+    expect(validateMatches([played, respelled], createTeamRegistry()).rows[1].issues).toEqual([
+      expect.objectContaining({ message: expect.stringContaining('Duplicate fixture') })
+    ]);
+  });
+
+  it('treats the reverse fixture as a different match', () => {
+    expect(validateMatches([played, { ...played, Home: played.Away, Away: played.Home }]).errorCount).toBe(0);
+  });
+
+  it('suggests a known club and an alias for a misspelt team', () => {
+    const report = validateMatches([{ ...played, Away: 'Fulhm' }], createTeamRegistry());
+    expect(report.warningCount).toBe(1);
+    expect(report.rows[0].issues[0]).toMatchObject({
+      field: 'Away',
+      fix: { Away: 'Fulham' },
+      alias: { alias: 'Fulhm', teamId: 'fulham', teamName: 'Fulham' }
+    });
+    // Warnings don't keep a row out
+    expect(report.validRows).toHaveLength(1);
+  });
+});
+
+describe('validateWithScoreFixes', () => {
+  it('returns the plain report when no score needs repairing', () => {
+    const matches = [played, { ...played, Away: played.Home }];
+    expect(validateWithScoreFixes(matches)).toEqual(validateMatches(matches));
+  });
+
+  it('repairs a hyphenated score', () => {
+    const report = validateWithScoreFixes([{ ...played, Score: '1-0' }], createTeamRegistry());
+    expect(report.errorCount).toBe(0);
+    expect(report.validRows).toEqual([{ ...played, Score: '1–0' }]);
+  });
+
+  it('still leaves out rows that no fix rescues', () => {
+    const report = validateWithScoreFixes([{ ...played, Score: '1-0' }, { ...fixture, Home: 'Fulham', Away: 'Fulham', Wk: 2 }]);
+    expect(report.validRows).toEqual([{ ...played, Score: '1–0' }]);
+    expect(report.errorCount).toBe(1);
+  });
+
+  it('does not rename an unknown club that looks like a known one', () => {
+    const row = { ...played, Home: 'Sheffield Wed', Away: 'Barnsley', Score: '2-0' };
+    const report = validateWithScoreFixes([row], createTeamRegistry());
+    expect(report.rows[0].match).toEqual({ ...row, Score: '2–0' });
+    expect(report.rows[0].issues).toEqual([
+      expect.objectContaining({ field: 'Home', severity: 'warning', fix: { Home: 'Sheffield United' } }),
+      expect.objectContaining({ field: 'Away', severity: 'warning', fix: { Away: 'Burnley' } })
+    ]);
+    expect(unattendedRows(report)).toEqual([]);
+  });
+});
+
+describe('unattendedRows', () => {
+  it('leaves out rows with errors or a guessed club', () => {
+    const guessed = { ...defaultData[1], Away: 'Fulhm' };
+    const report = validateWithScoreFixes([played, guessed, { ...defaultData[2], Score: '2:1' }], createTeamRegistry());
+    expect(unattendedRows(report)).toEqual([played]);
+  });
+});
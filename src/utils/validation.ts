@@ -0,0 +1,181 @@
+import { MatchData, MatchField } from '../types';
+import { TeamRegistry, UserAlias } from './teams';
+
+export type IssueSeverity = 'error' | 'warning';
+
+// A single problem found on an imported row
+export interface ValidationIssue {
+  field: MatchField;
+  severity: IssueSeverity;
+  message: string;
+  // Suggested replacement values that resolve the issue, if one is obvious
+  fix?: Partial<MatchData>;
+  // Alias that would resolve an unknown team name permanently
+  alias?: UserAlias;
+}
+
+// Validation outcome for one row of an import
+export interface RowValidation {
+  index: number;
+  match: MatchData;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationReport {
+  rows: RowValidation[];
+  errorCount: number;
+  warningCount: number;
+  // Rows with no errors (warnings are allowed)
+  validRows: MatchData[];
+}
+
+// Scores must use the en dash FBref exports, e.g. "2–1"
+const SCORE_PATTERN = /^\d+–\d+$/;
+// Scores written with a hyphen or other dash variant that can be repaired automatically
+const FIXABLE_SCORE_PATTERN = /^(\d+)\s*[-—−]\s*(\d+)$/;
+
+const isValidNumber = (value: number): boolean => typeof value === 'number' && Number.isFinite(value);
+
+const checkScore = (match: MatchData): ValidationIssue[] => {
+  // A live match carries the score so far, or none yet at kick-off
+  if (match.Status === 'live' && match.Score === '') return [];
+  if (match.Status !== 'played' && match.Status !== 'live') {
+    // Unplayed fixtures should not carry a score
+    return match.Score === ''
+      ? []
+      : [{ field: 'Score', severity: 'warning', message: `${match.Status} fixture has a score "${match.Score}"` }];
+  }
+  if (SCORE_PATTERN.test(match.Score)) return [];
+
+  const fixable = match.Score.match(FIXABLE_SCORE_PATTERN);
+  if (fixable) {
+    return [{
+      field: 'Score',
+      severity: 'error',
+      message: `Score "${match.Score}" uses a hyphen instead of an en dash`,
+      fix: { Score: `${fixable[1]}–${fixable[2]}` }
+    }];
+  }
+  return [{ field: 'Score', severity: 'error', message: `Score "${match.Score}" is not in "home–away" format` }];
+};
+
+const checkXG = (match: MatchData, field: 'xG' | 'xG_away'): ValidationIssue[] => {
+  const value = match[field];
+  // xG is only published once a match has been played
+  if (match.Status !== 'played' && Number.isNaN(value)) return [];
+  if (!isValidNumber(value)) {
+    return [{ field, severity: 'error', message: `${field} is not a number` }];
+  }
+  if (value < 0) {
+    return [{ field, severity: 'error', message: `${field} cannot be negative` }];
+  }
+  return [];
+};
+
+// Check a single row in isolation (duplicates are checked across the whole file)
+export const validateMatch = (match: MatchData): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+
+  if (!isValidNumber(match.Wk) || match.Wk < 1 || !Number.isInteger(match.Wk)) {
+    issues.push({ field: 'Wk', severity: 'error', message: 'Week must be a positive whole number' });
+  }
+
+  if (match.Date === '' || Number.isNaN(new Date(match.Date).getTime())) {
+    issues.push({ field: 'Date', severity: 'error', message: `Date "${match.Date}" cannot be parsed` });
+  }
+
+  if (match.Home === '') {
+    issues.push({ field: 'Home', severity: 'error', message: 'Home team is missing' });
+  }
+  if (match.Away === '') {
+    issues.push({ field: 'Away', severity: 'error', message: 'Away team is missing' });
+  }
+  if (match.Home !== '' && match.Home.toLowerCase() === match.Away.toLowerCase()) {
+    issues.push({ field: 'Away', severity: 'error', message: `${match.Home} cannot play itself` });
+  }
+
+  issues.push(...checkScore(match));
+  issues.push(...checkXG(match, 'xG'));
+  issues.push(...checkXG(match, 'xG_away'));
+
+  return issues;
+};
+
+// Warn about team names the registry doesn't know but that look like a known club
+const checkTeamNames = (match: MatchData, registry: TeamRegistry): ValidationIssue[] =>
+  (['Home', 'Away'] as const).flatMap(field => {
+    const name = match[field];
+    if (name === '' || registry.resolve(name).known) return [];
+    const suggestion = registry.suggest(name);
+    if (!suggestion) return [];
+    return [{
+      field,
+      severity: 'warning' as const,
+      message: `Unknown team "${name}" - did you mean ${suggestion.name}?`,
+      fix: { [field]: suggestion.name },
+      alias: { alias: name, teamId: suggestion.id, teamName: suggestion.name }
+    }];
+  });
+
+// Validate every row of an import. A home/away pairing can only appear once per season,
+// so any repeat of the same fixture is flagged against the later row. Team names are
+// compared by canonical identity when a registry is given.
+export const validateMatches = (matches: MatchData[], registry?: TeamRegistry): ValidationReport => {
+  const seenFixtures = new Map<string, number>();
+  const teamKey = (name: string) => (registry ? registry.resolve(name).id : name.toLowerCase());
+
+  const rows = matches.map((match, index) => {
+    const issues = validateMatch(match);
+    if (registry) {
+      issues.push(...checkTeamNames(match, registry));
+    }
+
+    if (match.Home !== '' && match.Away !== '') {
+      const key = `${teamKey(match.Home)}|${teamKey(match.Away)}`;
+      const firstIndex = seenFixtures.get(key);
+      if (firstIndex !== undefined) {
+        issues.push({
+          field: 'Home',
+          severity: 'error',
+          message: `Duplicate fixture: ${match.Home} vs ${match.Away} already appears on row ${firstIndex + 1}`
+        });
+      } else {
+        seenFixtures.set(key, index);
+      }
+    }
+
+    return { index, match, issues };
+  });
+
+  const count = (severity: IssueSeverity) =>
+    rows.reduce((sum, row) => sum + row.issues.filter(issue => issue.severity === severity).length, 0);
+
+  return {
+    rows,
+    errorCount: count('error'),
+    warningCount: count('warning'),
+    validRows: rows
+      .filter(row => !row.issues.some(issue => issue.severity === 'error'))
+      .map(row => row.match)
+  };
+};
+
+// Validation for unattended imports (e.g. a polled endpoint), where nobody is there
+// to review rows. Only a score written with a hyphen is repaired, since that fix is
+// certain; a suggested club for an unknown name is a guess and stays a warning.
+export const validateWithScoreFixes = (matches: MatchData[], registry?: TeamRegistry): ValidationReport => {
+  const report = validateMatches(matches, registry);
+  const isScoreFix = (issue: ValidationIssue) => issue.field === 'Score' && issue.fix !== undefined;
+  if (!report.rows.some(row => row.issues.some(isScoreFix))) return report;
+  const fixed = report.rows.map(row =>
+    row.issues.filter(isScoreFix).reduce((match, issue) => ({ ...match, ...issue.fix }), row.match)
+  );
+  return validateMatches(fixed, registry);
+};
+
+// The rows an unattended import can load: no errors, and no team name that only looks
+// like a known club (it may well be a different one, e.g. "Sheffield Wed")
+export const unattendedRows = (report: ValidationReport): MatchData[] =>
+  report.rows
+    .filter(row => !row.issues.some(issue => issue.severity === 'error' || issue.alias))
+    .map(row => row.match);